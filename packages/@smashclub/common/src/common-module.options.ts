@@ -0,0 +1,343 @@
+import { ModuleMetadata } from '@nestjs/common';
+import { ThrottlerOptions } from '@nestjs/throttler';
+import { LoggingInterceptorOptions } from './interceptors/logging.interceptor';
+import { MetricsInterceptorOptions } from './interceptors/metrics.interceptor';
+import { ResponseInterceptorOptions } from './interceptors/response.interceptor';
+import { CorrelationOptions } from './middleware/correlation.middleware';
+import { GatewayRegistryConfig } from './services/gateway-registry.service';
+import { HealthOptions } from './services/health.service';
+import { IdentityResolverOptions } from './services/identity-resolver.service';
+import { LoggingOptions } from './services/logging.service';
+import { ServiceClientOptions } from './services/service-client.service';
+import { ShutdownOptions } from './services/shutdown-coordinator.service';
+import { IDENTITY_STRATEGY } from './types/identity.type';
+import { LOG_SEVERITY, LogSeverity } from './types/log.type';
+import { TracerOptions } from './utils/tracer.util';
+
+export const SMASHCLUB_COMMON_OPTIONS = 'SMASHCLUB_COMMON_OPTIONS';
+
+/**
+ * Every feature is opt-in: it is enabled when its key is present
+ * and its `enabled` flag is not false.
+ */
+interface FeatureToggle {
+  enabled?: boolean;
+}
+
+/**
+ * Gateway registration - any field left out falls back to env vars
+ */
+export type RegistryFeatureOptions = Partial<GatewayRegistryConfig>;
+
+/**
+ * ServiceClient (service discovery + load balancing) - any field left out
+ * falls back to env vars
+ */
+export type ServiceClientFeatureOptions = ServiceClientOptions;
+
+/**
+ * Identity resolution + global GatewayAuthGuard, RolesGuard,
+ * PermissionsGuard and OwnershipGuard
+ */
+export interface AuthFeatureOptions extends IdentityResolverOptions, FeatureToggle {}
+
+/**
+ * CorrelationMiddleware on every route (request id, user id, traceparent)
+ */
+export interface CorrelationFeatureOptions extends CorrelationOptions, FeatureToggle {}
+
+/**
+ * Global LoggingInterceptor, plus LoggingService settings
+ * (`logger` applies even when the interceptor is disabled)
+ */
+export interface LoggingFeatureOptions extends LoggingInterceptorOptions {
+  logger?: LoggingOptions;
+}
+
+/**
+ * GET /metrics (Prometheus text format) and global MetricsInterceptor
+ * A registry given here replaces the process-wide one (setMetricsRegistry),
+ * so every built-in metric is recorded into it.
+ */
+export interface MetricsFeatureOptions extends MetricsInterceptorOptions, FeatureToggle {}
+
+/**
+ * Request spans (opened by the global LoggingInterceptor) and the
+ * process-wide Tracer
+ * (options left out fall back to TRACE_* / OTEL_* env vars)
+ */
+export interface TracingFeatureOptions extends TracerOptions, FeatureToggle {}
+
+/**
+ * GET /health/live and /health/ready, plus HealthService settings
+ * (HealthService itself is always available to register indicators)
+ */
+export interface HealthFeatureOptions extends HealthOptions, FeatureToggle {}
+
+/**
+ * Global InFlightInterceptor, so ShutdownCoordinator waits for requests
+ * in flight, plus drain timings
+ */
+export interface ShutdownFeatureOptions extends ShutdownOptions, FeatureToggle {}
+
+/**
+ * Global UserThrottleGuard
+ */
+export interface ThrottlingFeatureOptions extends FeatureToggle {
+  /** Window length in ms (default: 60000) */
+  ttl?: number;
+  /** Max requests per window and tracker (default: 100) */
+  limit?: number;
+  /** Named throttlers, replacing ttl/limit */
+  throttlers?: ThrottlerOptions[];
+}
+
+/**
+ * Global ResponseInterceptor (standard { statusCode, message, data } envelope)
+ */
+export interface ResponseEnvelopeFeatureOptions
+  extends ResponseInterceptorOptions,
+    FeatureToggle {}
+
+/**
+ * Global GlobalExceptionFilter
+ */
+export type ExceptionFilterFeatureOptions = FeatureToggle;
+
+/**
+ * Options for SmashClubCommonModule.forRoot()
+ */
+export interface SmashClubCommonModuleOptions {
+  registry?: RegistryFeatureOptions;
+  serviceClient?: ServiceClientFeatureOptions;
+  auth?: AuthFeatureOptions;
+  correlation?: CorrelationFeatureOptions;
+  logging?: LoggingFeatureOptions;
+  metrics?: MetricsFeatureOptions;
+  tracing?: TracingFeatureOptions;
+  health?: HealthFeatureOptions;
+  shutdown?: ShutdownFeatureOptions;
+  throttling?: ThrottlingFeatureOptions;
+  responseEnvelope?: ResponseEnvelopeFeatureOptions;
+  exceptionFilter?: ExceptionFilterFeatureOptions;
+  /**
+   * Fail at boot on lenient env rules too, e.g. a JWT_SECRET shorter than
+   * 16 characters (default: false, they are logged as warnings)
+   */
+  strictConfig?: boolean;
+}
+
+/**
+ * Options for SmashClubCommonModule.forRootAsync()
+ */
+export interface SmashClubCommonModuleAsyncOptions extends Pick<ModuleMetadata, 'imports'> {
+  useFactory: (
+    ...args: any[]
+  ) => SmashClubCommonModuleOptions | Promise<SmashClubCommonModuleOptions>;
+  inject?: any[];
+  /**
+   * Controllers to mount (default: none), since they are registered before
+   * useFactory runs; each still answers 404 unless the factory enables its feature
+   */
+  endpoints?: CommonEndpoint[];
+}
+
+/**
+ * Built-in endpoints: GET /metrics and GET /health/live, /health/ready
+ */
+export type CommonEndpoint = 'metrics' | 'health';
+
+/**
+ * Thrown at boot when module options are invalid; lists every problem at once
+ */
+export class CommonModuleOptionsError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(
+      `Invalid SmashClubCommonModule options:\n${errors.map((e) => `  - ${e}`).join('\n')}`,
+    );
+    this.name = 'CommonModuleOptionsError';
+  }
+}
+
+/**
+ * Whether an opt-in feature is enabled
+ */
+export function isFeatureEnabled(feature: FeatureToggle | undefined): boolean {
+  return !!feature && feature.enabled !== false;
+}
+
+function checkPositiveInt(
+  errors: string[],
+  path: string,
+  value: unknown,
+): void {
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    errors.push(`${path} must be a positive integer (got ${JSON.stringify(value)})`);
+  }
+}
+
+function checkUrl(errors: string[], path: string, value: unknown): void {
+  if (value === undefined) return;
+  try {
+    const url = new URL(String(value));
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+  } catch {
+    errors.push(`${path} must be an http(s) URL (got ${JSON.stringify(value)})`);
+  }
+}
+
+function checkLogLevel(errors: string[], path: string, value: unknown): void {
+  if (value === undefined) return;
+  if (!LOG_SEVERITY.includes(value as LogSeverity)) {
+    errors.push(`${path} must be one of ${LOG_SEVERITY.join(', ')} (got ${JSON.stringify(value)})`);
+  }
+}
+
+/**
+ * Validate module options
+ * @throws CommonModuleOptionsError listing every invalid setting
+ */
+export function validateCommonModuleOptions(
+  options: SmashClubCommonModuleOptions,
+): SmashClubCommonModuleOptions {
+  const errors: string[] = [];
+
+  if (!options || typeof options !== 'object') {
+    throw new CommonModuleOptionsError(['options must be an object']);
+  }
+
+  const {
+    registry,
+    serviceClient,
+    auth,
+    correlation,
+    logging,
+    tracing,
+    health,
+    shutdown,
+    throttling,
+  } = options;
+
+  if (registry) {
+    checkUrl(errors, 'registry.gatewayUrl', registry.gatewayUrl);
+    checkUrl(errors, 'registry.baseUrl', registry.baseUrl);
+    checkPositiveInt(errors, 'registry.heartbeatInterval', registry.heartbeatInterval);
+    checkPositiveInt(errors, 'registry.retryInterval', registry.retryInterval);
+    checkPositiveInt(errors, 'registry.retryBaseDelay', registry.retryBaseDelay);
+    checkPositiveInt(errors, 'registry.maxHeartbeatFailures', registry.maxHeartbeatFailures);
+    checkPositiveInt(errors, 'registry.requestTimeout', registry.requestTimeout);
+    checkPositiveInt(errors, 'registry.healthCheckInterval', registry.healthCheckInterval);
+    checkPositiveInt(errors, 'registry.weight', registry.weight);
+    if (registry.tags !== undefined && !(Array.isArray(registry.tags) && registry.tags.every((t) => typeof t === 'string'))) {
+      errors.push('registry.tags must be an array of strings');
+    }
+    const backends = ['gateway', 'file', 'memory'];
+    if (typeof registry.backend === 'string' && !backends.includes(registry.backend)) {
+      errors.push(`registry.backend must be one of ${backends.join(', ')} or a RegistryBackend (got ${JSON.stringify(registry.backend)})`);
+    }
+    if (registry.serviceName !== undefined && !/^[a-z0-9][a-z0-9-]*$/.test(registry.serviceName)) {
+      errors.push(
+        `registry.serviceName must be lowercase letters, digits and dashes (got ${JSON.stringify(registry.serviceName)})`,
+      );
+    }
+  }
+
+  if (serviceClient) {
+    const strategies = ['round-robin', 'least-outstanding', 'weighted'];
+    checkUrl(errors, 'serviceClient.gatewayUrl', serviceClient.gatewayUrl);
+    checkPositiveInt(errors, 'serviceClient.timeoutMs', serviceClient.timeoutMs);
+    checkPositiveInt(errors, 'serviceClient.ejectAfterFailures', serviceClient.ejectAfterFailures);
+    checkPositiveInt(errors, 'serviceClient.ejectionMs', serviceClient.ejectionMs);
+    const checkStrategy = (path: string, value: unknown) => {
+      if (value !== undefined && !strategies.includes(value as string)) {
+        errors.push(`serviceClient.${path} must be one of ${strategies.join(', ')} (got ${JSON.stringify(value)})`);
+      }
+    };
+    checkStrategy('strategy', serviceClient.strategy);
+    for (const [service, strategy] of Object.entries(serviceClient.strategies ?? {})) {
+      checkStrategy(`strategies.${service}`, strategy);
+    }
+  }
+
+  if (auth) {
+    const builtIn: string[] = Object.values(IDENTITY_STRATEGY);
+    const custom = (auth.customStrategies ?? []).map((s) => s.name);
+    for (const name of auth.strategies ?? []) {
+      if (!builtIn.includes(name) && !custom.includes(name)) {
+        errors.push(`auth.strategies: unknown strategy "${name}"`);
+      }
+    }
+    (auth.signingSecrets ?? []).forEach((secret, i) => {
+      if (typeof secret !== 'string' || secret.length < 16) {
+        errors.push(`auth.signingSecrets[${i}] must be a string of at least 16 characters`);
+      }
+    });
+  }
+
+  if (correlation?.generateId !== undefined && typeof correlation.generateId !== 'function') {
+    errors.push('correlation.generateId must be a function');
+  }
+
+  if (logging?.slowRequestThreshold !== undefined) {
+    checkPositiveInt(errors, 'logging.slowRequestThreshold', logging.slowRequestThreshold);
+  }
+
+  if (logging?.logger) {
+    const { level, moduleLevels } = logging.logger;
+    checkLogLevel(errors, 'logging.logger.level', level);
+    for (const [module, moduleLevel] of Object.entries(moduleLevels ?? {})) {
+      checkLogLevel(errors, `logging.logger.moduleLevels.${module}`, moduleLevel);
+    }
+  }
+
+  if (tracing?.sampleRatio !== undefined) {
+    const ratio = tracing.sampleRatio;
+    if (typeof ratio !== 'number' || !(ratio >= 0 && ratio <= 1)) {
+      errors.push(`tracing.sampleRatio must be a number between 0 and 1 (got ${JSON.stringify(ratio)})`);
+    }
+  }
+
+  if (health) {
+    checkPositiveInt(errors, 'health.timeoutMs', health.timeoutMs);
+    checkPositiveInt(errors, 'health.maxEventLoopLagMs', health.maxEventLoopLagMs);
+    if (health.cacheTtlMs !== undefined && !(Number.isInteger(health.cacheTtlMs) && health.cacheTtlMs >= 0)) {
+      errors.push(`health.cacheTtlMs must be a non-negative integer (got ${JSON.stringify(health.cacheTtlMs)})`);
+    }
+    const ratio = health.maxHeapUsedRatio;
+    if (ratio !== undefined && (typeof ratio !== 'number' || !(ratio > 0 && ratio <= 1))) {
+      errors.push(`health.maxHeapUsedRatio must be a number in (0, 1] (got ${JSON.stringify(ratio)})`);
+    }
+    const names = new Set<string>();
+    for (const indicator of health.indicators ?? []) {
+      if (names.has(indicator.name)) {
+        errors.push(`health.indicators: duplicate indicator "${indicator.name}"`);
+      }
+      names.add(indicator.name);
+    }
+  }
+
+  if (shutdown) {
+    checkPositiveInt(errors, 'shutdown.drainTimeoutMs', shutdown.drainTimeoutMs);
+    checkPositiveInt(errors, 'shutdown.hookTimeoutMs', shutdown.hookTimeoutMs);
+    if (
+      shutdown.drainDelayMs !== undefined &&
+      !(Number.isInteger(shutdown.drainDelayMs) && shutdown.drainDelayMs >= 0)
+    ) {
+      errors.push(`shutdown.drainDelayMs must be a non-negative integer (got ${JSON.stringify(shutdown.drainDelayMs)})`);
+    }
+  }
+
+  if (throttling) {
+    checkPositiveInt(errors, 'throttling.ttl', throttling.ttl);
+    checkPositiveInt(errors, 'throttling.limit', throttling.limit);
+    if (throttling.throttlers && throttling.throttlers.length === 0) {
+      errors.push('throttling.throttlers must not be empty');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new CommonModuleOptionsError(errors);
+  }
+  return options;
+}
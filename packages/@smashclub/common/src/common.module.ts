@@ -1,28 +1,444 @@
-import { Module, Global } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
-import { GatewayRegistryService } from './services/gateway-registry.service';
-import { LoggingService } from './services/logging.service';
+import {
+  CanActivate,
+  DynamicModule,
+  Inject,
+  MiddlewareConsumer,
+  Module,
+  Global,
+  NestInterceptor,
+  NestModule,
+  Optional,
+  Provider,
+  Type,
+} from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import {
+  APP_FILTER,
+  APP_GUARD,
+  APP_INTERCEPTOR,
+  BaseExceptionFilter,
+  DiscoveryModule,
+  HttpAdapterHost,
+  Reflector,
+} from '@nestjs/core';
+import { ThrottlerStorageService } from '@nestjs/throttler';
+import {
+  CommonEndpoint,
+  isFeatureEnabled,
+  SMASHCLUB_COMMON_OPTIONS,
+  SmashClubCommonModuleAsyncOptions,
+  SmashClubCommonModuleOptions,
+  validateCommonModuleOptions,
+} from './common-module.options';
+import { COMMON_ENV, commonEnvReader, loadCommonEnv } from './config/common-env.provider';
+import { CommonEnvConfig } from './config/common-env.schema';
+import { HealthController } from './controllers/health.controller';
+import { MetricsController } from './controllers/metrics.controller';
+import { GlobalExceptionFilter } from './filters/global-exception.filter';
+import { GatewayAuthGuard } from './guards/gateway-auth.guard';
+import { OwnershipGuard } from './guards/ownership.guard';
+import { PermissionsGuard } from './guards/permissions.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { UserThrottleGuard } from './guards/throttle.guard';
+import { InFlightInterceptor } from './interceptors/in-flight.interceptor';
+import { LoggingInterceptor } from './interceptors/logging.interceptor';
+import { MetricsInterceptor } from './interceptors/metrics.interceptor';
+import { ResponseInterceptor } from './interceptors/response.interceptor';
+import {
+  CORRELATION_OPTIONS,
+  CorrelationMiddleware,
+} from './middleware/correlation.middleware';
+import {
+  GATEWAY_REGISTRY_OPTIONS,
+  GatewayRegistryService,
+} from './services/gateway-registry.service';
+import { HEALTH_OPTIONS, HealthService } from './services/health.service';
+import {
+  IDENTITY_RESOLVER_OPTIONS,
+  IdentityResolver,
+} from './services/identity-resolver.service';
+import { LOGGING_OPTIONS, LoggingService } from './services/logging.service';
+import { OwnershipRegistry } from './services/ownership-registry.service';
+import { PermissionRegistry } from './services/permission-registry.service';
+import { RouteManifestService } from './services/route-manifest.service';
+import {
+  SERVICE_CLIENT_OPTIONS,
+  ServiceClient,
+} from './services/service-client.service';
+import {
+  SHUTDOWN_OPTIONS,
+  ShutdownCoordinator,
+} from './services/shutdown-coordinator.service';
+import {
+  getMetricsRegistry,
+  MetricsRegistry,
+  setMetricsRegistry,
+} from './utils/metrics.util';
+import { setDefaultNonceStore } from './utils/nonce-store.util';
+import {
+  getTracer,
+  setTracer,
+  Tracer,
+  tracerOptionsFromConfig,
+} from './utils/tracer.util';
+
+/**
+ * Stand-ins registered when a feature is disabled
+ * (forRootAsync can't know at import time which features will be on)
+ */
+const allowAllGuard: CanActivate = { canActivate: () => true };
+const passThroughInterceptor: NestInterceptor = {
+  intercept: (_context, next) => next.handle(),
+};
+
+/**
+ * Every COMMON_ENV_SCHEMA variable, validated once so a bad deployment gets
+ * one report listing all problems; services read their settings from it
+ * Importing the class directly (no options) keeps the legacy, lenient
+ * parsing: invalid values only warn and fall back to their defaults, e.g.
+ * GATEWAY_REGISTRY_ENABLED=disabled still means enabled.
+ */
+const commonEnvProvider: Provider = {
+  provide: COMMON_ENV,
+  useFactory: (options?: SmashClubCommonModuleOptions, configService?: ConfigService) =>
+    loadCommonEnv(
+      configService,
+      options ? { strict: options.strictConfig } : { fallbackToDefaults: true },
+    ),
+  inject: [
+    { token: SMASHCLUB_COMMON_OPTIONS, optional: true },
+    { token: ConfigService, optional: true },
+  ],
+};
+
+/**
+ * Providers derived from the validated SMASHCLUB_COMMON_OPTIONS
+ * Global guards run in order: auth, throttle, roles, permissions, ownership.
+ * Interceptors wrap each other in order: in-flight, logging (with the request
+ * span), metrics, response.
+ */
+function createFeatureProviders(): Provider[] {
+  return [
+    ThrottlerStorageService,
+    {
+      provide: GATEWAY_REGISTRY_OPTIONS,
+      useFactory: (options: SmashClubCommonModuleOptions) =>
+        options.registry ?? { enabled: false },
+      inject: [SMASHCLUB_COMMON_OPTIONS],
+    },
+    {
+      provide: SERVICE_CLIENT_OPTIONS,
+      useFactory: (options: SmashClubCommonModuleOptions) => options.serviceClient ?? {},
+      inject: [SMASHCLUB_COMMON_OPTIONS],
+    },
+    {
+      provide: CORRELATION_OPTIONS,
+      useFactory: (options: SmashClubCommonModuleOptions) => options.correlation ?? {},
+      inject: [SMASHCLUB_COMMON_OPTIONS],
+    },
+    {
+      provide: LOGGING_OPTIONS,
+      useFactory: (options: SmashClubCommonModuleOptions) => options.logging?.logger ?? {},
+      inject: [SMASHCLUB_COMMON_OPTIONS],
+    },
+    {
+      provide: HEALTH_OPTIONS,
+      useFactory: (options: SmashClubCommonModuleOptions) => options.health ?? {},
+      inject: [SMASHCLUB_COMMON_OPTIONS],
+    },
+    {
+      provide: SHUTDOWN_OPTIONS,
+      useFactory: (options: SmashClubCommonModuleOptions) => options.shutdown ?? {},
+      inject: [SMASHCLUB_COMMON_OPTIONS],
+    },
+    {
+      // Also installed as the process-wide tracer, so RepositoryLogger
+      // and @LogQuery spans go to the same exporters
+      provide: Tracer,
+      useFactory: (options: SmashClubCommonModuleOptions, commonEnv: CommonEnvConfig) => {
+        if (!options.tracing || !isFeatureEnabled(options.tracing)) return getTracer();
+
+        const tracer = new Tracer({
+          ...tracerOptionsFromConfig(commonEnvReader(commonEnv)),
+          ...options.tracing,
+        });
+        setTracer(tracer);
+        return tracer;
+      },
+      inject: [SMASHCLUB_COMMON_OPTIONS, COMMON_ENV],
+    },
+    {
+      // Also installed as the process-wide registry, so metrics recorded
+      // outside MetricsInterceptor (registration, health, throttling,
+      // ServiceClient, shutdown) are rendered by /metrics as well
+      provide: MetricsRegistry,
+      useFactory: (options: SmashClubCommonModuleOptions) => {
+        const registry = options.metrics?.registry;
+        if (!registry || !isFeatureEnabled(options.metrics)) return getMetricsRegistry();
+
+        setMetricsRegistry(registry);
+        return registry;
+      },
+      inject: [SMASHCLUB_COMMON_OPTIONS],
+    },
+    {
+      provide: IDENTITY_RESOLVER_OPTIONS,
+      useFactory: (options: SmashClubCommonModuleOptions) => {
+        // Guards and verifiers built outside the module see the same nonces
+        if (options.auth?.nonceStore) setDefaultNonceStore(options.auth.nonceStore);
+        return options.auth ?? {};
+      },
+      inject: [SMASHCLUB_COMMON_OPTIONS],
+    },
+    {
+      provide: APP_GUARD,
+      useFactory: (
+        options: SmashClubCommonModuleOptions,
+        reflector: Reflector,
+        identityResolver: IdentityResolver,
+      ) =>
+        isFeatureEnabled(options.auth)
+          ? new GatewayAuthGuard(reflector, identityResolver)
+          : allowAllGuard,
+      inject: [SMASHCLUB_COMMON_OPTIONS, Reflector, IdentityResolver],
+    },
+    {
+      provide: APP_GUARD,
+      useFactory: async (
+        options: SmashClubCommonModuleOptions,
+        storage: ThrottlerStorageService,
+        reflector: Reflector,
+      ) => {
+        const throttling = options.throttling;
+        if (!throttling || !isFeatureEnabled(throttling)) return allowAllGuard;
+
+        const guard = new UserThrottleGuard(
+          throttling.throttlers ?? [
+            { ttl: throttling.ttl ?? 60_000, limit: throttling.limit ?? 100 },
+          ],
+          storage,
+          reflector,
+        );
+        await guard.onModuleInit();
+        return guard;
+      },
+      inject: [SMASHCLUB_COMMON_OPTIONS, ThrottlerStorageService, Reflector],
+    },
+    {
+      provide: APP_GUARD,
+      useFactory: (options: SmashClubCommonModuleOptions, reflector: Reflector) =>
+        isFeatureEnabled(options.auth) ? new RolesGuard(reflector) : allowAllGuard,
+      inject: [SMASHCLUB_COMMON_OPTIONS, Reflector],
+    },
+    {
+      provide: APP_GUARD,
+      useFactory: (
+        options: SmashClubCommonModuleOptions,
+        reflector: Reflector,
+        registry: PermissionRegistry,
+      ) =>
+        isFeatureEnabled(options.auth)
+          ? new PermissionsGuard(reflector, registry)
+          : allowAllGuard,
+      inject: [SMASHCLUB_COMMON_OPTIONS, Reflector, PermissionRegistry],
+    },
+    {
+      provide: APP_GUARD,
+      useFactory: (
+        options: SmashClubCommonModuleOptions,
+        reflector: Reflector,
+        registry: OwnershipRegistry,
+      ) =>
+        isFeatureEnabled(options.auth)
+          ? new OwnershipGuard(reflector, registry)
+          : allowAllGuard,
+      inject: [SMASHCLUB_COMMON_OPTIONS, Reflector, OwnershipRegistry],
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useFactory: (options: SmashClubCommonModuleOptions, coordinator: ShutdownCoordinator) =>
+        options.shutdown && isFeatureEnabled(options.shutdown)
+          ? new InFlightInterceptor(coordinator)
+          : passThroughInterceptor,
+      inject: [SMASHCLUB_COMMON_OPTIONS, ShutdownCoordinator],
+    },
+    {
+      // Logs and traces each request (one interceptor, so it is timed once)
+      provide: APP_INTERCEPTOR,
+      useFactory: (options: SmashClubCommonModuleOptions, tracer: Tracer) => {
+        const logging = !!options.logging && isFeatureEnabled(options.logging);
+        const tracing = !!options.tracing && isFeatureEnabled(options.tracing);
+        return logging || tracing
+          ? new LoggingInterceptor({
+              ...options.logging,
+              ...(!logging && { enabled: false }),
+              tracer: tracing ? tracer : null,
+            })
+          : passThroughInterceptor;
+      },
+      inject: [SMASHCLUB_COMMON_OPTIONS, Tracer],
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useFactory: (options: SmashClubCommonModuleOptions) =>
+        options.metrics && isFeatureEnabled(options.metrics)
+          ? new MetricsInterceptor(options.metrics)
+          : passThroughInterceptor,
+      inject: [SMASHCLUB_COMMON_OPTIONS],
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useFactory: (options: SmashClubCommonModuleOptions) =>
+        options.responseEnvelope && isFeatureEnabled(options.responseEnvelope)
+          ? new ResponseInterceptor(options.responseEnvelope)
+          : passThroughInterceptor,
+      inject: [SMASHCLUB_COMMON_OPTIONS],
+    },
+    {
+      provide: APP_FILTER,
+      useFactory: (options: SmashClubCommonModuleOptions, adapterHost: HttpAdapterHost) =>
+        isFeatureEnabled(options.exceptionFilter)
+          ? new GlobalExceptionFilter()
+          : new BaseExceptionFilter(adapterHost.httpAdapter),
+      inject: [SMASHCLUB_COMMON_OPTIONS, HttpAdapterHost],
+    },
+  ];
+}
+
+const ENDPOINT_CONTROLLERS: Record<CommonEndpoint, Type> = {
+  metrics: MetricsController,
+  health: HealthController,
+};
 
 /**
  * Common module that provides shared services across all microservices
- * 
+ *
  * Usage:
  * ```ts
  * @Module({
  *   imports: [SmashClubCommonModule],
  * })
  * export class AppModule {}
+ *
+ * // or, with typed options - every feature is opt-in
+ * @Module({
+ *   imports: [
+ *     SmashClubCommonModule.forRoot({
+ *       registry: { serviceName: 'booking-service', zone: 'ap-southeast-1a', tags: ['canary'] },
+ *       serviceClient: { strategy: 'least-outstanding' },
+ *       auth: { strategies: ['signed-session', 'bearer-jwt'] },
+ *       correlation: {},
+ *       logging: { slowRequestThreshold: 2000, logger: { level: 'info' } },
+ *       metrics: {},
+ *       tracing: { exporters: [new OtlpHttpSpanExporter()] },
+ *       health: { indicators: [pingIndicator('redis', () => redis.ping())] },
+ *       shutdown: { drainTimeoutMs: 20_000 },
+ *       throttling: { ttl: 60_000, limit: 100 },
+ *       responseEnvelope: {},
+ *       exceptionFilter: {},
+ *     }),
+ *   ],
+ * })
+ * export class AppModule {}
+ *
+ * // or, from ConfigService
+ * SmashClubCommonModule.forRootAsync({
+ *   imports: [ConfigModule],
+ *   inject: [ConfigService],
+ *   useFactory: (config: ConfigService) => ({
+ *     registry: { gatewayUrl: config.get('GATEWAY_URL') },
+ *     health: {},
+ *   }),
+ *   endpoints: ['health'],
+ * })
  * ```
+ *
+ * Importing the class directly keeps the legacy behaviour: env-based
+ * registry, lenient env parsing and no global guards, interceptors or filter.
+ * forRoot()/forRootAsync() fail at boot on any invalid variable.
+ *
+ * Call enableGracefulShutdown(app) in main.ts so SIGTERM drains requests
+ * before the gateway registration and other modules are torn down.
  */
-@Global() 
+@Global()
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, DiscoveryModule],
   providers: [
+    commonEnvProvider,
     GatewayRegistryService,
+    RouteManifestService,
+    ServiceClient,
     LoggingService,
-    
+    HealthService,
+    ShutdownCoordinator,
+    OwnershipRegistry,
+    PermissionRegistry,
+    IdentityResolver,
+  ],
+  exports: [
+    COMMON_ENV,
+    GatewayRegistryService,
+    ServiceClient,
+    LoggingService,
+    HealthService,
+    ShutdownCoordinator,
+    OwnershipRegistry,
+    PermissionRegistry,
+    IdentityResolver,
   ],
-  exports: [GatewayRegistryService, LoggingService],
 })
-export class SmashClubCommonModule {}
+export class SmashClubCommonModule implements NestModule {
+  constructor(
+    @Optional()
+    @Inject(SMASHCLUB_COMMON_OPTIONS)
+    private readonly options?: SmashClubCommonModuleOptions,
+  ) {}
+
+  configure(consumer: MiddlewareConsumer): void {
+    // Global module middleware is registered first, ahead of the app's own
+    // (e.g. GatewayAuthMiddleware), so the whole pipeline runs in context
+    if (isFeatureEnabled(this.options?.correlation)) {
+      consumer.apply(CorrelationMiddleware).forRoutes('*');
+    }
+  }
+
+  static forRoot(options: SmashClubCommonModuleOptions = {}): DynamicModule {
+    const validated = validateCommonModuleOptions(options);
+    const endpoints = (['metrics', 'health'] as const).filter((endpoint) =>
+      isFeatureEnabled(validated[endpoint]),
+    );
+
+    return {
+      module: SmashClubCommonModule,
+      global: true,
+      controllers: endpoints.map((endpoint) => ENDPOINT_CONTROLLERS[endpoint]),
+      providers: [
+        {
+          provide: SMASHCLUB_COMMON_OPTIONS,
+          useValue: validated,
+        },
+        ...createFeatureProviders(),
+      ],
+      exports: [SMASHCLUB_COMMON_OPTIONS, Tracer, MetricsRegistry],
+    };
+  }
 
+  static forRootAsync(options: SmashClubCommonModuleAsyncOptions): DynamicModule {
+    return {
+      module: SmashClubCommonModule,
+      global: true,
+      imports: options.imports ?? [],
+      controllers: (options.endpoints ?? []).map((endpoint) => ENDPOINT_CONTROLLERS[endpoint]),
+      providers: [
+        {
+          provide: SMASHCLUB_COMMON_OPTIONS,
+          useFactory: async (...args: unknown[]) =>
+            validateCommonModuleOptions(await options.useFactory(...args)),
+          inject: options.inject ?? [],
+        },
+        ...createFeatureProviders(),
+      ],
+      exports: [SMASHCLUB_COMMON_OPTIONS, Tracer, MetricsRegistry],
+    };
+  }
+}
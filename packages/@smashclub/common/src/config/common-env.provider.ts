@@ -0,0 +1,39 @@
+import { ConfigService } from '@nestjs/config';
+import { COMMON_ENV_SCHEMA, CommonEnvConfig } from './common-env.schema';
+import { validateConfig, ValidateConfigOptions } from './config-schema.util';
+
+/**
+ * Injection token of the validated COMMON_ENV_SCHEMA values
+ * SmashClubCommonModule validates every variable once at boot, so a bad
+ * deployment gets a single report instead of failing on the first service.
+ */
+export const COMMON_ENV = 'SMASHCLUB_COMMON_ENV';
+
+/**
+ * Validate every COMMON_ENV_SCHEMA variable from ConfigService (falling back
+ * to process.env)
+ * @throws ConfigValidationError listing every invalid variable
+ *   (unless options.fallbackToDefaults)
+ */
+export function loadCommonEnv(
+  configService?: ConfigService,
+  options: Pick<ValidateConfigOptions, 'strict' | 'fallbackToDefaults' | 'onWarning'> = {},
+): CommonEnvConfig {
+  return validateConfig(
+    COMMON_ENV_SCHEMA,
+    (key) => configService?.get(key) ?? process.env[key],
+    options,
+  );
+}
+
+/**
+ * Variable reader for services: the already validated COMMON_ENV when the
+ * module provides it, ConfigService / process.env otherwise
+ */
+export function commonEnvReader(
+  commonEnv?: CommonEnvConfig,
+  configService?: ConfigService,
+): (key: string) => unknown {
+  if (commonEnv) return (key) => (commonEnv as Record<string, unknown>)[key];
+  return (key) => configService?.get(key) ?? process.env[key];
+}
@@ -0,0 +1,373 @@
+import { defineConfigSchema, InferConfig } from './config-schema.util';
+
+/**
+ * Every environment variable read by @smashclub/common
+ * Services extend it with their own variables via extendConfigSchema().
+ */
+export const COMMON_ENV_SCHEMA = defineConfigSchema({
+  NODE_ENV: {
+    type: 'enum',
+    values: ['development', 'test', 'production'],
+    lenient: true,
+    default: 'development',
+    description: 'Runtime environment (other names, e.g. staging, are accepted and behave like development)',
+    group: 'Service',
+  },
+  PORT: {
+    type: 'integer',
+    min: 1,
+    max: 65535,
+    default: 3000,
+    description: 'HTTP port the service listens on',
+    group: 'Service',
+  },
+  SERVICE_NAME: {
+    type: 'string',
+    default: 'unknown',
+    min: 1,
+    description: 'Service name used for gateway registration and logs',
+    group: 'Service',
+  },
+  SERVICE_HOST: {
+    type: 'string',
+    default: 'localhost',
+    description: 'Host the gateway uses to reach this service',
+    group: 'Service',
+  },
+  SERVICE_PROTOCOL: {
+    type: 'enum',
+    values: ['http', 'https'],
+    default: 'http',
+    description: 'Protocol the gateway uses to reach this service',
+    group: 'Service',
+  },
+  SERVICE_BASE_URL: {
+    type: 'url',
+    description: 'Full base URL of this service (overrides protocol/host/port)',
+    group: 'Service',
+  },
+  SERVICE_INSTANCE_ID: {
+    type: 'string',
+    description: 'Unique instance ID (default: <service>-<random>)',
+    group: 'Service',
+  },
+  SERVICE_GLOBAL_PREFIX: {
+    type: 'string',
+    description: 'Prefix passed to app.setGlobalPrefix(), for the route manifest',
+    group: 'Service',
+  },
+  SERVICE_WEIGHT: {
+    type: 'integer',
+    min: 1,
+    max: 1000,
+    default: 100,
+    description: 'Relative share of traffic this instance should receive',
+    group: 'Service',
+  },
+  SERVICE_ZONE: {
+    type: 'string',
+    description: 'Availability zone / region of this instance',
+    group: 'Service',
+  },
+  SERVICE_TAGS: {
+    type: 'list',
+    description: 'Free-form instance tags, e.g. canary,arm64',
+    group: 'Service',
+  },
+
+  GATEWAY_URL: {
+    type: 'url',
+    default: 'http://localhost:8080',
+    description: 'Gateway base URL',
+    group: 'Gateway registry',
+  },
+  GATEWAY_REGISTRY_ENABLED: {
+    type: 'boolean',
+    default: true,
+    description: 'Register this instance with the gateway',
+    group: 'Gateway registry',
+  },
+  GATEWAY_HEARTBEAT_INTERVAL: {
+    type: 'integer',
+    min: 1000,
+    max: 300000,
+    default: 5000,
+    description: 'Heartbeat interval in ms',
+    group: 'Gateway registry',
+  },
+  GATEWAY_RETRY_INTERVAL: {
+    type: 'integer',
+    min: 1000,
+    max: 600000,
+    default: 15000,
+    description: 'Max delay in ms between registration retries (backoff cap)',
+    group: 'Gateway registry',
+  },
+  GATEWAY_RETRY_BASE_DELAY: {
+    type: 'integer',
+    min: 100,
+    max: 600000,
+    default: 1000,
+    description: 'Delay in ms before the first registration retry, doubled on each failure',
+    group: 'Gateway registry',
+  },
+  GATEWAY_HEARTBEAT_MAX_FAILURES: {
+    type: 'integer',
+    min: 1,
+    max: 100,
+    default: 3,
+    description: 'Consecutive heartbeat failures after which the instance re-registers',
+    group: 'Gateway registry',
+  },
+  GATEWAY_REQUEST_TIMEOUT: {
+    type: 'integer',
+    min: 100,
+    max: 60000,
+    default: 5000,
+    description: 'Timeout in ms of each call to the gateway registry',
+    group: 'Gateway registry',
+  },
+  GATEWAY_HEALTH_CHECK_INTERVAL: {
+    type: 'integer',
+    min: 1000,
+    max: 600000,
+    default: 30000,
+    description: 'Interval in ms for verifying the registration is still known',
+    group: 'Gateway registry',
+  },
+  GATEWAY_REGISTRY_BACKEND: {
+    type: 'enum',
+    values: ['gateway', 'file', 'memory'],
+    default: 'gateway',
+    description: 'Where to register: the gateway over HTTP, a shared JSON file (local dev) or memory (tests)',
+    group: 'Gateway registry',
+  },
+  GATEWAY_REGISTRY_FILE: {
+    type: 'string',
+    description: 'JSON file of the file backend (default: <tmpdir>/smashclub-registry.json)',
+    group: 'Gateway registry',
+  },
+  GATEWAY_PUBLISH_MANIFEST: {
+    type: 'boolean',
+    default: true,
+    description: 'Send the route manifest (auth + throttle per route) at registration',
+    group: 'Gateway registry',
+  },
+
+  SERVICE_DISCOVERY_CACHE_TTL: {
+    type: 'integer',
+    min: 0,
+    max: 600000,
+    default: 10000,
+    description: 'How long instance lists from GET /registry are reused, in ms',
+    group: 'Service discovery',
+  },
+  SERVICE_DISCOVERY_STRATEGY: {
+    type: 'enum',
+    values: ['round-robin', 'least-outstanding', 'weighted'],
+    default: 'round-robin',
+    description: 'How ServiceClient spreads requests across instances',
+    group: 'Service discovery',
+  },
+  SERVICE_CLIENT_TIMEOUT: {
+    type: 'integer',
+    min: 100,
+    max: 600000,
+    default: 5000,
+    description: 'Timeout in ms of ServiceClient requests',
+    group: 'Service discovery',
+  },
+
+  LOG_LEVEL: {
+    type: 'enum',
+    values: ['fatal', 'error', 'warn', 'info', 'debug', 'verbose'],
+    description: 'Minimum log level (default: info in production, debug otherwise)',
+    group: 'Logging',
+  },
+  LOG_MODULE_LEVELS: {
+    type: 'list',
+    description: 'Per-module log levels, e.g. GatewayRegistryService=warn,HTTP=debug',
+    group: 'Logging',
+  },
+  LOG_FORMAT: {
+    type: 'enum',
+    values: ['pretty', 'json'],
+    description: 'Console log format (default: json in production, pretty otherwise)',
+    group: 'Logging',
+  },
+  LOG_FILE: {
+    type: 'string',
+    description: 'Also write JSON lines to this file (rotated by size)',
+    group: 'Logging',
+  },
+  LOG_FILE_MAX_SIZE: {
+    type: 'integer',
+    min: 1024,
+    default: 10 * 1024 * 1024,
+    description: 'Size in bytes at which LOG_FILE is rotated',
+    group: 'Logging',
+  },
+  LOG_FILE_MAX_FILES: {
+    type: 'integer',
+    min: 1,
+    max: 100,
+    default: 5,
+    description: 'Rotated log files to keep',
+    group: 'Logging',
+  },
+  LOG_REDACT_PATHS: {
+    type: 'list',
+    description: 'Extra key paths to redact, e.g. *.nationalId,body.note',
+    group: 'Logging',
+  },
+  LOG_REDACT_STRATEGY: {
+    type: 'enum',
+    values: ['mask', 'hash', 'drop'],
+    default: 'mask',
+    description: 'How redacted values are written',
+    group: 'Logging',
+  },
+  LOG_REDACT_HASH_SALT: {
+    type: 'string',
+    min: 16,
+    secret: true,
+    description: 'Salt for the hash strategy (default: random per process)',
+    group: 'Logging',
+  },
+
+  TRACE_EXPORTERS: {
+    type: 'list',
+    values: ['console', 'otlp'],
+    description: 'Span exporters; tracing is off when empty',
+    group: 'Tracing',
+  },
+  TRACE_SAMPLE_RATIO: {
+    type: 'number',
+    min: 0,
+    max: 1,
+    default: 1,
+    description: 'Fraction of new traces recorded (callers\' sampling decision is kept)',
+    group: 'Tracing',
+  },
+  OTEL_EXPORTER_OTLP_ENDPOINT: {
+    type: 'url',
+    default: 'http://localhost:4318',
+    description: 'OpenTelemetry collector base URL (spans go to /v1/traces)',
+    group: 'Tracing',
+  },
+
+  HEALTH_CACHE_TTL: {
+    type: 'integer',
+    min: 0,
+    max: 60000,
+    default: 2000,
+    description: 'How long a health report is reused, in ms',
+    group: 'Health',
+  },
+  HEALTH_CHECK_TIMEOUT: {
+    type: 'integer',
+    min: 100,
+    max: 60000,
+    default: 3000,
+    description: 'Time in ms after which a health indicator counts as down',
+    group: 'Health',
+  },
+  HEALTH_EVENT_LOOP_LAG_MAX: {
+    type: 'integer',
+    min: 1,
+    default: 1000,
+    description: 'p99 event-loop lag in ms above which the instance is unhealthy',
+    group: 'Health',
+  },
+  HEALTH_HEAP_USED_MAX_RATIO: {
+    type: 'number',
+    min: 0,
+    max: 1,
+    default: 0.95,
+    description: 'Heap used / heap limit above which the instance is unhealthy',
+    group: 'Health',
+  },
+
+  SHUTDOWN_DRAIN_DELAY: {
+    type: 'integer',
+    min: 0,
+    max: 60000,
+    default: 1000,
+    description: 'Time in ms given to the gateway to stop routing before waiting on in-flight requests',
+    group: 'Shutdown',
+  },
+  SHUTDOWN_DRAIN_TIMEOUT: {
+    type: 'integer',
+    min: 0,
+    max: 600000,
+    default: 25000,
+    description: 'Max time in ms to wait for in-flight requests to finish',
+    group: 'Shutdown',
+  },
+  SHUTDOWN_HOOK_TIMEOUT: {
+    type: 'integer',
+    min: 100,
+    max: 600000,
+    default: 5000,
+    description: 'Max time in ms for each shutdown hook',
+    group: 'Shutdown',
+  },
+
+  PAGINATION_CURSOR_SECRET: {
+    type: 'string',
+    min: 16,
+    secret: true,
+    description: 'HMAC secret for pagination cursors (default: derived from GATEWAY_SIGNING_SECRETS or JWT_SECRET, else random per process)',
+    group: 'Pagination',
+  },
+
+  TRUST_GATEWAY_AUTH: {
+    type: 'boolean',
+    default: true,
+    description: 'Accept unsigned x-user-* headers when no signing secret is set',
+    group: 'Authentication',
+  },
+  GATEWAY_SIGNING_SECRETS: {
+    type: 'list',
+    min: 16,
+    secret: true,
+    description: 'Shared secrets for signed x-user-* headers (current first, comma-separated)',
+    group: 'Authentication',
+  },
+  JWT_SECRET: {
+    type: 'string',
+    min: 16,
+    lenient: true,
+    secret: true,
+    description: 'HS256 secret for local Bearer token verification',
+    group: 'Authentication',
+  },
+  JWT_PUBLIC_KEY: {
+    type: 'string',
+    description: 'PEM public key for RS256/ES256 tokens (\\n escapes allowed)',
+    group: 'Authentication',
+  },
+  JWT_JWKS_URI: {
+    type: 'string',
+    description: 'JWKS file path or URL for RS256/ES256 tokens',
+    group: 'Authentication',
+  },
+  JWT_ISSUER: {
+    type: 'list',
+    description: 'Accepted token issuers (comma-separated)',
+    group: 'Authentication',
+  },
+  JWT_AUDIENCE: {
+    type: 'list',
+    description: 'Accepted token audiences (comma-separated)',
+    group: 'Authentication',
+  },
+  JWT_ALGORITHMS: {
+    type: 'list',
+    values: ['HS256', 'RS256', 'ES256'],
+    description: 'Accepted token algorithms (default: those with a configured key)',
+    group: 'Authentication',
+  },
+});
+
+export type CommonEnvConfig = InferConfig<typeof COMMON_ENV_SCHEMA>;
@@ -0,0 +1,411 @@
+import { Logger } from '@nestjs/common';
+import { levenshteinDistance } from '../utils/string.util';
+
+/**
+ * Supported variable types
+ * - list: comma-separated values
+ * - url: absolute http(s) URL
+ */
+export type ConfigVarType =
+  | 'string'
+  | 'integer'
+  | 'number'
+  | 'boolean'
+  | 'url'
+  | 'enum'
+  | 'list';
+
+/**
+ * Declaration of a single environment variable
+ */
+export interface ConfigVarDefinition {
+  type: ConfigVarType;
+  description: string;
+  /** Value used when the variable is unset */
+  default?: string | number | boolean | readonly string[];
+  /** Fail validation when unset and there is no default */
+  required?: boolean;
+  /** Inclusive lower bound (integer / number) or minimum length (string, list items) */
+  min?: number;
+  /** Inclusive upper bound (integer / number) or maximum length (string) */
+  max?: number;
+  /** Allowed values (enum, or each list item) */
+  values?: readonly string[];
+  /**
+   * Report min / max / values violations as warnings and keep the value,
+   * unless validation is strict - for rules tightened after deployments
+   * already relied on looser values
+   */
+  lenient?: boolean;
+  /** Never print the value (redacted view, .env.example) */
+  secret?: boolean;
+  /** Heading used to group variables in .env.example */
+  group?: string;
+}
+
+export type ConfigSchema = Record<string, ConfigVarDefinition>;
+
+type ConfigValueOf<D> = D extends { type: 'integer' | 'number' }
+  ? number
+  : D extends { type: 'boolean' }
+    ? boolean
+    : D extends { lenient: true }
+      ? D extends { type: 'list' } ? string[] : string
+      : D extends { type: 'list'; values: readonly (infer V extends string)[] }
+        ? V[]
+        : D extends { type: 'list' }
+          ? string[]
+          : D extends { type: 'enum'; values: readonly (infer V extends string)[] }
+            ? V
+            : string;
+
+type AlwaysPresent<D> = D extends { default: unknown }
+  ? true
+  : D extends { required: true }
+    ? true
+    : false;
+
+/**
+ * Typed values produced by validateConfig() for a schema
+ */
+export type InferConfig<S extends ConfigSchema> = {
+  [K in keyof S]: AlwaysPresent<S[K]> extends true
+    ? ConfigValueOf<S[K]>
+    : ConfigValueOf<S[K]> | undefined;
+};
+
+export interface ConfigIssue {
+  key: string;
+  message: string;
+}
+
+/**
+ * Thrown when configuration is invalid; lists every problem at once
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(
+      `Invalid configuration (${issues.length} problem${issues.length === 1 ? '' : 's'}):\n` +
+        issues.map((i) => `  - ${i.key}: ${i.message}`).join('\n'),
+    );
+    this.name = 'ConfigValidationError';
+  }
+}
+
+export type ConfigSource =
+  | Record<string, unknown>
+  | ((key: string) => unknown);
+
+export interface ValidateConfigOptions {
+  /**
+   * Report set variables that start with one of these prefixes but are not
+   * declared in the schema (catches misspelled names such as GATEWAY_URLL)
+   */
+  strictPrefixes?: string[];
+  /** Report lenient variables' violations as errors (default: false) */
+  strict?: boolean;
+  /**
+   * Never throw: invalid or missing variables fall back to their default
+   * (or stay unset) and are reported as warnings (default: false)
+   */
+  fallbackToDefaults?: boolean;
+  /** Called for each warning (default: logged once per variable and message) */
+  onWarning?: (issue: ConfigIssue) => void;
+}
+
+const logger = new Logger('ConfigValidation');
+const loggedWarnings = new Set<string>();
+
+function logWarningOnce(issue: ConfigIssue): void {
+  const key = `${issue.key}\u0000${issue.message}`;
+  if (loggedWarnings.has(key)) return;
+  loggedWarnings.add(key);
+  logger.warn(`${issue.key} ${issue.message}`);
+}
+
+/**
+ * Declare a schema, keeping literal types for InferConfig
+ *
+ * @example
+ * ```ts
+ * export const BOOKING_ENV_SCHEMA = extendConfigSchema(COMMON_ENV_SCHEMA, {
+ *   BOOKING_HOLD_MINUTES: {
+ *     type: 'integer', default: 15, min: 1, max: 120,
+ *     description: 'Minutes a pending booking holds the court',
+ *   },
+ * });
+ * ```
+ */
+export function defineConfigSchema<const S extends ConfigSchema>(schema: S): S {
+  return schema;
+}
+
+/**
+ * Add (or override) variables on top of a base schema, e.g. per service
+ */
+export function extendConfigSchema<
+  const B extends ConfigSchema,
+  const E extends ConfigSchema,
+>(base: B, extra: E): Omit<B, keyof E> & E {
+  return { ...base, ...extra };
+}
+
+/**
+ * Keep only some variables of a schema
+ */
+export function pickConfigSchema<S extends ConfigSchema, K extends keyof S>(
+  schema: S,
+  keys: readonly K[],
+): Pick<S, K> {
+  const picked = {} as Pick<S, K>;
+  for (const key of keys) picked[key] = schema[key];
+  return picked;
+}
+
+function defaultOf(def: ConfigVarDefinition): unknown {
+  return Array.isArray(def.default) ? [...def.default] : def.default;
+}
+
+function isUnset(raw: unknown): boolean {
+  return raw === undefined || raw === null || raw === '';
+}
+
+function parseValue(
+  key: string,
+  def: ConfigVarDefinition,
+  raw: unknown,
+  issues: ConfigIssue[],
+  warnings: ConfigIssue[] | undefined,
+): unknown {
+  const fail = (message: string) => {
+    issues.push({ key, message });
+    return undefined;
+  };
+  // Rule (not type) violations, downgraded to warnings for lenient variables
+  const violate = <V>(message: string, value: V): V | undefined => {
+    if (!def.lenient || !warnings) return fail(message);
+    warnings.push({ key, message });
+    return value;
+  };
+  const shown = def.secret ? '(hidden)' : JSON.stringify(raw);
+
+  switch (def.type) {
+    case 'integer':
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      if (!Number.isFinite(value) || String(raw).trim() === '') {
+        return fail(`expected a number, got ${shown}`);
+      }
+      if (def.type === 'integer' && !Number.isInteger(value)) {
+        return fail(`expected an integer, got ${shown}`);
+      }
+      if (def.min !== undefined && value < def.min) return violate(`must be >= ${def.min}, got ${value}`, value);
+      if (def.max !== undefined && value > def.max) return violate(`must be <= ${def.max}, got ${value}`, value);
+      return value;
+    }
+
+    case 'boolean': {
+      if (typeof raw === 'boolean') return raw;
+      const normalized = String(raw).trim().toLowerCase();
+      if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+      if (['false', '0', 'no', 'off'].includes(normalized)) return false;
+      return fail(`expected true/false, got ${shown}`);
+    }
+
+    case 'url': {
+      try {
+        const url = new URL(String(raw));
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+        return String(raw).replace(/\/+$/, '');
+      } catch {
+        return fail(`expected an http(s) URL, got ${shown}`);
+      }
+    }
+
+    case 'enum': {
+      const value = String(raw).trim();
+      if (def.values && !def.values.includes(value)) {
+        return violate(`must be one of ${def.values.join(', ')}, got ${shown}`, value);
+      }
+      return value;
+    }
+
+    case 'list': {
+      const items = (Array.isArray(raw) ? raw.map(String) : String(raw).split(','))
+        .map((v) => v.trim())
+        .filter((v) => v.length > 0);
+      const invalid = def.values ? items.filter((v) => !def.values!.includes(v)) : [];
+      if (invalid.length > 0) {
+        return violate(`unsupported value(s) ${invalid.join(', ')}; allowed: ${def.values!.join(', ')}`, items);
+      }
+      if (def.min !== undefined && items.some((v) => v.length < def.min!)) {
+        return violate(`every item must be at least ${def.min} characters long`, items);
+      }
+      return items;
+    }
+
+    case 'string':
+    default: {
+      const value = String(raw);
+      if (def.min !== undefined && value.length < def.min) {
+        return violate(`must be at least ${def.min} characters long`, value);
+      }
+      if (def.max !== undefined && value.length > def.max) {
+        return violate(`must be at most ${def.max} characters long`, value);
+      }
+      return value;
+    }
+  }
+}
+
+/**
+ * Validate and coerce configuration against a schema
+ * Violations on lenient variables are only warnings unless options.strict.
+ * @throws ConfigValidationError listing every invalid or missing variable
+ *   (unless options.fallbackToDefaults)
+ */
+export function validateConfig<S extends ConfigSchema>(
+  schema: S,
+  source: ConfigSource = process.env,
+  options: ValidateConfigOptions = {},
+): InferConfig<S> {
+  const read = typeof source === 'function' ? source : (key: string) => source[key];
+  const issues: ConfigIssue[] = [];
+  const warnings: ConfigIssue[] = [];
+  const values: Record<string, unknown> = {};
+
+  for (const [key, def] of Object.entries(schema)) {
+    const raw = read(key);
+
+    if (isUnset(raw)) {
+      if (def.default !== undefined) {
+        values[key] = defaultOf(def);
+      } else if (def.required) {
+        issues.push({ key, message: `is required (${def.description})` });
+      }
+      continue;
+    }
+
+    values[key] = parseValue(key, def, raw, issues, options.strict ? undefined : warnings);
+  }
+
+  if (options.strictPrefixes?.length && typeof source !== 'function') {
+    const known = Object.keys(schema);
+    for (const key of Object.keys(source)) {
+      if (known.includes(key)) continue;
+      if (!options.strictPrefixes.some((prefix) => key.startsWith(prefix))) continue;
+
+      const closest = known
+        .map((k) => ({ k, d: levenshteinDistance(k, key) }))
+        .sort((a, b) => a.d - b.d)[0];
+      issues.push({
+        key,
+        message:
+          closest && closest.d <= 3
+            ? `unknown variable - did you mean ${closest.k}?`
+            : 'unknown variable',
+      });
+    }
+  }
+
+  if (options.fallbackToDefaults) {
+    for (const issue of issues.splice(0)) {
+      const def = schema[issue.key];
+      if (!def) {
+        warnings.push(issue);
+        continue;
+      }
+      values[issue.key] = defaultOf(def);
+      const fallback =
+        def.default === undefined ? 'left unset' : `using the default ${JSON.stringify(def.default)}`;
+      warnings.push({ key: issue.key, message: `${issue.message} - ${fallback}` });
+    }
+  }
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  warnings.forEach(options.onWarning ?? logWarningOnce);
+  return values as InferConfig<S>;
+}
+
+/**
+ * Build a `validate` function for ConfigModule.forRoot()
+ * Validated variables are replaced by their typed values; others are kept.
+ *
+ * @example
+ * ```ts
+ * ConfigModule.forRoot({ validate: createConfigValidator(COMMON_ENV_SCHEMA) })
+ * ```
+ */
+export function createConfigValidator<S extends ConfigSchema>(
+  schema: S,
+  options: ValidateConfigOptions = {},
+): (config: Record<string, unknown>) => Record<string, unknown> {
+  return (config) => ({ ...config, ...validateConfig(schema, config, options) });
+}
+
+function formatDefault(def: ConfigVarDefinition): string {
+  if (def.default === undefined) return '';
+  return Array.isArray(def.default) ? def.default.join(',') : String(def.default);
+}
+
+/**
+ * Generate a .env.example document from a schema
+ */
+export function generateEnvExample(schema: ConfigSchema): string {
+  const groups = new Map<string, string[]>();
+
+  for (const [key, def] of Object.entries(schema)) {
+    const hints: string[] = [def.type];
+    if (def.values) hints.push(`one of: ${def.values.join(' | ')}`);
+    if (def.min !== undefined) hints.push(`min: ${def.min}`);
+    if (def.max !== undefined) hints.push(`max: ${def.max}`);
+    if (def.lenient) hints.push('not enforced unless strict');
+    if (def.required && def.default === undefined) hints.push('required');
+    if (def.secret) hints.push('secret');
+
+    const lines = [`# ${def.description}`, `# (${hints.join(', ')})`];
+    const value = def.secret ? '' : formatDefault(def);
+    lines.push(def.default === undefined && !def.required ? `# ${key}=` : `${key}=${value}`);
+
+    const group = def.group ?? 'General';
+    groups.set(group, [...(groups.get(group) ?? []), lines.join('\n')]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([group, entries]) => `# ---- ${group} ----\n\n${entries.join('\n\n')}`)
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Effective configuration with secrets masked, for startup logs / debugging
+ */
+export function redactConfig<S extends ConfigSchema>(
+  schema: S,
+  values: Partial<InferConfig<S>>,
+): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  for (const [key, def] of Object.entries(schema)) {
+    const value = (values as Record<string, unknown>)[key];
+    if (value === undefined) {
+      redacted[key] = '<unset>';
+    } else if (def.secret) {
+      redacted[key] = '******';
+    } else {
+      redacted[key] = Array.isArray(value) ? value.join(',') : String(value);
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Render the redacted effective configuration as `KEY=value` lines
+ */
+export function printEffectiveConfig<S extends ConfigSchema>(
+  schema: S,
+  values: Partial<InferConfig<S>>,
+): string {
+  return Object.entries(redactConfig(schema, values))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+}
@@ -0,0 +1,3 @@
+export * from './config-schema.util';
+export * from './common-env.schema';
+export * from './common-env.provider';
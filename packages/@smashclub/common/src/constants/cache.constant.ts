@@ -20,6 +20,7 @@ export const CACHE_TTL = {
 export const CACHE_PREFIX = {
   USER: 'user:',
   SESSION: 'session:',
+  CLUB: 'club:',
   BOOKING: 'booking:',
   COURT: 'court:',
   TOURNAMENT: 'tournament:',
@@ -0,0 +1,7 @@
+export const CORRELATION_CONSTANTS = {
+    X_REQUEST_ID_HEADER: 'x-request-id',
+    TRACEPARENT_HEADER: 'traceparent',
+    TRACESTATE_HEADER: 'tracestate',
+    /** Longest incoming request id accepted as-is (longer ones are replaced) */
+    MAX_REQUEST_ID_LENGTH: 128,
+}as const;
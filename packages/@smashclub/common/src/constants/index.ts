@@ -2,3 +2,5 @@ export * from './cache.constant';
 export * from './roles.constant';
 export * from './signature.constant';
 
+export * from './permissions.constant';
+export * from './correlation.constant';
@@ -0,0 +1,71 @@
+import { UserRole } from './roles.constant';
+
+/**
+ * Permission strings use the `resource:action:scope` format
+ * - scope `own`: only resources the caller owns
+ * - scope `any`: every resource (implies `own`)
+ * - `*` matches any single segment, a lone `*` matches everything
+ */
+export const PERMISSIONS = {
+  ALL: '*',
+
+  CLUB_READ_ANY: 'club:read:any',
+  CLUB_UPDATE_OWN: 'club:update:own',
+  CLUB_UPDATE_ANY: 'club:update:any',
+
+  COURT_READ_ANY: 'court:read:any',
+  COURT_CREATE_OWN: 'court:create:own',
+  COURT_UPDATE_OWN: 'court:update:own',
+  COURT_UPDATE_ANY: 'court:update:any',
+  COURT_DELETE_OWN: 'court:delete:own',
+
+  BOOKING_CREATE_OWN: 'booking:create:own',
+  BOOKING_READ_OWN: 'booking:read:own',
+  BOOKING_READ_ANY: 'booking:read:any',
+  BOOKING_CANCEL_OWN: 'booking:cancel:own',
+  BOOKING_CANCEL_ANY: 'booking:cancel:any',
+
+  TOURNAMENT_READ_ANY: 'tournament:read:any',
+  TOURNAMENT_JOIN_OWN: 'tournament:join:own',
+  TOURNAMENT_CREATE_OWN: 'tournament:create:own',
+  TOURNAMENT_UPDATE_OWN: 'tournament:update:own',
+
+  TRAINING_MANAGE_OWN: 'training:manage:own',
+} as const;
+
+const GUEST_PERMISSIONS: string[] = [
+  PERMISSIONS.CLUB_READ_ANY,
+  PERMISSIONS.COURT_READ_ANY,
+  PERMISSIONS.TOURNAMENT_READ_ANY,
+];
+
+const PLAYER_PERMISSIONS: string[] = [
+  ...GUEST_PERMISSIONS,
+  PERMISSIONS.BOOKING_CREATE_OWN,
+  PERMISSIONS.BOOKING_READ_OWN,
+  PERMISSIONS.BOOKING_CANCEL_OWN,
+  PERMISSIONS.TOURNAMENT_JOIN_OWN,
+];
+
+/**
+ * Default role -> permission mapping
+ * Services can extend it at runtime through PermissionRegistry.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
+  [UserRole.GUEST]: GUEST_PERMISSIONS,
+  [UserRole.PLAYER]: PLAYER_PERMISSIONS,
+  [UserRole.COACH]: [
+    ...PLAYER_PERMISSIONS,
+    PERMISSIONS.TRAINING_MANAGE_OWN,
+  ],
+  [UserRole.OWNER]: [
+    ...PLAYER_PERMISSIONS,
+    PERMISSIONS.CLUB_UPDATE_OWN,
+    PERMISSIONS.COURT_CREATE_OWN,
+    PERMISSIONS.COURT_UPDATE_OWN,
+    PERMISSIONS.COURT_DELETE_OWN,
+    PERMISSIONS.TOURNAMENT_CREATE_OWN,
+    PERMISSIONS.TOURNAMENT_UPDATE_OWN,
+  ],
+  [UserRole.ADMIN]: [PERMISSIONS.ALL],
+};
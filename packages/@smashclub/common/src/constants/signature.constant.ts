@@ -1,5 +1,14 @@
 export const SECURITY_CONTANTS = {
     X_USER_SESSION_HEADER: 'x-user-session',
+    X_USER_ID_HEADER: 'x-user-id',
+    X_USER_ROLES_HEADER: 'x-user-roles',
+    X_USER_EMAIL_HEADER: 'x-user-email',
+    X_USER_PERMISSIONS_HEADER: 'x-user-permissions',
+    X_API_KEY_HEADER: 'x-api-key',
     MAX_CLOCK_SKEW_MS: 30*1000,
     HMAC_ALGORITHM: 'sha256',
-}as const;
\ No newline at end of file
+    /** Version prefix of the canonical signed identity string (v2 adds permissions) */
+    SIGNED_IDENTITY_VERSION: 'v2',
+    /** Previous version, still verified while gateways roll out v2 */
+    LEGACY_SIGNED_IDENTITY_VERSION: 'v1',
+}as const;
@@ -0,0 +1,64 @@
+import {
+  Controller,
+  Get,
+  Inject,
+  NotFoundException,
+  Optional,
+  Res,
+} from '@nestjs/common';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Response } from 'express';
+import {
+  isFeatureEnabled,
+  SMASHCLUB_COMMON_OPTIONS,
+  SmashClubCommonModuleOptions,
+} from '../common-module.options';
+import { Public } from '../decorators/public.decorator';
+import { HealthService } from '../services/health.service';
+import { HealthReport } from '../types/health.type';
+
+/**
+ * GET /health/live and GET /health/ready - 200 when up, 503 when down
+ *
+ * Mounted by SmashClubCommonModule.forRoot() when the `health` feature is
+ * enabled, or by forRootAsync() when `endpoints` lists it (answering 404
+ * unless the factory enables the feature). The report is written as-is so
+ * probes see the same body whether or not ResponseInterceptor is on.
+ */
+@Controller('health')
+export class HealthController {
+  constructor(
+    private readonly healthService: HealthService,
+    @Optional()
+    @Inject(SMASHCLUB_COMMON_OPTIONS)
+    private readonly options: SmashClubCommonModuleOptions = {},
+  ) {}
+
+  @Public()
+  @SkipThrottle()
+  @Get('live')
+  async live(@Res() res: Response): Promise<void> {
+    this.send(res, await this.probe(() => this.healthService.checkLiveness()));
+  }
+
+  @Public()
+  @SkipThrottle()
+  @Get('ready')
+  async ready(@Res() res: Response): Promise<void> {
+    this.send(res, await this.probe(() => this.healthService.checkReadiness()));
+  }
+
+  private probe(check: () => Promise<HealthReport>): Promise<HealthReport> {
+    if (!isFeatureEnabled(this.options.health)) {
+      throw new NotFoundException();
+    }
+    return check();
+  }
+
+  private send(res: Response, report: HealthReport): void {
+    res
+      .status(report.status === 'up' ? 200 : 503)
+      .setHeader('Cache-Control', 'no-store')
+      .json(report);
+  }
+}
@@ -0,0 +1,2 @@
+export * from './metrics.controller';
+export * from './health.controller';
@@ -0,0 +1,46 @@
+import {
+  Controller,
+  Get,
+  Inject,
+  NotFoundException,
+  Optional,
+  Res,
+} from '@nestjs/common';
+import { SkipThrottle } from '@nestjs/throttler';
+import { Response } from 'express';
+import {
+  isFeatureEnabled,
+  SMASHCLUB_COMMON_OPTIONS,
+  SmashClubCommonModuleOptions,
+} from '../common-module.options';
+import { Public } from '../decorators/public.decorator';
+import { getMetricsRegistry } from '../utils/metrics.util';
+
+/**
+ * GET /metrics - Prometheus scrape endpoint
+ *
+ * Mounted by SmashClubCommonModule.forRoot() when the `metrics` feature is
+ * enabled, or by forRootAsync() when `endpoints` lists it (answering 404
+ * unless the factory enables the feature). Written straight to the
+ * response so ResponseInterceptor doesn't wrap the text format.
+ */
+@Controller('metrics')
+export class MetricsController {
+  constructor(
+    @Optional()
+    @Inject(SMASHCLUB_COMMON_OPTIONS)
+    private readonly options: SmashClubCommonModuleOptions = {},
+  ) {}
+
+  @Public()
+  @SkipThrottle()
+  @Get()
+  scrape(@Res() res: Response): void {
+    if (!isFeatureEnabled(this.options.metrics)) {
+      throw new NotFoundException();
+    }
+
+    const registry = this.options.metrics?.registry ?? getMetricsRegistry();
+    res.status(200).type(registry.contentType).send(registry.render());
+  }
+}
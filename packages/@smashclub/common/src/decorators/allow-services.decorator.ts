@@ -0,0 +1,16 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_SERVICES_KEY = 'allowServices';
+
+/**
+ * Decorator to let specific internal services (API key callers) use a route
+ * Service identities are rejected everywhere else. Use '*' to allow any service.
+ * @example
+ * ```ts
+ * @AllowServices('notification-service')
+ * @Get(':id/participants')
+ * participants() { ... }
+ * ```
+ */
+export const AllowServices = (...services: string[]) =>
+  SetMetadata(ALLOW_SERVICES_KEY, services);
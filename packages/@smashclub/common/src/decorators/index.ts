@@ -3,3 +3,8 @@ export * from './roles.decorator';
 export * from './get-user.decorator';
 export * from './validate-input.decorator';
 
+export * from './owns-resource.decorator';
+export * from './require-permissions.decorator';
+export * from './allow-services.decorator';
+export * from './resilience.decorator';
+export * from './paginated-query.decorator';
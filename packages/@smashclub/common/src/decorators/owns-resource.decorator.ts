@@ -0,0 +1,39 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '../constants/roles.constant';
+import { OwnedResourceType } from '../types/ownership.type';
+
+export const OWNS_RESOURCE_KEY = 'ownsResource';
+
+export interface OwnsResourceOptions {
+  /** Name of the request field holding the resource ID (default: 'id') */
+  param?: string;
+  /** Where to read the resource ID from (default: 'params') */
+  from?: 'params' | 'query' | 'body';
+  /** Minimum role (per ROLE_HIERARCHY) that skips the ownership check (default: ADMIN) */
+  bypassRole?: UserRole | string;
+}
+
+export interface OwnsResourceMetadata extends Required<OwnsResourceOptions> {
+  resource: OwnedResourceType;
+}
+
+/**
+ * Decorator to require that the caller owns the targeted resource
+ * Checked by OwnershipGuard using the resolver registered in OwnershipRegistry.
+ * @example
+ * ```ts
+ * @OwnsResource(OWNED_RESOURCE.BOOKING, { param: 'id' })
+ * @Delete(':id')
+ * cancel(@Param('id') id: string) { ... }
+ * ```
+ */
+export const OwnsResource = (
+  resource: OwnedResourceType,
+  options: OwnsResourceOptions = {},
+) =>
+  SetMetadata<string, OwnsResourceMetadata>(OWNS_RESOURCE_KEY, {
+    resource,
+    param: options.param ?? 'id',
+    from: options.from ?? 'params',
+    bypassRole: options.bypassRole ?? UserRole.ADMIN,
+  });
@@ -0,0 +1,33 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { parseQuerySpec, QueryParserOptions } from '../utils/query-parser.util';
+
+/**
+ * Parameter decorator parsing page/limit, sort and filters of the query
+ * string into a validated QuerySpec (400 on unknown or invalid params)
+ *
+ * @example
+ * ```ts
+ * @Get()
+ * list(
+ *   @PaginatedQuery({
+ *     sortable: ['createdAt', 'price'],
+ *     filterable: {
+ *       status: { type: 'enum', values: ['PENDING', 'CONFIRMED', 'CANCELLED'] },
+ *       price: 'number',
+ *       startsAt: 'date',
+ *     },
+ *     defaultSort: '-createdAt',
+ *   })
+ *   spec: QuerySpec<'createdAt' | 'price', 'status' | 'price' | 'startsAt'>,
+ * ) {
+ *   // GET /bookings?status[in]=PENDING,CONFIRMED&price[gte]=100000&sort=-price,createdAt
+ *   return this.bookings.list(spec);
+ * }
+ * ```
+ */
+export const PaginatedQuery = createParamDecorator(
+  (options: QueryParserOptions | undefined, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest();
+    return parseQuerySpec((request.query ?? {}) as Record<string, unknown>, options);
+  },
+);
@@ -0,0 +1,37 @@
+import { SetMetadata } from '@nestjs/common';
+import { PermissionMatchMode } from '../utils/permission.util';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+export interface RequiredPermissions {
+  permissions: string[];
+  mode: PermissionMatchMode;
+}
+
+/**
+ * Decorator to specify required permissions for a route
+ * All listed permissions are required unless `{ mode: 'any' }` is passed last.
+ * @example
+ * ```ts
+ * @RequirePermissions(PERMISSIONS.BOOKING_CANCEL_ANY)
+ * @Delete(':id')
+ * cancel() { ... }
+ *
+ * @RequirePermissions('court:update:own', 'court:update:any', { mode: 'any' })
+ * @Patch(':id')
+ * update() { ... }
+ * ```
+ */
+export const RequirePermissions = (
+  ...args: Array<string | { mode: PermissionMatchMode }>
+) => {
+  const permissions = args.filter((a): a is string => typeof a === 'string');
+  const options = args.find(
+    (a): a is { mode: PermissionMatchMode } => typeof a === 'object' && a !== null,
+  );
+
+  return SetMetadata<string, RequiredPermissions>(PERMISSIONS_KEY, {
+    permissions,
+    mode: options?.mode ?? 'all',
+  });
+};
@@ -0,0 +1,93 @@
+import { Bulkhead, BulkheadOptions } from '../utils/bulkhead.util';
+import { CircuitBreaker, CircuitBreakerOptions } from '../utils/circuit-breaker.util';
+import { retry, RetryOptions } from '../utils/retry.util';
+import { withTimeout } from '../utils/timeout.util';
+
+type AsyncMethod = (...args: any[]) => Promise<unknown>;
+
+/**
+ * Replace an async method with `wrap(call)`, where `call` invokes the
+ * original with the same `this` and arguments
+ */
+function wrapMethod(
+  descriptor: PropertyDescriptor,
+  wrap: (call: () => Promise<unknown>) => Promise<unknown>,
+): PropertyDescriptor {
+  const originalMethod = descriptor.value as AsyncMethod;
+  descriptor.value = function (this: unknown, ...args: unknown[]) {
+    return wrap(() => originalMethod.apply(this, args));
+  };
+  return descriptor;
+}
+
+/**
+ * Retry the method with exponential backoff
+ * (retries are counted in resilience_events_total as Class.method)
+ *
+ * Stacked resilience decorators apply bottom-up: the one closest to the
+ * method runs innermost.
+ *
+ * @example
+ * ```ts
+ * @WithRetry({ retries: 3, baseDelayMs: 200 })
+ * @WithTimeout(2000)
+ * async fetchAvailability(courtId: string) { ... }
+ * ```
+ */
+export function WithRetry(options: RetryOptions = {}) {
+  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    const name = options.name ?? `${target.constructor.name}.${propertyKey}`;
+    return wrapMethod(descriptor, (call) => retry(call, { ...options, name }));
+  };
+}
+
+/**
+ * Reject with TimeoutError when the method takes longer than `timeoutMs`
+ * The method itself isn't cancelled; use withTimeout() when it should get
+ * the AbortSignal.
+ */
+export function WithTimeout(timeoutMs: number) {
+  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    const name = `${target.constructor.name}.${propertyKey}`;
+    return wrapMethod(descriptor, (call) => withTimeout(call, timeoutMs, { name }));
+  };
+}
+
+/**
+ * Run the method through a circuit breaker shared by every instance of
+ * the class (named Class.method unless `name` is given)
+ *
+ * @example
+ * ```ts
+ * @WithCircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 10_000 })
+ * async chargeBooking(bookingId: string) { ... }
+ * ```
+ */
+export function WithCircuitBreaker(options: Partial<CircuitBreakerOptions> = {}) {
+  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    const breaker = new CircuitBreaker({
+      ...options,
+      name: options.name ?? `${target.constructor.name}.${propertyKey}`,
+    });
+    return wrapMethod(descriptor, (call) => breaker.execute(call));
+  };
+}
+
+/**
+ * Cap concurrent calls of the method, across every instance of the class
+ *
+ * @example
+ * ```ts
+ * @WithBulkhead({ maxConcurrent: 2, maxQueue: 20 })
+ * async generateInvoicePdf(invoiceId: string) { ... }
+ * ```
+ */
+export function WithBulkhead(options: Partial<BulkheadOptions> = {}) {
+  return function (target: any, propertyKey: string, descriptor: PropertyDescriptor) {
+    const bulkhead = new Bulkhead({
+      ...options,
+      name: options.name ?? `${target.constructor.name}.${propertyKey}`,
+    });
+    return wrapMethod(descriptor, (call) => bulkhead.execute(call));
+  };
+}
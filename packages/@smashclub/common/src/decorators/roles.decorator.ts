@@ -1,16 +1,46 @@
-import { SetMetadata } from '@nestjs/common';
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { UserRole } from '../constants/roles.constant';
+import { RoleCheckOptions } from '../utils/role.util';
 
 export const ROLES_KEY = 'roles';
+export const ROLES_OPTIONS_KEY = 'rolesOptions';
+export const MIN_ROLE_KEY = 'minRole';
 
 /**
  * Decorator to specify required roles for a route
- * Accepts string roles for flexibility with different Prisma schemas
+ * Accepts string roles for flexibility with different Prisma schemas.
+ * An options object may be passed last to change how roles are matched.
  * @example
  * ```ts
  * @Roles('ADMIN', 'OWNER')
  * @Get('admin-only')
  * adminOnly() { return 'Admin area'; }
+ *
+ * @Roles('PLAYER', 'COACH', { mode: 'all' })
+ * @Get('player-coach')
+ * playerCoach() { return 'Needs both roles'; }
  * ```
  */
-export const Roles = (...roles: string[]) => SetMetadata(ROLES_KEY, roles);
+export const Roles = (...args: Array<string | RoleCheckOptions>) => {
+  const roles = args.filter((a): a is string => typeof a === 'string');
+  const options =
+    args.find((a): a is RoleCheckOptions => typeof a === 'object' && a !== null) ?? {};
 
+  // Options are always set, so a handler's @Roles() replaces the class's
+  // roles and options together instead of inheriting e.g. mode: 'all'
+  return applyDecorators(
+    SetMetadata(ROLES_KEY, roles),
+    SetMetadata(ROLES_OPTIONS_KEY, options),
+  );
+};
+
+/**
+ * Decorator to require a minimum role according to ROLE_HIERARCHY
+ * @example
+ * ```ts
+ * @MinRole(UserRole.COACH)   // COACH, OWNER and ADMIN are allowed
+ * @Get('training-plans')
+ * plans() { ... }
+ * ```
+ */
+export const MinRole = (role: UserRole | string) => SetMetadata(MIN_ROLE_KEY, role);
@@ -1,4 +1,5 @@
-import { DEFAULT_PAGINATION } from '../types/pagination.type';
+import { BadRequestException } from '@nestjs/common';
+import { CursorPaginationParams, DEFAULT_PAGINATION, SortField } from '../types/pagination.type';
 
 /**
  * Pagination query DTO
@@ -64,3 +65,50 @@ export class PaginatedResponseDto<T> {
   }
 }
 
+
+/**
+ * Cursor pagination query DTO
+ */
+export class CursorPaginationQueryDto {
+  /** Opaque cursor (nextCursor / prevCursor of the previous response) */
+  cursor?: string;
+  limit?: number = DEFAULT_PAGINATION.LIMIT;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc' = 'desc';
+
+  /**
+   * Parameters for IBaseRepository.findPage()
+   * Query values arrive as strings, so limit is coerced and clamped to
+   * 1..MAX_LIMIT here.
+   * @param sortable Fields sortBy may name; anything else is a 400
+   * @throws BadRequestException on an unknown sortBy or sortOrder, or a
+   *   limit that is not a number
+   */
+  toParams(sortable: readonly string[]): CursorPaginationParams {
+    if (this.sortBy !== undefined && !sortable.includes(this.sortBy)) {
+      throw new BadRequestException(
+        `sortBy must be one of ${sortable.join(', ') || '(none)'} (got "${this.sortBy}")`,
+      );
+    }
+    if (this.sortOrder !== undefined && this.sortOrder !== 'asc' && this.sortOrder !== 'desc') {
+      throw new BadRequestException(`sortOrder must be asc or desc (got "${this.sortOrder}")`);
+    }
+
+    const limit = String(this.limit ?? '').trim() === '' ? undefined : Number(this.limit);
+    if (limit !== undefined && !Number.isFinite(limit)) {
+      throw new BadRequestException(`limit must be a number (got "${this.limit}")`);
+    }
+
+    const sort: SortField[] = this.sortBy
+      ? [{ field: this.sortBy, direction: this.sortOrder ?? 'desc' }]
+      : [];
+    return {
+      cursor: this.cursor,
+      limit:
+        limit === undefined
+          ? DEFAULT_PAGINATION.LIMIT
+          : Math.min(Math.max(Math.trunc(limit), 1), DEFAULT_PAGINATION.MAX_LIMIT),
+      sort,
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { SpanData, SpanExporter } from '../types/trace.type';
+
+/**
+ * One line per finished span on stdout, for local debugging
+ *
+ * `[span] GET /courts/:id 12.4ms server ok trace=4bf9... span=00f0... parent=-`
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+  readonly name = 'console';
+
+  export(spans: SpanData[]): void {
+    for (const span of spans) {
+      const duration = (span.endTime - span.startTime).toFixed(1);
+      process.stdout.write(
+        `[span] ${span.service} ${span.name} ${duration}ms ${span.kind} ${span.status}` +
+          ` trace=${span.traceId} span=${span.spanId} parent=${span.parentSpanId ?? '-'}` +
+          (span.statusMessage ? ` | ${span.statusMessage}` : '') +
+          '\n',
+      );
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { SpanData, SpanExporter } from '../types/trace.type';
+
+/**
+ * Keeps finished spans in memory - for assertions in tests
+ * (call `tracer.forceFlush()` before reading `spans`)
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  readonly name = 'in-memory';
+  readonly spans: SpanData[] = [];
+
+  export(spans: SpanData[]): void {
+    this.spans.push(...spans);
+  }
+
+  /**
+   * Spans of one trace, in start order
+   */
+  getTrace(traceId: string): SpanData[] {
+    return this.spans
+      .filter((s) => s.traceId === traceId)
+      .sort((a, b) => a.startTime - b.startTime);
+  }
+
+  reset(): void {
+    this.spans.length = 0;
+  }
+}
@@ -0,0 +1,3 @@
+export * from './console-span.exporter';
+export * from './in-memory-span.exporter';
+export * from './otlp-http-span.exporter';
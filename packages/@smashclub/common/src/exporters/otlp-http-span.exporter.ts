@@ -0,0 +1,105 @@
+import { SpanAttributes, SpanData, SpanExporter, SpanKind, SpanStatus } from '../types/trace.type';
+
+export interface OtlpHttpSpanExporterOptions {
+  /** OTLP/HTTP traces endpoint (default: http://localhost:4318/v1/traces) */
+  url?: string;
+  /** Extra request headers, e.g. collector auth */
+  headers?: Record<string, string>;
+  /** Request timeout in ms (default: 10000) */
+  timeoutMs?: number;
+}
+
+/** OTLP enum values */
+const SPAN_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const STATUS_CODE: Record<SpanStatus, number> = { unset: 0, ok: 1, error: 2 };
+
+function toOtlpAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({
+      key,
+      value:
+        typeof value === 'boolean'
+          ? { boolValue: value }
+          : typeof value === 'number'
+            ? Number.isInteger(value)
+              ? { intValue: String(value) }
+              : { doubleValue: value }
+            : { stringValue: String(value) },
+    }));
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector using OTLP/JSON over HTTP
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  readonly name = 'otlp-http';
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly timeoutMs: number;
+
+  constructor(options: OtlpHttpSpanExporterOptions = {}) {
+    this.url = options.url ?? 'http://localhost:4318/v1/traces';
+    this.headers = options.headers ?? {};
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
+
+  async export(spans: SpanData[]): Promise<void> {
+    if (spans.length === 0) return;
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify(this.toPayload(spans)),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Collector answered ${response.status} ${await response.text()}`);
+    }
+  }
+
+  /**
+   * ExportTraceServiceRequest, one resource per service
+   */
+  private toPayload(spans: SpanData[]) {
+    const byService = new Map<string, SpanData[]>();
+    for (const span of spans) {
+      byService.set(span.service, [...(byService.get(span.service) ?? []), span]);
+    }
+
+    return {
+      resourceSpans: Array.from(byService.entries()).map(([service, serviceSpans]) => ({
+        resource: { attributes: toOtlpAttributes({ 'service.name': service }) },
+        scopeSpans: [
+          {
+            scope: { name: '@smashclub/common' },
+            spans: serviceSpans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+              name: span.name,
+              kind: SPAN_KIND[span.kind],
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime),
+              attributes: toOtlpAttributes(span.attributes),
+              events: span.events.map((event) => ({
+                name: event.name,
+                timeUnixNano: toUnixNano(event.time),
+                attributes: toOtlpAttributes(event.attributes ?? {}),
+              })),
+              status: {
+                code: STATUS_CODE[span.status],
+                ...(span.statusMessage && { message: span.statusMessage }),
+              },
+            })),
+          },
+        ],
+      })),
+    };
+  }
+}
@@ -7,6 +7,11 @@ import {
   Logger,
 } from '@nestjs/common';
 import { Response, Request } from 'express';
+import {
+  getCorrelationContext,
+  getRequestId,
+} from '../utils/correlation-context.util';
+import { getActiveSpan } from '../utils/tracer.util';
 
 export interface ErrorResponse {
   statusCode: number;
@@ -15,6 +20,7 @@ export interface ErrorResponse {
   timestamp: string;
   path: string;
   requestId?: string;
+  traceId?: string;
 }
 
 @Catch()
@@ -26,7 +32,9 @@ export class GlobalExceptionFilter implements ExceptionFilter {
     const response = ctx.getResponse<Response>();
     const request = ctx.getRequest<Request>();
     
-    const requestId = request.headers['x-request-id'] as string | undefined;
+    const requestId =
+      getRequestId() ?? (request.headers['x-request-id'] as string | undefined);
+    const traceId = getActiveSpan()?.traceId ?? getCorrelationContext()?.traceId;
     
     let status: number;
     let message: string;
@@ -72,6 +80,7 @@ export class GlobalExceptionFilter implements ExceptionFilter {
       timestamp: new Date().toISOString(),
       path: request.url,
       ...(requestId && { requestId }),
+      ...(traceId && { traceId }),
     };
 
     response.status(status).json(errorResponse);
@@ -1,68 +1,88 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
   Injectable,
+  Optional,
   UnauthorizedException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { ALLOW_SERVICES_KEY } from '../decorators/allow-services.decorator';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
-import { RequestUser } from '../types/request-user.type';
+import { IdentityResolver } from '../services/identity-resolver.service';
+import { IdentityRequest } from '../types/identity.type';
+import { isServiceAllowed, isServiceIdentity } from '../utils/service-identity.util';
 
 /**
  * Auth guard that trusts Gateway's authentication
- * 
+ *
  * When requests come through the Gateway:
  * - Gateway validates JWT and sets x-user-id, x-user-roles headers
- * - This guard reads those headers and attaches user to request
- * 
+ * - This guard resolves those headers (through IdentityResolver) and
+ *   attaches user to request
+ * - If GATEWAY_SIGNING_SECRETS is set, the x-user-session signature must be
+ *   valid, fresh and not replayed, otherwise 401 is returned
+ *
+ * Internal services calling with x-api-key are only let through on routes
+ * that list them in @AllowServices().
+ *
  * For direct access (dev mode):
- * - Reads user from request.user (set by local JWT validation)
+ * - Uses request.user (set by local JWT validation or another auth layer)
+ *
+ * Resolution runs once per request, so it is safe to use together with
+ * GatewayAuthMiddleware.
  */
 @Injectable()
 export class GatewayAuthGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  private readonly identityResolver: IdentityResolver;
 
-  canActivate(context: ExecutionContext): boolean {
+  constructor(
+    private reflector: Reflector,
+    @Optional() identityResolver?: IdentityResolver,
+  ) {
+    // Allow `new GatewayAuthGuard(reflector)` outside DI (env-based config)
+    this.identityResolver = identityResolver ?? new IdentityResolver();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     // Check if route is public
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
       context.getHandler(),
       context.getClass(),
     ]);
-    
+
     if (isPublic) {
       return true;
     }
 
-    const request = context.switchToHttp().getRequest();
-    
-    // Try to get user from Gateway headers first
-    const userId = request.headers['x-user-id'];
-    const userRoles = request.headers['x-user-roles'];
-    const userEmail = request.headers['x-user-email'];
-    
-    if (userId && !request.user) {
-      // User info from Gateway - parse roles
-      const roles = userRoles 
-        ? String(userRoles).split(',').map((r: string) => r.trim())
-        : [];
-      
-      request.user = {
-        id: String(userId),
-        email: userEmail ? String(userEmail) : undefined,
-        roles,
-      } as RequestUser;
-    }
-    
-    // Check if user exists (from gateway headers or local JWT)
-    if (request.user && (request.user.id || request.user.sub)) {
-      // Normalize user object if needed
-      if (!request.user.id && request.user.sub) {
-        request.user.id = request.user.sub;
+    const request = context.switchToHttp().getRequest<IdentityRequest>();
+    await this.identityResolver.resolve(request);
+
+    if (isServiceIdentity(request.user)) {
+      const allowedServices = this.reflector.getAllAndOverride<string[]>(
+        ALLOW_SERVICES_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+      if (!isServiceAllowed(request.user, allowedServices)) {
+        throw new ForbiddenException(
+          `Service ${request.user.serviceName} is not allowed on this route`,
+        );
       }
       return true;
     }
-    
+
+    if (request.user?.id) {
+      return true;
+    }
+
+    if (request.authError) {
+      throw new UnauthorizedException({
+        statusCode: 401,
+        message: request.authError.message,
+        error: request.authError.code,
+      });
+    }
+
     throw new UnauthorizedException('Authentication required');
   }
 }
-
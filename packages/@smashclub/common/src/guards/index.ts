@@ -2,3 +2,5 @@ export * from './gateway-auth.guard';
 export * from './roles.guard';
 export * from './throttle.guard';
 
+export * from './ownership.guard';
+export * from './permissions.guard';
@@ -0,0 +1,103 @@
+import {
+  BadRequestException,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  OWNS_RESOURCE_KEY,
+  OwnsResourceMetadata,
+} from '../decorators/owns-resource.decorator';
+import { OwnershipRegistry } from '../services/ownership-registry.service';
+import { RequestUser } from '../types/request-user.type';
+import { satisfiesRole } from '../utils/role.util';
+
+/**
+ * Owner lookups already performed for a request, keyed by `<resource>:<id>`
+ */
+const requestOwnerCache = new WeakMap<object, Map<string, Promise<string[] | null>>>();
+
+/**
+ * Enforces @OwnsResource(): the caller must own the resource,
+ * or hold at least the configured bypass role (ADMIN by default)
+ *
+ * Must run after GatewayAuthGuard so request.user is populated.
+ */
+@Injectable()
+export class OwnershipGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly registry: OwnershipRegistry,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const meta = this.reflector.getAllAndOverride<OwnsResourceMetadata>(
+      OWNS_RESOURCE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!meta) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user as RequestUser | undefined;
+
+    if (!user?.id) {
+      throw new UnauthorizedException('Authentication required');
+    }
+
+    if (satisfiesRole(user, meta.bypassRole)) {
+      return true;
+    }
+
+    const resourceId = request[meta.from]?.[meta.param];
+    if (resourceId === undefined || resourceId === null || resourceId === '') {
+      throw new BadRequestException(`Missing ${meta.resource} identifier "${meta.param}"`);
+    }
+
+    const ownerIds = await this.lookupOwners(request, meta.resource, String(resourceId));
+
+    if (ownerIds === null) {
+      throw new NotFoundException(`${meta.resource} not found`);
+    }
+
+    if (!ownerIds.includes(user.id)) {
+      throw new ForbiddenException(`You do not own this ${meta.resource}`);
+    }
+
+    return true;
+  }
+
+  private lookupOwners(
+    request: object,
+    resource: string,
+    resourceId: string,
+  ): Promise<string[] | null> {
+    const resolver = this.registry.get(resource);
+    if (!resolver) {
+      throw new InternalServerErrorException(
+        `No ownership resolver registered for "${resource}"`,
+      );
+    }
+
+    let cache = requestOwnerCache.get(request);
+    if (!cache) {
+      cache = new Map();
+      requestOwnerCache.set(request, cache);
+    }
+
+    const key = `${resource}:${resourceId}`;
+    let owners = cache.get(key);
+    if (!owners) {
+      owners = Promise.resolve(resolver.resolveOwnerIds(resourceId));
+      cache.set(key, owners);
+    }
+    return owners;
+  }
+}
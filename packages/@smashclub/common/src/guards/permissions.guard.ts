@@ -0,0 +1,50 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  PERMISSIONS_KEY,
+  RequiredPermissions,
+} from '../decorators/require-permissions.decorator';
+import { PermissionRegistry } from '../services/permission-registry.service';
+import { RequestUser } from '../types/request-user.type';
+
+/**
+ * Checks @RequirePermissions() against the user's effective permissions
+ * (role permissions from PermissionRegistry + permission claims)
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly registry: PermissionRegistry,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<RequiredPermissions>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    // No permissions required = allow access
+    if (!required || required.permissions.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user as RequestUser | undefined;
+
+    if (!user || !this.registry.can(user, required.permissions, required.mode)) {
+      throw new ForbiddenException(
+        `Access denied. Required permissions: ${required.permissions.join(
+          required.mode === 'any' ? ' or ' : ', ',
+        )}`,
+      );
+    }
+
+    return true;
+  }
+}
@@ -5,47 +5,74 @@ import {
   Injectable,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { ROLES_KEY } from '../decorators/roles.decorator';
+import { ALLOW_SERVICES_KEY } from '../decorators/allow-services.decorator';
+import {
+  MIN_ROLE_KEY,
+  ROLES_KEY,
+  ROLES_OPTIONS_KEY,
+} from '../decorators/roles.decorator';
 import { RequestUser } from '../types/request-user.type';
+import { hasRole, RoleCheckOptions, satisfiesRole } from '../utils/role.util';
+import { isServiceAllowed, isServiceIdentity } from '../utils/service-identity.util';
 
+/**
+ * Checks @Roles() and @MinRole() requirements
+ *
+ * - @Roles('A', 'B'): user needs any of the roles (exact match)
+ * - @Roles('A', 'B', { mode: 'all' }): user needs every role
+ * - @Roles('COACH', { hierarchy: true }): higher roles in ROLE_HIERARCHY also pass
+ * - @MinRole(UserRole.COACH): user's highest role must rank at least COACH
+ *
+ * Service identities listed in @AllowServices() skip role checks.
+ */
 @Injectable()
 export class RolesGuard implements CanActivate {
   constructor(private reflector: Reflector) {}
 
   canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
     const requiredRoles = this.reflector.getAllAndOverride<string[]>(
       ROLES_KEY,
-      [context.getHandler(), context.getClass()],
+      targets,
     );
-    
+    const options =
+      this.reflector.getAllAndOverride<RoleCheckOptions>(ROLES_OPTIONS_KEY, targets) || {};
+    const minRole = this.reflector.getAllAndOverride<string>(MIN_ROLE_KEY, targets);
+
+    const hasRequiredRoles = !!requiredRoles && requiredRoles.length > 0;
+
     // No roles required = allow access
-    if (!requiredRoles || requiredRoles.length === 0) {
+    if (!hasRequiredRoles && !minRole) {
       return true;
     }
 
     const request = context.switchToHttp().getRequest();
     const user = request.user as RequestUser | undefined;
-    
+
+    if (
+      isServiceIdentity(user) &&
+      isServiceAllowed(user, this.reflector.getAllAndOverride<string[]>(ALLOW_SERVICES_KEY, targets))
+    ) {
+      return true;
+    }
+
     if (!user || !user.roles || user.roles.length === 0) {
       throw new ForbiddenException('Insufficient permissions');
     }
 
-    // Normalize roles to uppercase for comparison
-    const userRolesUpper = user.roles.map(r => r.toUpperCase());
-    const requiredRolesUpper = requiredRoles.map(r => r.toUpperCase());
-
-    // Check if user has any of the required roles
-    const hasRole = requiredRolesUpper.some(required => 
-      userRolesUpper.includes(required)
-    );
+    if (minRole && !satisfiesRole(user, minRole)) {
+      throw new ForbiddenException(
+        `Access denied. Minimum role: ${minRole}`,
+      );
+    }
 
-    if (!hasRole) {
+    if (hasRequiredRoles && !hasRole(user, requiredRoles, options)) {
+      const joiner = options.mode === 'all' ? ' and ' : ', ';
       throw new ForbiddenException(
-        `Access denied. Required roles: ${requiredRoles.join(', ')}`,
+        `Access denied. Required roles: ${requiredRoles.join(joiner)}`,
       );
     }
 
     return true;
   }
 }
-
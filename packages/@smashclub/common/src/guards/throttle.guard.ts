@@ -3,10 +3,14 @@ import {
   ExecutionContext,
 } from '@nestjs/common';
 import { ThrottlerGuard, ThrottlerException } from '@nestjs/throttler';
+import { getCommonMetrics } from '../utils/common-metrics.util';
+import { getRouteTemplate } from '../utils/route.util';
 
 /**
  * Custom throttle guard that uses user ID for authenticated requests
  * and IP address for unauthenticated requests
+ *
+ * Rejections are counted in throttle_rejections_total.
  */
 @Injectable()
 export class UserThrottleGuard extends ThrottlerGuard {
@@ -25,6 +29,9 @@ export class UserThrottleGuard extends ThrottlerGuard {
   }
 
   protected throwThrottlingException(context: ExecutionContext): Promise<void> {
+    getCommonMetrics().throttleRejections.inc({
+      route: getRouteTemplate(context.switchToHttp().getRequest()),
+    });
     throw new ThrottlerException('Too many requests. Please try again later.');
   }
 }
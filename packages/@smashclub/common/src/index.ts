@@ -6,6 +6,12 @@
 // Constants
 export * from './constants';
 
+// Config
+export * from './config';
+
+// Controllers
+export * from './controllers';
+
 // Decorators
 export * from './decorators';
 
@@ -36,6 +42,19 @@ export * from './repository';
 // Middleware
 export * from './middleware';
 
+// Identity strategies
+export * from './strategies';
+
+// Log transports
+export * from './transports';
+
+// Span exporters
+export * from './exporters';
+
+// Registry backends
+export * from './registry-backends';
+
 // Module
+export * from './common-module.options';
 export * from './common.module';
 
@@ -0,0 +1,27 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { finalize } from 'rxjs/operators';
+import { ShutdownCoordinator } from '../services/shutdown-coordinator.service';
+
+/**
+ * Counts HTTP requests in flight so ShutdownCoordinator can wait for them
+ * (also exposed as http_requests_in_flight)
+ */
+@Injectable()
+export class InFlightInterceptor implements NestInterceptor {
+  constructor(private readonly coordinator: ShutdownCoordinator) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const done = this.coordinator.trackRequest();
+    return next.handle().pipe(finalize(done));
+  }
+}
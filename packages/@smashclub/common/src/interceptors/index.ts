@@ -1,3 +1,5 @@
 export * from './response.interceptor';
 export * from './logging.interceptor';
 
+export * from './metrics.interceptor';
+export * from './in-flight.interceptor';
@@ -3,25 +3,54 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  HttpException,
+  HttpStatus,
   Logger,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
-import { tap } from 'rxjs/operators';
-import { Request } from 'express';
+import { finalize, tap } from 'rxjs/operators';
+import { Request, Response } from 'express';
+import { CORRELATION_CONSTANTS } from '../constants/correlation.constant';
+import { RequestUser } from '../types/request-user.type';
+import {
+  getCorrelationContext,
+  getRequestId,
+  updateCorrelationContext,
+} from '../utils/correlation-context.util';
+import { getDefaultRedactor, Redactor } from '../utils/redaction.util';
+import { getRouteTemplate } from '../utils/route.util';
+import { readHeader } from '../utils/signed-identity.util';
+import { parseTraceparent } from '../utils/trace-context.util';
+import { getTracer, Span, Tracer } from '../utils/tracer.util';
 
 export interface LoggingInterceptorOptions {
   /** Enable logging (default: true in non-production) */
   enabled?: boolean;
   /** Threshold in ms to log slow requests (default: 3000) */
   slowRequestThreshold?: number;
-  /** Log request body (default: false) */
+  /** Log request body, with secrets and PII redacted (default: false) */
   logBody?: boolean;
+  /** Redaction rules for URLs and bodies (default: process-wide redactor) */
+  redactor?: Redactor;
+  /** Tracer recording a server span per request (default: process-wide tracer; null for none) */
+  tracer?: Tracer | null;
 }
 
+/**
+ * Logs each request with its duration and opens a server span for it
+ * (`GET /courts/:id`), continuing the caller's trace when a valid
+ * traceparent was received
+ *
+ * The span is active while the handler runs, so repository spans and
+ * correlatedFetch() calls become its children. 5xx responses mark the
+ * span as failed.
+ */
 @Injectable()
 export class LoggingInterceptor implements NestInterceptor {
   private readonly logger = new Logger('HTTP');
-  private readonly options: Required<LoggingInterceptorOptions>;
+  private readonly options: Required<Omit<LoggingInterceptorOptions, 'redactor' | 'tracer'>>;
+  private readonly redactor: Redactor;
+  private readonly tracer?: Tracer | null;
 
   constructor(options: LoggingInterceptorOptions = {}) {
     this.options = {
@@ -29,24 +58,47 @@ export class LoggingInterceptor implements NestInterceptor {
       slowRequestThreshold: options.slowRequestThreshold ?? 3000,
       logBody: options.logBody ?? false,
     };
+    this.redactor = options.redactor ?? getDefaultRedactor();
+    this.tracer = options.tracer;
   }
 
   intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
-    if (!this.options.enabled) {
+    const tracer = this.tracer === null ? undefined : (this.tracer ?? getTracer());
+    const spanTracer = context.getType() === 'http' && tracer?.enabled ? tracer : undefined;
+    if (!this.options.enabled && !spanTracer) {
       return next.handle();
     }
 
-    const request = context.switchToHttp().getRequest<Request>();
-    const { method, url } = request;
-    const requestId = request.headers['x-request-id'] || 'N/A';
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request & { user?: RequestUser }>();
+    const span = spanTracer && this.startSpan(spanTracer, request);
+    const { method } = request;
+    const url = this.redactor.redactString(request.url);
+    const requestId = getRequestId() ?? request.headers['x-request-id'] ?? 'N/A';
     const startTime = Date.now();
 
-    return next.handle().pipe(
+    if (
+      this.options.enabled &&
+      this.options.logBody &&
+      request.body &&
+      Object.keys(request.body).length > 0
+    ) {
+      this.logger.debug(
+        `[${requestId}] ${method} ${url} body: ${JSON.stringify(this.redactor.redact(request.body))}`,
+      );
+    }
+
+    const handled = next.handle().pipe(
       tap({
         next: () => {
           const duration = Date.now() - startTime;
-          const response = context.switchToHttp().getResponse();
-          const statusCode = response.statusCode;
+          const statusCode = http.getResponse<Response>().statusCode;
+
+          if (span) {
+            span.setAttribute('http.status_code', statusCode);
+            if (statusCode >= HttpStatus.INTERNAL_SERVER_ERROR) span.setStatus('error');
+          }
+          if (!this.options.enabled) return;
 
           if (duration > this.options.slowRequestThreshold) {
             this.logger.warn(
@@ -60,6 +112,19 @@ export class LoggingInterceptor implements NestInterceptor {
         },
         error: (error) => {
           const duration = Date.now() - startTime;
+
+          if (span) {
+            const statusCode =
+              error instanceof HttpException
+                ? error.getStatus()
+                : HttpStatus.INTERNAL_SERVER_ERROR;
+            span.setAttribute('http.status_code', statusCode);
+            if (statusCode >= HttpStatus.INTERNAL_SERVER_ERROR) {
+              span.recordException(error);
+            }
+          }
+          if (!this.options.enabled) return;
+
           this.logger.error(
             `[${requestId}] ${method} ${url} ERROR - ${duration}ms`,
             error.stack,
@@ -67,6 +132,35 @@ export class LoggingInterceptor implements NestInterceptor {
         },
       }),
     );
+
+    if (!spanTracer || !span) {
+      return handled;
+    }
+    return new Observable((subscriber) =>
+      spanTracer.runInSpan(span, () =>
+        handled.pipe(finalize(() => span.end())).subscribe(subscriber),
+      ),
+    );
   }
-}
 
+  private startSpan(tracer: Tracer, request: Request & { user?: RequestUser }): Span {
+    const route = getRouteTemplate(request);
+    const span = tracer.startSpan(`${request.method} ${route}`, {
+      kind: 'server',
+      parent:
+        parseTraceparent(
+          readHeader(request.headers, CORRELATION_CONSTANTS.TRACEPARENT_HEADER),
+          readHeader(request.headers, CORRELATION_CONSTANTS.TRACESTATE_HEADER),
+        ) ?? null,
+      attributes: {
+        'http.method': request.method,
+        'http.route': route,
+        'url.path': request.path,
+        'request.id': getCorrelationContext()?.requestId,
+        'enduser.id': request.user?.id,
+      },
+    });
+    updateCorrelationContext({ traceId: span.traceId });
+    return span;
+  }
+}
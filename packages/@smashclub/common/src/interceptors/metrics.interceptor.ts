@@ -0,0 +1,61 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NestInterceptor,
+  Optional,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { getCommonMetrics } from '../utils/common-metrics.util';
+import { MetricsRegistry } from '../utils/metrics.util';
+import { getRouteTemplate } from '../utils/route.util';
+
+export interface MetricsInterceptorOptions {
+  /** Registry to record into (default: process-wide registry) */
+  registry?: MetricsRegistry;
+}
+
+/**
+ * Records http_request_duration_seconds by method, route template and status
+ */
+@Injectable()
+export class MetricsInterceptor implements NestInterceptor {
+  private readonly registry?: MetricsRegistry;
+
+  constructor(@Optional() options: MetricsInterceptorOptions = {}) {
+    this.registry = options.registry;
+  }
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const stopTimer = getCommonMetrics(this.registry).httpRequestDuration.startTimer({
+      method: request.method,
+      route: getRouteTemplate(request),
+    });
+
+    return next.handle().pipe(
+      tap({
+        next: () => {
+          const response = context.switchToHttp().getResponse<Response>();
+          stopTimer({ status: response.statusCode });
+        },
+        error: (error: unknown) => {
+          stopTimer({
+            status:
+              error instanceof HttpException
+                ? error.getStatus()
+                : HttpStatus.INTERNAL_SERVER_ERROR,
+          });
+        },
+      }),
+    );
+  }
+}
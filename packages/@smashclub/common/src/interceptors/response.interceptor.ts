@@ -3,6 +3,7 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  Optional,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
@@ -14,6 +15,11 @@ export interface ApiResponse<T> {
   timestamp: string;
 }
 
+export interface ResponseInterceptorOptions {
+  /** Message used for wrapped responses (default: 'Success') */
+  message?: string;
+}
+
 /**
  * Check if response is already wrapped in standard API format
  */
@@ -31,6 +37,12 @@ function isAlreadyWrapped(data: unknown): boolean {
 export class ResponseInterceptor<T>
   implements NestInterceptor<T, ApiResponse<T> | T>
 {
+  private readonly message: string;
+
+  constructor(@Optional() options: ResponseInterceptorOptions = {}) {
+    this.message = options.message ?? 'Success';
+  }
+
   intercept(
     context: ExecutionContext,
     next: CallHandler<T>,
@@ -44,7 +56,7 @@ export class ResponseInterceptor<T>
         const statusCode = response.statusCode || 200;
         return {
           statusCode,
-          message: 'Success',
+          message: this.message,
           data: data as T,
           timestamp: new Date().toISOString(),
         } as ApiResponse<T>;
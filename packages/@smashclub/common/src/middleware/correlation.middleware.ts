@@ -0,0 +1,77 @@
+import { Inject, Injectable, NestMiddleware, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response, NextFunction } from 'express';
+import { COMMON_ENV } from '../config/common-env.provider';
+import { COMMON_ENV_SCHEMA, CommonEnvConfig } from '../config/common-env.schema';
+import { pickConfigSchema, validateConfig } from '../config/config-schema.util';
+import { CORRELATION_CONSTANTS } from '../constants/correlation.constant';
+import {
+  createCorrelationContext,
+  generateRequestId,
+  runWithCorrelation,
+} from '../utils/correlation-context.util';
+
+export const CORRELATION_OPTIONS = 'CORRELATION_OPTIONS';
+
+export interface CorrelationOptions {
+  /** Service name carried in the context (default: SERVICE_NAME) */
+  service?: string;
+  /** Request id generator used when x-request-id is missing (default: UUID v4) */
+  generateId?: () => string;
+  /** Send x-request-id back on the response (default: true) */
+  echoHeader?: boolean;
+}
+
+/**
+ * Opens the correlation context of each request
+ *
+ * - Reuses the incoming x-request-id or generates one, and writes it back
+ *   to request.headers so code reading the header directly sees it too
+ * - Echoes x-request-id on the response
+ * - Runs the rest of the pipeline inside the context, so LoggingService,
+ *   RepositoryLogger and correlatedFetch() pick it up without plumbing
+ *
+ * Applied to every route by SmashClubCommonModule.forRoot({ correlation: {} }).
+ * It must run before GatewayAuthMiddleware for userId to be recorded.
+ */
+@Injectable()
+export class CorrelationMiddleware implements NestMiddleware {
+  private readonly options: Required<Omit<CorrelationOptions, 'service'>> & {
+    service: string;
+  };
+
+  constructor(
+    @Optional()
+    @Inject(CORRELATION_OPTIONS)
+    options: CorrelationOptions = {},
+    @Optional() configService?: ConfigService,
+    @Optional() @Inject(COMMON_ENV) commonEnv?: CommonEnvConfig,
+  ) {
+    const env =
+      commonEnv ??
+      validateConfig(
+        pickConfigSchema(COMMON_ENV_SCHEMA, ['SERVICE_NAME']),
+        (key) => configService?.get(key) ?? process.env[key],
+      );
+
+    this.options = {
+      service: options.service ?? env.SERVICE_NAME,
+      generateId: options.generateId ?? generateRequestId,
+      echoHeader: options.echoHeader ?? true,
+    };
+  }
+
+  use(req: Request, res: Response, next: NextFunction): void {
+    const context = createCorrelationContext(req.headers, {
+      service: this.options.service,
+      generateId: this.options.generateId,
+    });
+
+    req.headers[CORRELATION_CONSTANTS.X_REQUEST_ID_HEADER] = context.requestId;
+    if (this.options.echoHeader) {
+      res.setHeader(CORRELATION_CONSTANTS.X_REQUEST_ID_HEADER, context.requestId);
+    }
+
+    runWithCorrelation(context, () => next());
+  }
+}
@@ -0,0 +1,25 @@
+import { RegistryBackend, RegistryBackendKind } from '../types/registry.type';
+import { FileRegistryBackend } from './file.registry-backend';
+import { GatewayHttpRegistryBackend } from './gateway-http.registry-backend';
+import { InMemoryRegistryBackend } from './in-memory.registry-backend';
+
+export interface CreateRegistryBackendOptions {
+  /** For 'gateway' */
+  gatewayUrl: string;
+  /** For 'file' */
+  filePath?: string;
+}
+
+export function createRegistryBackend(
+  kind: RegistryBackendKind,
+  options: CreateRegistryBackendOptions,
+): RegistryBackend {
+  switch (kind) {
+    case 'file':
+      return new FileRegistryBackend({ path: options.filePath });
+    case 'memory':
+      return new InMemoryRegistryBackend();
+    default:
+      return new GatewayHttpRegistryBackend({ gatewayUrl: options.gatewayUrl });
+  }
+}
@@ -0,0 +1,110 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import {
+  HeartbeatOutcome,
+  InstanceHeartbeat,
+  InstanceRef,
+  InstanceRegistration,
+  RegistryBackend,
+} from '../types/registry.type';
+
+export interface FileRegistryBackendOptions {
+  /** JSON file shared by local services (default: <tmpdir>/smashclub-registry.json) */
+  path?: string;
+}
+
+interface FileRegistryEntry extends InstanceRegistration {
+  registeredAt: string;
+  lastHeartbeatAt?: string;
+  status?: InstanceHeartbeat;
+}
+
+interface FileRegistryContent {
+  instances: Record<string, FileRegistryEntry>;
+}
+
+/**
+ * Registers instances in a JSON file - for local development without a
+ * gateway; other tools can read the file to see what is running
+ *
+ * Writes within a process are serialized and atomic (temp file + rename);
+ * services started at the same instant may overwrite each other's entry,
+ * which the next heartbeat repairs ('lost', then re-registration).
+ */
+export class FileRegistryBackend implements RegistryBackend {
+  readonly name = 'file';
+  readonly path: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: FileRegistryBackendOptions = {}) {
+    this.path = path.resolve(options.path ?? path.join(tmpdir(), 'smashclub-registry.json'));
+  }
+
+  register(registration: InstanceRegistration): Promise<void> {
+    return this.update((content) => {
+      content.instances[registration.instanceId] = {
+        ...registration,
+        registeredAt: new Date().toISOString(),
+      };
+    });
+  }
+
+  async heartbeat(instance: InstanceRef, status: InstanceHeartbeat | undefined): Promise<HeartbeatOutcome> {
+    let outcome: HeartbeatOutcome = 'ok';
+    await this.update((content) => {
+      const entry = content.instances[instance.instanceId];
+      if (!entry) {
+        outcome = 'lost';
+        return false;
+      }
+      entry.lastHeartbeatAt = new Date().toISOString();
+      entry.status = status;
+    });
+    return outcome;
+  }
+
+  async verify(instance: InstanceRef): Promise<boolean> {
+    const content = await this.read();
+    return instance.instanceId in content.instances;
+  }
+
+  deregister(instance: InstanceRef): Promise<void> {
+    return this.update((content) => {
+      delete content.instances[instance.instanceId];
+    });
+  }
+
+  /** Registrations of one service */
+  async list(service: string): Promise<InstanceRegistration[]> {
+    const content = await this.read();
+    return Object.values(content.instances).filter((i) => i.service === service);
+  }
+
+  private async read(): Promise<FileRegistryContent> {
+    try {
+      const content = JSON.parse(await readFile(this.path, 'utf8')) as FileRegistryContent;
+      return { instances: content.instances ?? {} };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { instances: {} };
+      throw error;
+    }
+  }
+
+  /**
+   * Read-modify-write, one at a time; `mutate` returns false to skip the write
+   */
+  private update(mutate: (content: FileRegistryContent) => boolean | void): Promise<void> {
+    const run = this.queue.then(async () => {
+      const content = await this.read();
+      if (mutate(content) === false) return;
+
+      await mkdir(path.dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(content, null, 2));
+      await rename(tmp, this.path);
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
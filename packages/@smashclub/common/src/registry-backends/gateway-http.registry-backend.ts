@@ -0,0 +1,94 @@
+import {
+  HeartbeatOutcome,
+  InstanceHeartbeat,
+  InstanceRef,
+  InstanceRegistration,
+  RegistryBackend,
+} from '../types/registry.type';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+export interface GatewayHttpRegistryBackendOptions {
+  /** Gateway base URL */
+  gatewayUrl: string;
+}
+
+/**
+ * The gateway's /registry HTTP protocol:
+ * POST /registry/register, POST /registry/heartbeat/:service/:instanceId,
+ * GET /registry?service=, DELETE /registry/:service/:instanceId
+ */
+export class GatewayHttpRegistryBackend implements RegistryBackend {
+  readonly name = 'gateway';
+  private readonly gatewayUrl: string;
+
+  constructor(options: GatewayHttpRegistryBackendOptions) {
+    this.gatewayUrl = options.gatewayUrl.replace(/\/+$/, '');
+  }
+
+  async register(registration: InstanceRegistration, signal: AbortSignal): Promise<void> {
+    const response = await fetch(`${this.gatewayUrl}/registry/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(registration),
+      signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Registration failed: ${response.status} ${text}`);
+    }
+  }
+
+  async heartbeat(
+    instance: InstanceRef,
+    status: InstanceHeartbeat | undefined,
+    signal: AbortSignal,
+  ): Promise<HeartbeatOutcome> {
+    const response = await fetch(
+      `${this.gatewayUrl}/registry/heartbeat/${instance.service}/${instance.instanceId}`,
+      status
+        ? {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(status),
+            signal,
+          }
+        : { method: 'POST', signal },
+    );
+
+    // Gateway doesn't know about us - it probably restarted
+    if (response.status === 404) return 'lost';
+    if (!response.ok) {
+      throw new Error(`Status ${response.status}`);
+    }
+    return 'ok';
+  }
+
+  async verify(instance: InstanceRef, signal: AbortSignal): Promise<boolean> {
+    const response = await fetch(`${this.gatewayUrl}/registry?service=${instance.service}`, {
+      method: 'GET',
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Status ${response.status}`);
+    }
+
+    const data: unknown = await response.json();
+    const rawInstances: unknown[] = Array.isArray(data)
+      ? data
+      : isRecord(data) && Array.isArray(data.instances)
+        ? data.instances
+        : [];
+    return rawInstances.some((inst) => isRecord(inst) && inst.instanceId === instance.instanceId);
+  }
+
+  async deregister(instance: InstanceRef, signal: AbortSignal): Promise<void> {
+    await fetch(`${this.gatewayUrl}/registry/${instance.service}/${instance.instanceId}`, {
+      method: 'DELETE',
+      signal,
+    });
+  }
+}
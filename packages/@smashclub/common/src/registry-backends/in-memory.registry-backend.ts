@@ -0,0 +1,69 @@
+import {
+  HeartbeatOutcome,
+  InstanceHeartbeat,
+  InstanceRef,
+  InstanceRegistration,
+  RegistryBackend,
+} from '../types/registry.type';
+
+/**
+ * Keeps registrations in memory - for tests
+ * `available = false` simulates an unreachable registry and forget()
+ * a registry restart.
+ *
+ * @example
+ * ```ts
+ * const backend = new InMemoryRegistryBackend();
+ * SmashClubCommonModule.forRoot({ registry: { backend } });
+ * // ...
+ * backend.forget(instanceId); // next heartbeat reports 'lost', then re-registers
+ * ```
+ */
+export class InMemoryRegistryBackend implements RegistryBackend {
+  readonly name = 'memory';
+  /** Registrations by instance ID */
+  readonly instances = new Map<string, InstanceRegistration>();
+  /** Last heartbeat status by instance ID */
+  readonly heartbeats = new Map<string, InstanceHeartbeat | undefined>();
+  available = true;
+
+  async register(registration: InstanceRegistration): Promise<void> {
+    this.ensureAvailable();
+    this.instances.set(registration.instanceId, registration);
+  }
+
+  async heartbeat(instance: InstanceRef, status: InstanceHeartbeat | undefined): Promise<HeartbeatOutcome> {
+    this.ensureAvailable();
+    if (!this.instances.has(instance.instanceId)) return 'lost';
+
+    this.heartbeats.set(instance.instanceId, status);
+    return 'ok';
+  }
+
+  async verify(instance: InstanceRef): Promise<boolean> {
+    this.ensureAvailable();
+    return this.instances.has(instance.instanceId);
+  }
+
+  async deregister(instance: InstanceRef): Promise<void> {
+    this.ensureAvailable();
+    this.forget(instance.instanceId);
+  }
+
+  /** Drop an instance without it deregistering */
+  forget(instanceId: string): void {
+    this.instances.delete(instanceId);
+    this.heartbeats.delete(instanceId);
+  }
+
+  /** Registrations of one service */
+  list(service: string): InstanceRegistration[] {
+    return Array.from(this.instances.values()).filter((i) => i.service === service);
+  }
+
+  private ensureAvailable(): void {
+    if (!this.available) {
+      throw new Error('Registry unavailable');
+    }
+  }
+}
@@ -0,0 +1,4 @@
+export * from './gateway-http.registry-backend';
+export * from './file.registry-backend';
+export * from './in-memory.registry-backend';
+export * from './create-registry-backend';
@@ -1,15 +1,76 @@
-import { PaginatedResult, PaginationParams, DEFAULT_PAGINATION } from '../types/pagination.type';
+import {
+  CursorPaginatedResult,
+  CursorPaginationParams,
+  CursorPayload,
+  PaginatedResult,
+  PaginationParams,
+  DEFAULT_PAGINATION,
+  SortField,
+} from '../types/pagination.type';
+import { decodeCursor, encodeCursor } from '../utils/cursor.util';
+import { getSortValues, normalizeSort, sortSignature } from '../utils/keyset.util';
 
 /**
  * Base repository interface for common CRUD operations
  */
 export interface IBaseRepository<T, ID = string> {
-  findById(id: ID): Promise<T | null>;
-  findAll(): Promise<T[]>;
-  findMany(params: PaginationParams): Promise<PaginatedResult<T>>;
+  findById(id: ID, options?: FindOptions): Promise<T | null>;
+  findAll(options?: FindOptions): Promise<T[]>;
+  findMany(params: PaginationParams, options?: FindOptions): Promise<PaginatedResult<T>>;
+  /** Keyset page - stable while rows are inserted, no count query */
+  findPage(params: CursorPaginationParams, options?: FindOptions): Promise<CursorPaginatedResult<T>>;
   save(entity: T): Promise<T>;
   delete(id: ID): Promise<void>;
-  exists(id: ID): Promise<boolean>;
+  exists(id: ID, options?: FindOptions): Promise<boolean>;
+}
+
+/**
+ * Read options of repositories over soft-deletable entities
+ */
+export interface FindOptions {
+  /** Include soft-deleted rows (default: false) */
+  withDeleted?: boolean;
+}
+
+/**
+ * Repository whose reads, paged ones included, hide soft-deleted rows
+ * unless FindOptions.withDeleted is set (e.g. by passing softDeletable to
+ * the query translators)
+ */
+export interface ISoftDeleteScoped {
+  readonly softDeletable: boolean;
+}
+
+/**
+ * Repository over soft-deletable entities: delete() only flags rows
+ */
+export interface ISoftDeleteRepository<T, ID = string> extends IBaseRepository<T, ID> {
+  /** Undo a soft delete; null if the entity doesn't exist */
+  restore(id: ID): Promise<T | null>;
+  /** Remove the row for good */
+  hardDelete(id: ID): Promise<void>;
+  /** View of the same rows that includes soft-deleted ones */
+  withDeleted(): IBaseRepository<T, ID>;
+}
+
+/**
+ * Repository able to write an entity only if the stored version still
+ * matches, in one statement - makes optimistic locking safe across instances
+ *
+ * @example
+ * ```ts
+ * async saveIfVersion(booking: Booking, expectedVersion: number) {
+ *   const { count } = await this.prisma.booking.updateMany({
+ *     where: { id: booking.id, version: expectedVersion },
+ *     data: booking,
+ *   });
+ *   return count === 1 ? booking : null;
+ * }
+ * ```
+ */
+export interface IConditionalSave<T> {
+  /** Saved entity, or null if the stored version differs (or the row is gone) */
+  saveIfVersion(entity: T, expectedVersion: number): Promise<T | null>;
 }
 
 /**
@@ -26,7 +87,8 @@ export interface IBaseEntity {
  */
 export interface ISoftDeletable {
   isDeleted: boolean;
-  deletedAt?: Date;
+  /** null once restored (undefined means "unchanged" to Prisma) */
+  deletedAt?: Date | null;
 }
 
 /**
@@ -46,6 +108,14 @@ export interface IAuditable {
   updatedAt: Date;
 }
 
+/**
+ * Versioned entity interface, for optimistic locking
+ * The version is 1 on insert and incremented by every save.
+ */
+export interface IVersioned {
+  version: number;
+}
+
 /**
  * Calculate pagination values
  */
@@ -83,3 +153,82 @@ export function createPaginatedResult<T>(
   };
 }
 
+
+/**
+ * Resolved cursor pagination of a request
+ */
+export interface CursorPagination {
+  /** Sort with the id tie-breaker */
+  sort: SortField[];
+  /** Decoded cursor (undefined on the first page) */
+  cursor?: CursorPayload;
+  /** Which way to read from the cursor */
+  direction: 'after' | 'before';
+  /** Rows to fetch: one more than limit, to detect further pages */
+  take: number;
+  limit: number;
+}
+
+/**
+ * Calculate cursor pagination values
+ * @throws InvalidCursorError if the cursor is malformed, tampered with or
+ *   was issued for another sort
+ *
+ * @example
+ * ```ts
+ * async findPage(params: CursorPaginationParams) {
+ *   const page = calculateCursorPagination(params);
+ *   const rows = await this.prisma.booking.findMany({
+ *     where: page.cursor ? keysetWhere(page.sort, page.cursor.values, page.direction) : {},
+ *     orderBy: keysetOrderBy(page.sort, page.direction),
+ *     take: page.take,
+ *   });
+ *   return createCursorPaginatedResult(rows, page);
+ * }
+ * ```
+ */
+export function calculateCursorPagination(params: CursorPaginationParams): CursorPagination {
+  const sort = normalizeSort(params.sort);
+  const limit = Math.min(
+    Math.max(1, params.limit || DEFAULT_PAGINATION.LIMIT),
+    DEFAULT_PAGINATION.MAX_LIMIT,
+  );
+  const cursor = params.cursor ? decodeCursor(params.cursor, sortSignature(sort)) : undefined;
+
+  return {
+    sort,
+    cursor,
+    direction: cursor?.direction ?? 'after',
+    take: limit + 1,
+    limit,
+  };
+}
+
+/**
+ * Create cursor paginated result from rows fetched with `pagination.take`
+ * (in keysetOrderBy order)
+ */
+export function createCursorPaginatedResult<T extends object>(
+  rows: T[],
+  pagination: CursorPagination,
+): CursorPaginatedResult<T> {
+  const { sort, limit, direction } = pagination;
+  const hasExtra = rows.length > limit;
+  const data = rows.slice(0, limit);
+  if (direction === 'before') data.reverse();
+
+  // Reading backwards means we came from the page after this one
+  const hasMore = direction === 'before' || hasExtra;
+  const hasPrevious = direction === 'before' ? hasExtra : !!pagination.cursor;
+  const signature = sortSignature(sort);
+  const cursorAt = (row: T, at: 'after' | 'before') =>
+    encodeCursor({ direction: at, sort: signature, values: getSortValues(row, sort) });
+
+  return {
+    data,
+    nextCursor: hasMore && data.length > 0 ? cursorAt(data[data.length - 1], 'after') : null,
+    prevCursor: hasPrevious && data.length > 0 ? cursorAt(data[0], 'before') : null,
+    hasMore,
+    limit,
+  };
+}
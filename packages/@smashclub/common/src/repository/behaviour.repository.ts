@@ -0,0 +1,217 @@
+import {
+  CursorPaginatedResult,
+  CursorPaginationParams,
+  PaginatedResult,
+  PaginationParams,
+} from '../types/pagination.type';
+import {
+  FindOptions,
+  IBaseEntity,
+  IBaseRepository,
+  IConditionalSave,
+  ISoftDeleteRepository,
+  ISoftDeleteScoped,
+  IVersioned,
+} from './base.repository';
+import { ConcurrencyConflictError, RepositoryBehaviour } from './repository-behaviours';
+
+/** Pending saves per repository and entity ID, shared by withDeleted() views */
+const saveQueues = new WeakMap<object, Map<string, Promise<unknown>>>();
+
+function supportsConditionalSave<T>(repository: object): repository is IConditionalSave<T> {
+  return typeof (repository as Partial<IConditionalSave<T>>).saveIfVersion === 'function';
+}
+
+function isVersioned(entity: object): entity is IVersioned {
+  return typeof (entity as Partial<IVersioned>).version === 'number';
+}
+
+/**
+ * Repository running RepositoryBehaviours around another one
+ *
+ * The wrapped repository stores rows as given (its delete() removes them).
+ * With softDelete(), it must also be ISoftDeleteScoped: findMany / findPage
+ * are paged by the store, so only it can leave soft-deleted rows out of the
+ * page and the total - e.g. new InMemoryRepository({ softDelete: true }), or
+ * a Prisma repository passing softDeletable to toPrismaFindMany().
+ *
+ * Saves of the same entity are serialized in this process; across
+ * instances, optimistic locking relies on the wrapped repository
+ * implementing IConditionalSave.
+ */
+export class BehaviourRepository<T extends IBaseEntity> implements ISoftDeleteRepository<T> {
+  /**
+   * @throws Error if a behaviour hides rows and the wrapped repository
+   * isn't softDeletable
+   */
+  constructor(
+    private readonly inner: IBaseRepository<T>,
+    private readonly behaviours: RepositoryBehaviour<T>[],
+    private readonly scope: FindOptions = {},
+  ) {
+    const hides = behaviours.filter((behaviour) => behaviour.isVisible).map((b) => b.name);
+    if (hides.length > 0 && !(inner as Partial<ISoftDeleteScoped>).softDeletable) {
+      throw new Error(
+        `${hides.join(', ')} needs a repository whose paged reads hide soft-deleted rows ` +
+          `(ISoftDeleteScoped with softDeletable: true), ${inner.constructor.name} isn't`,
+      );
+    }
+  }
+
+  async findById(id: string, options?: FindOptions): Promise<T | null> {
+    const entity = await this.inner.findById(id, { withDeleted: true });
+    return entity && this.isVisible(entity, options) ? entity : null;
+  }
+
+  async findAll(options?: FindOptions): Promise<T[]> {
+    const entities = await this.inner.findAll(this.findOptions(options));
+    return entities.filter((entity) => this.isVisible(entity, options));
+  }
+
+  findMany(params: PaginationParams, options?: FindOptions): Promise<PaginatedResult<T>> {
+    return this.inner.findMany(params, this.findOptions(options));
+  }
+
+  findPage(params: CursorPaginationParams, options?: FindOptions): Promise<CursorPaginatedResult<T>> {
+    return this.inner.findPage(params, this.findOptions(options));
+  }
+
+  async exists(id: string, options?: FindOptions): Promise<boolean> {
+    return (await this.findById(id, options)) !== null;
+  }
+
+  /**
+   * @throws ConcurrencyConflictError if optimistic locking rejects the entity
+   */
+  save(entity: T): Promise<T> {
+    if (!entity.id) return this.write(entity, null);
+
+    return this.serialize(entity.id, async () => {
+      const existing = await this.inner.findById(entity.id, { withDeleted: true });
+      return this.write(entity, existing);
+    });
+  }
+
+  /**
+   * Soft delete when a behaviour handles it, remove the row otherwise;
+   * unknown or already deleted IDs are ignored
+   */
+  delete(id: string): Promise<void> {
+    return this.serialize(id, async () => {
+      const existing = await this.inner.findById(id, { withDeleted: true });
+      if (!existing || this.isDeleted(existing)) return;
+
+      const replacement = this.firstResult((b) => b.onDelete?.(existing));
+      if (replacement) {
+        await this.write(replacement, existing);
+      } else {
+        await this.inner.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Undo a soft delete; null if the entity doesn't exist
+   * @throws Error if no behaviour handles restore (e.g. softDelete() is missing)
+   */
+  async restore(id: string): Promise<T | null> {
+    if (!this.behaviours.some((behaviour) => behaviour.onRestore)) {
+      throw new Error('restore() needs a behaviour that soft deletes, e.g. softDelete()');
+    }
+
+    return this.serialize(id, async () => {
+      const existing = await this.inner.findById(id, { withDeleted: true });
+      if (!existing) return null;
+
+      const restored = this.firstResult((b) => b.onRestore?.(existing));
+      return restored ? this.write(restored, existing) : existing;
+    });
+  }
+
+  async hardDelete(id: string): Promise<void> {
+    const inner = this.inner as Partial<ISoftDeleteRepository<T>>;
+    await (inner.hardDelete ? inner.hardDelete(id) : this.inner.delete(id));
+  }
+
+  withDeleted(): IBaseRepository<T> {
+    return new BehaviourRepository(this.inner, this.behaviours, { withDeleted: true });
+  }
+
+  private async write(entity: T, existing: T | null): Promise<T> {
+    const next = this.behaviours.reduce(
+      (current, behaviour) => behaviour.beforeSave?.(current, existing) ?? current,
+      entity,
+    );
+    if (!existing || !isVersioned(existing) || !supportsConditionalSave<T>(this.inner)) {
+      return this.inner.save(next);
+    }
+
+    const saved = await this.inner.saveIfVersion(next, existing.version);
+    if (!saved) {
+      const conflict = this.behaviours.find((behaviour) => behaviour.onConflict);
+      throw (
+        conflict?.onConflict?.(next, existing.version) ??
+        new ConcurrencyConflictError('Entity', next.id, existing.version, undefined)
+      );
+    }
+    return saved;
+  }
+
+  private firstResult(hook: (behaviour: RepositoryBehaviour<T>) => T | undefined): T | undefined {
+    for (const behaviour of this.behaviours) {
+      const result = hook(behaviour);
+      if (result) return result;
+    }
+    return undefined;
+  }
+
+  private isVisible(entity: T, options?: FindOptions): boolean {
+    return !!this.findOptions(options).withDeleted || !this.isDeleted(entity);
+  }
+
+  private isDeleted(entity: T): boolean {
+    return this.behaviours.some((behaviour) => behaviour.isVisible?.(entity) === false);
+  }
+
+  private findOptions(options?: FindOptions): FindOptions {
+    return { ...this.scope, ...options };
+  }
+
+  private async serialize<R>(id: string, fn: () => Promise<R>): Promise<R> {
+    let queues = saveQueues.get(this.inner);
+    if (!queues) {
+      queues = new Map();
+      saveQueues.set(this.inner, queues);
+    }
+
+    const previous = queues.get(id) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(fn);
+    queues.set(id, current);
+    try {
+      return await current;
+    } finally {
+      if (queues.get(id) === current) queues.delete(id);
+    }
+  }
+}
+
+/**
+ * Add behaviours to any repository
+ *
+ * @example
+ * ```ts
+ * const bookings = withBehaviours(
+ *   new PrismaBookingRepository(prisma),
+ *   softDelete(),
+ *   auditStamping(),
+ *   optimisticLocking('Booking'),
+ * );
+ * await bookings.save({ ...booking, status: 'CONFIRMED' }); // 409 if booking.version is stale
+ * ```
+ */
+export function withBehaviours<T extends IBaseEntity>(
+  repository: IBaseRepository<T>,
+  ...behaviours: RepositoryBehaviour<T>[]
+): BehaviourRepository<T> {
+  return new BehaviourRepository(repository, behaviours);
+}
@@ -0,0 +1,132 @@
+import { SortField } from '../types/pagination.type';
+import { FilterCondition, QuerySpec } from '../types/query-spec.type';
+import { getFieldValue, KeysetComparison, keysetConditions } from '../utils/keyset.util';
+import { calculateCursorPagination } from './base.repository';
+import { QueryTranslationOptions, scopedFilters } from './query-scope.util';
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Order of two values as a database would sort them ascending
+ * (null / undefined last)
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const x = comparable(a);
+  const y = comparable(b);
+  if (x == null || y == null) return x == null ? (y == null ? 0 : 1) : -1;
+  if (x === y) return 0;
+  return (x as number) < (y as number) ? -1 : 1;
+}
+
+/**
+ * Whether an item matches a filter, with SQL semantics: comparisons with
+ * a null value are false (except isNull)
+ */
+export function matchesFilter(
+  item: object,
+  filter: FilterCondition | KeysetComparison,
+  caseInsensitive = false,
+): boolean {
+  const actual = getFieldValue(item, filter.field);
+  if (filter.op === 'isNull') return (actual == null) === filter.value;
+  if (actual == null) return false;
+
+  const text = (value: unknown) => (caseInsensitive ? String(value).toLowerCase() : String(value));
+  const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+  const order = compareValues(actual, filter.value);
+  switch (filter.op) {
+    case 'eq':
+      return order === 0;
+    case 'ne':
+      return order !== 0;
+    case 'gt':
+      return order > 0;
+    case 'gte':
+      return order >= 0;
+    case 'lt':
+      return order < 0;
+    case 'lte':
+      return order <= 0;
+    case 'in':
+      return values.some((v) => compareValues(actual, v) === 0);
+    case 'nin':
+      return values.every((v) => compareValues(actual, v) !== 0);
+    case 'contains':
+      return text(actual).includes(text(filter.value));
+    case 'startsWith':
+      return text(actual).startsWith(text(filter.value));
+  }
+}
+
+function sortItems<T extends object>(items: T[], sort: SortField[]): T[] {
+  return items.sort((a, b) => {
+    for (const s of sort) {
+      const order = compareValues(getFieldValue(a, s.field), getFieldValue(b, s.field));
+      if (order !== 0) return s.direction === 'asc' ? order : -order;
+    }
+    return 0;
+  });
+}
+
+function filterItems<T extends object>(
+  items: readonly T[],
+  spec: QuerySpec,
+  options: QueryTranslationOptions,
+): T[] {
+  const filters = scopedFilters(spec, options);
+  return items.filter((item) =>
+    filters.every((filter) => matchesFilter(item, filter, options.caseInsensitive)),
+  );
+}
+
+/**
+ * Run a spec against an array, returning what the translated database
+ * query would (page rows; limit + 1 keyset rows in cursor mode) - for
+ * testing repository logic without a database
+ * @throws InvalidCursorError if the cursor is invalid for the spec's sort
+ *
+ * @example
+ * ```ts
+ * const rows = evaluateQuerySpec(fixtures, spec, { softDeletable: true });
+ * const page = createCursorPaginatedResult(rows, cursorPaginationOf(spec)!);
+ * ```
+ */
+export function evaluateQuerySpec<T extends object>(
+  items: readonly T[],
+  spec: QuerySpec,
+  options: QueryTranslationOptions = {},
+): T[] {
+  const matching = filterItems(items, spec, options);
+
+  if (spec.pagination.mode === 'offset') {
+    const { skip, take } = spec.pagination;
+    return sortItems(matching, spec.sort).slice(skip, skip + take);
+  }
+
+  const cursor = calculateCursorPagination({ ...spec.pagination, sort: spec.sort });
+  const after = cursor.cursor
+    ? matching.filter((item) =>
+        keysetConditions(cursor.sort, cursor.cursor!.values, cursor.direction).some((branch) =>
+          branch.every((c) => matchesFilter(item, c)),
+        ),
+      )
+    : matching;
+  const order = cursor.sort.map((s) =>
+    cursor.direction === 'after' ? s : { ...s, direction: s.direction === 'asc' ? 'desc' : 'asc' } as SortField,
+  );
+  return sortItems(after, order).slice(0, cursor.take);
+}
+
+/**
+ * Rows matching a spec's filters and scope, ignoring pagination (the
+ * `total` of an offset page)
+ */
+export function countQuerySpec<T extends object>(
+  items: readonly T[],
+  spec: QuerySpec,
+  options: QueryTranslationOptions = {},
+): number {
+  return filterItems(items, spec, options).length;
+}
@@ -0,0 +1,255 @@
+import { randomUUID } from 'crypto';
+import {
+  CursorPaginatedResult,
+  CursorPaginationParams,
+  DEFAULT_PAGINATION,
+  PaginatedResult,
+  PaginationParams,
+} from '../types/pagination.type';
+import { QuerySpec } from '../types/query-spec.type';
+import { getCorrelationContext } from '../utils/correlation-context.util';
+import {
+  calculatePagination,
+  createCursorPaginatedResult,
+  createPaginatedResult,
+  FindOptions,
+  IBaseEntity,
+  IBaseRepository,
+  IConditionalSave,
+  ISoftDeletable,
+  ISoftDeleteScoped,
+  IVersioned,
+} from './base.repository';
+import { countQuerySpec, evaluateQuerySpec } from './in-memory-query.evaluator';
+import { cursorPaginationOf, QueryTranslationOptions } from './query-scope.util';
+import { applyAuditStamps, ConcurrencyConflictError } from './repository-behaviours';
+
+export interface InMemoryRepositoryOptions {
+  /** Entities are ISoftDeletable: delete() flags them and finders skip them (default: false) */
+  softDelete?: boolean;
+  /** Stamp IAuditable fields on save (default: true) */
+  audit?: boolean;
+  /**
+   * Entities are IVersioned: save() rejects stale versions with
+   * ConcurrencyConflictError and increments the version, like the
+   * optimisticLocking() behaviour (default: false; don't combine the two)
+   */
+  optimisticLocking?: boolean;
+  /** ID of entities saved without one (default: random UUID) */
+  generateId?: () => string;
+  /** User ID for createdBy / updatedBy (default: user of the current request) */
+  currentUserId?: () => string | undefined;
+  /** Clock for timestamps, e.g. a fixed date in tests (default: now) */
+  now?: () => Date;
+}
+
+/** Optional behaviour fields an entity may carry */
+type Row = IBaseEntity & Partial<ISoftDeletable & IVersioned> & { updatedAt?: Date; updatedBy?: string };
+
+/**
+ * IBaseRepository over a Map - for unit tests and prototypes
+ *
+ * Entities are copied in and out, so callers can't mutate stored state.
+ * Queries behave like the Prisma / TypeORM translators (same QuerySpec
+ * semantics, soft-deleted rows hidden).
+ *
+ * @example
+ * ```ts
+ * const bookings = new InMemoryRepository<Booking>({ softDelete: true }).seed(bookingFixtures);
+ * const clean = bookings.snapshot();
+ *
+ * afterEach(() => bookings.restoreSnapshot(clean));
+ * ```
+ */
+export class InMemoryRepository<T extends IBaseEntity>
+  implements IBaseRepository<T, string>, IConditionalSave<T>, ISoftDeleteScoped
+{
+  protected readonly items = new Map<string, T>();
+  private readonly softDelete: boolean;
+  private readonly audit: boolean;
+  private readonly optimisticLocking: boolean;
+  private readonly generateId: () => string;
+  private readonly currentUserId: () => string | undefined;
+  private readonly now: () => Date;
+
+  constructor(options: InMemoryRepositoryOptions = {}) {
+    this.softDelete = options.softDelete ?? false;
+    this.audit = options.audit ?? true;
+    this.optimisticLocking = options.optimisticLocking ?? false;
+    this.generateId = options.generateId ?? randomUUID;
+    this.currentUserId = options.currentUserId ?? (() => getCorrelationContext()?.userId);
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /** Whether reads hide soft-deleted entities (the softDelete option) */
+  get softDeletable(): boolean {
+    return this.softDelete;
+  }
+
+  async findById(id: string, options?: FindOptions): Promise<T | null> {
+    const item = this.items.get(id);
+    return item && this.isVisible(item, options) ? structuredClone(item) : null;
+  }
+
+  async findAll(options?: FindOptions): Promise<T[]> {
+    return this.rows()
+      .filter((item) => this.isVisible(item, options))
+      .map((item) => structuredClone(item));
+  }
+
+  /**
+   * Offset page; sortBy is any entity field (insertion order when omitted)
+   */
+  async findMany(params: PaginationParams, options?: FindOptions): Promise<PaginatedResult<T>> {
+    const { skip, take, page, limit } = calculatePagination(params);
+    const spec: QuerySpec = {
+      filters: [],
+      withDeleted: options?.withDeleted,
+      sort: params.sortBy ? [{ field: params.sortBy, direction: params.sortOrder ?? 'desc' }] : [],
+      pagination: { mode: 'offset', page, limit, skip, take },
+    };
+    return createPaginatedResult(this.query(spec), this.count(spec), page, limit);
+  }
+
+  async findPage(
+    params: CursorPaginationParams,
+    options?: FindOptions,
+  ): Promise<CursorPaginatedResult<T>> {
+    const spec: QuerySpec = {
+      filters: [],
+      withDeleted: options?.withDeleted,
+      sort: params.sort ?? [],
+      pagination: {
+        mode: 'cursor',
+        cursor: params.cursor,
+        limit: params.limit ?? DEFAULT_PAGINATION.LIMIT,
+      },
+    };
+    return createCursorPaginatedResult(this.query(spec), cursorPaginationOf(spec)!);
+  }
+
+  /**
+   * Insert or replace; stamps createdAt / updatedAt and, when a user is
+   * known, createdBy / updatedBy (kept from the stored entity on update)
+   * @throws ConcurrencyConflictError with optimisticLocking, if the entity's
+   *   version isn't the stored one
+   */
+  async save(entity: T): Promise<T> {
+    if (!this.optimisticLocking) return this.write(entity);
+
+    const next = entity as T & Row;
+    const existing = next.id ? (this.items.get(next.id) as Row | undefined) : undefined;
+    if (existing && next.version !== existing.version) {
+      throw new ConcurrencyConflictError('Entity', next.id, next.version, existing.version);
+    }
+    return this.write({ ...next, version: (existing?.version ?? 0) + 1 });
+  }
+
+  /**
+   * Soft delete (isDeleted + deletedAt) when softDelete is on, remove
+   * otherwise; unknown IDs are ignored
+   */
+  async delete(id: string): Promise<void> {
+    const item = this.items.get(id) as Row | undefined;
+    if (!item) return;
+
+    if (!this.softDelete) {
+      this.items.delete(id);
+      return;
+    }
+    item.isDeleted = true;
+    item.deletedAt = this.now();
+    if (this.audit) {
+      item.updatedAt = item.deletedAt;
+      const userId = this.currentUserId();
+      if (userId) item.updatedBy = userId;
+    }
+  }
+
+  async exists(id: string, options?: FindOptions): Promise<boolean> {
+    const item = this.items.get(id);
+    return !!item && this.isVisible(item, options);
+  }
+
+  /** Remove an entity even when softDelete is on */
+  async hardDelete(id: string): Promise<void> {
+    this.items.delete(id);
+  }
+
+  async saveIfVersion(entity: T, expectedVersion: number): Promise<T | null> {
+    const stored = this.items.get(entity.id) as Row | undefined;
+    if (stored?.version !== expectedVersion) return null;
+    return this.write(entity);
+  }
+
+  /**
+   * Rows of a QuerySpec page (limit + 1 keyset rows in cursor mode)
+   * @throws InvalidCursorError if the cursor is invalid for the spec's sort
+   */
+  query(spec: QuerySpec): T[] {
+    return evaluateQuerySpec(this.rows(), spec, this.translationOptions()).map((item) =>
+      structuredClone(item),
+    );
+  }
+
+  /** Rows matching a QuerySpec's filters, ignoring pagination */
+  count(spec: QuerySpec): number {
+    return countQuerySpec(this.rows(), spec, this.translationOptions());
+  }
+
+  /**
+   * Store fixtures as-is (no audit stamping); IDs are generated for
+   * fixtures without one
+   */
+  seed(fixtures: T[]): this {
+    for (const fixture of fixtures) {
+      const item = structuredClone(fixture) as T & Row;
+      item.id ||= this.generateId();
+      if (this.softDelete) item.isDeleted ??= false;
+      this.items.set(item.id, item);
+    }
+    return this;
+  }
+
+  /** Copy of every stored entity, soft-deleted ones included */
+  snapshot(): T[] {
+    return this.rows().map((item) => structuredClone(item));
+  }
+
+  /** Replace the contents with a snapshot() */
+  restoreSnapshot(snapshot: T[]): void {
+    this.items.clear();
+    for (const item of snapshot) {
+      this.items.set(item.id, structuredClone(item));
+    }
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  private write(entity: T): T {
+    let item = structuredClone(entity) as T & Row;
+    item.id ||= this.generateId();
+
+    if (this.audit) {
+      item = applyAuditStamps(item, this.items.get(item.id) ?? null, this.currentUserId(), this.now());
+    }
+    if (this.softDelete) item.isDeleted ??= false;
+
+    this.items.set(item.id, item);
+    return structuredClone(item);
+  }
+
+  private rows(): T[] {
+    return Array.from(this.items.values());
+  }
+
+  private isVisible(item: T, options?: FindOptions): boolean {
+    return !this.softDelete || !!options?.withDeleted || !(item as Row).isDeleted;
+  }
+
+  private translationOptions(): QueryTranslationOptions {
+    return { softDeletable: this.softDelete };
+  }
+}
@@ -1,2 +1,9 @@
 export * from './base.repository';
 
+export * from './query-scope.util';
+export * from './prisma-query.translator';
+export * from './typeorm-query.translator';
+export * from './in-memory-query.evaluator';
+export * from './in-memory.repository';
+export * from './repository-behaviours';
+export * from './behaviour.repository';
@@ -0,0 +1,144 @@
+import { FilterCondition, QuerySpec } from '../types/query-spec.type';
+import { keysetOrderBy, keysetWhere } from '../utils/keyset.util';
+import { calculateCursorPagination } from './base.repository';
+import { QueryTranslationOptions, scopedFilters } from './query-scope.util';
+
+/**
+ * Prisma findMany arguments (structural, so Prisma isn't a dependency)
+ */
+export interface PrismaFindManyArgs {
+  where: Record<string, unknown>;
+  orderBy: Array<Record<string, unknown>>;
+  skip?: number;
+  take: number;
+  include?: Record<string, unknown>;
+}
+
+/** 'court.name' + value -> { court: { name: value } } */
+function nest(path: string, value: unknown): Record<string, unknown> {
+  return path
+    .split('.')
+    .reduceRight<unknown>((inner, key) => ({ [key]: inner }), value) as Record<string, unknown>;
+}
+
+/**
+ * 'players.name' + value -> { players: { some: { name: value } } } when
+ * 'players' is a to-many relation, like nest() otherwise
+ */
+function nestFilter(
+  path: string,
+  value: unknown,
+  listRelations: readonly string[] = [],
+): Record<string, unknown> {
+  const keys = path.split('.');
+  return keys.reduceRight<unknown>((inner, key, i) => {
+    const isList = i < keys.length - 1 && listRelations.includes(keys.slice(0, i + 1).join('.'));
+    return { [key]: isList ? { some: inner } : inner };
+  }, value) as Record<string, unknown>;
+}
+
+function toPrismaCondition(filter: FilterCondition, caseInsensitive: boolean): unknown {
+  const mode = caseInsensitive ? { mode: 'insensitive' } : {};
+  switch (filter.op) {
+    case 'eq':
+      return filter.value;
+    case 'ne':
+      return { not: filter.value };
+    case 'nin':
+      return { notIn: filter.value };
+    case 'contains':
+    case 'startsWith':
+      return { [filter.op]: filter.value, ...mode };
+    case 'isNull':
+      return filter.value ? null : { not: null };
+    default:
+      return { [filter.op]: filter.value };
+  }
+}
+
+/** ['court', 'court.club'] -> { court: { include: { club: true } } } */
+function toPrismaInclude(relations: string[]): Record<string, unknown> {
+  const include: Record<string, unknown> = {};
+  for (const relation of relations) {
+    let level = include;
+    const path = relation.split('.');
+    path.forEach((key, i) => {
+      if (i === path.length - 1) {
+        level[key] ??= true;
+        return;
+      }
+      if (level[key] === undefined || level[key] === true) {
+        level[key] = { include: {} };
+      }
+      level = (level[key] as { include: Record<string, unknown> }).include;
+    });
+  }
+  return include;
+}
+
+/**
+ * Where clause of a spec (filters + soft-delete / active scope), e.g. for
+ * the count query of an offset page
+ */
+export function toPrismaWhere(
+  spec: QuerySpec,
+  options: QueryTranslationOptions = {},
+): Record<string, unknown> {
+  const conditions = scopedFilters(spec, options).map((filter) =>
+    nestFilter(
+      filter.field,
+      toPrismaCondition(filter, !!options.caseInsensitive),
+      options.listRelations,
+    ),
+  );
+  return conditions.length > 0 ? { AND: conditions } : {};
+}
+
+/**
+ * Prisma findMany arguments of a spec
+ * In cursor mode, rows are read with keyset conditions and limit + 1 rows
+ * are taken; pass them to createCursorPaginatedResult(rows, cursorPaginationOf(spec)).
+ * @throws InvalidCursorError if the cursor is invalid for the spec's sort
+ *
+ * @example
+ * ```ts
+ * async list(spec: QuerySpec) {
+ *   const options = { softDeletable: true };
+ *   const [rows, total] = await Promise.all([
+ *     this.prisma.booking.findMany(toPrismaFindMany(spec, options)),
+ *     this.prisma.booking.count({ where: toPrismaWhere(spec, options) }),
+ *   ]);
+ *   const { page, limit } = spec.pagination as OffsetPaginationSpec;
+ *   return createPaginatedResult(rows, total, page, limit);
+ * }
+ * ```
+ */
+export function toPrismaFindMany(
+  spec: QuerySpec,
+  options: QueryTranslationOptions = {},
+): PrismaFindManyArgs {
+  const where = toPrismaWhere(spec, options);
+  const include = spec.include?.length ? { include: toPrismaInclude(spec.include) } : {};
+
+  if (spec.pagination.mode === 'offset') {
+    return {
+      where,
+      orderBy: spec.sort.map((s) => nest(s.field, s.direction)),
+      skip: spec.pagination.skip,
+      take: spec.pagination.take,
+      ...include,
+    };
+  }
+
+  const cursor = calculateCursorPagination({ ...spec.pagination, sort: spec.sort });
+  const keyset = cursor.cursor
+    ? [keysetWhere(cursor.sort, cursor.cursor.values, cursor.direction)]
+    : [];
+  const conditions = [...((where.AND as unknown[] | undefined) ?? []), ...keyset];
+  return {
+    where: conditions.length > 0 ? { AND: conditions } : {},
+    orderBy: keysetOrderBy(cursor.sort, cursor.direction),
+    take: cursor.take,
+    ...include,
+  };
+}
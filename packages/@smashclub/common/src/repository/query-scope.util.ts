@@ -0,0 +1,50 @@
+import { FilterCondition, QuerySpec } from '../types/query-spec.type';
+import { calculateCursorPagination, CursorPagination } from './base.repository';
+
+/**
+ * What the translators need to know about the entity
+ */
+export interface QueryTranslationOptions {
+  /** Entity implements ISoftDeletable: rows with isDeleted are excluded unless spec.withDeleted */
+  softDeletable?: boolean;
+  /** Entity implements IActivatable: inactive rows are excluded unless spec.includeInactive */
+  activatable?: boolean;
+  /** contains / startsWith ignore case (default: false) */
+  caseInsensitive?: boolean;
+  /**
+   * To-many relation paths (e.g. 'players', 'court.slots'); a dotted filter
+   * through one matches when some related row does (Prisma `some`)
+   */
+  listRelations?: readonly string[];
+}
+
+/**
+ * Filters of a spec plus the soft-delete / active conditions implied by
+ * the entity; an explicit isDeleted / isActive filter wins
+ */
+export function scopedFilters(spec: QuerySpec, options: QueryTranslationOptions = {}): FilterCondition[] {
+  const filters: FilterCondition[] = [...spec.filters];
+  const filtered = (field: string) => spec.filters.some((f) => f.field === field);
+
+  if (options.softDeletable && !spec.withDeleted && !filtered('isDeleted')) {
+    filters.push({ field: 'isDeleted', op: 'eq', value: false });
+  }
+  if (options.activatable && !spec.includeInactive && !filtered('isActive')) {
+    filters.push({ field: 'isActive', op: 'eq', value: true });
+  }
+  return filters;
+}
+
+/**
+ * Cursor pagination of a spec in cursor mode, for createCursorPaginatedResult()
+ * @throws InvalidCursorError if the cursor is invalid for the spec's sort
+ */
+export function cursorPaginationOf(spec: QuerySpec): CursorPagination | undefined {
+  if (spec.pagination.mode !== 'cursor') return undefined;
+  return calculateCursorPagination({ ...spec.pagination, sort: spec.sort });
+}
+
+/** Escape LIKE wildcards so user input matches literally */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
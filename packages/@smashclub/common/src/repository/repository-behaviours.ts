@@ -0,0 +1,125 @@
+import { ConflictException } from '@nestjs/common';
+import { getCorrelationContext } from '../utils/correlation-context.util';
+import { IAuditable, IBaseEntity, ISoftDeletable, IVersioned } from './base.repository';
+
+/**
+ * Thrown when an entity was saved from a stale version (HTTP 409)
+ */
+export class ConcurrencyConflictError extends ConflictException {
+  constructor(
+    public readonly entity: string,
+    public readonly id: string,
+    public readonly expectedVersion: number | undefined,
+    public readonly actualVersion: number | undefined,
+  ) {
+    super(
+      actualVersion === undefined
+        ? `${entity} ${id} was modified concurrently`
+        : `${entity} ${id} was modified concurrently (expected version ${expectedVersion}, found ${actualVersion})`,
+    );
+    this.name = 'ConcurrencyConflictError';
+  }
+}
+
+/**
+ * Hooks a behaviour adds to a repository (see withBehaviours)
+ * Entity hooks return new objects; behaviours run in the order given.
+ */
+export interface RepositoryBehaviour<T extends IBaseEntity> {
+  name: string;
+  /** Stamp or check an entity before it is written; existing is null on insert */
+  beforeSave?(entity: T, existing: T | null): T;
+  /** Entity to write instead of removing the row, or undefined to remove it */
+  onDelete?(existing: T): T | undefined;
+  /** Entity to write to undo onDelete, or undefined if there is nothing to undo */
+  onRestore?(existing: T): T | undefined;
+  /** Whether reads without withDeleted see a stored row */
+  isVisible?(entity: T): boolean;
+  /** Error for a save the store rejected because the stored version changed (IConditionalSave) */
+  onConflict?(entity: T, expectedVersion: number): Error;
+}
+
+export interface AuditStampOptions {
+  /** User ID for createdBy / updatedBy (default: user of the current request) */
+  currentUserId?: () => string | undefined;
+  /** Clock for timestamps (default: now) */
+  now?: () => Date;
+}
+
+type Auditable = IBaseEntity & Partial<IAuditable>;
+
+/**
+ * Entity with createdAt / updatedAt and, when a user is known, createdBy /
+ * updatedBy filled in; creation fields are kept from the stored entity
+ */
+export function applyAuditStamps<T extends IBaseEntity>(
+  entity: T,
+  existing: T | null,
+  userId: string | undefined,
+  now: Date,
+): T {
+  const stored = existing as Auditable | null;
+  const stamped = { ...entity } as T & Auditable;
+  stamped.createdAt = stored?.createdAt ?? stamped.createdAt ?? now;
+  stamped.updatedAt = now;
+  stamped.createdBy = stored?.createdBy ?? stamped.createdBy ?? userId;
+  if (userId) stamped.updatedBy = userId;
+  if (stamped.createdBy === undefined) delete stamped.createdBy;
+  return stamped;
+}
+
+/**
+ * Fill IAuditable fields on every save (soft deletes included)
+ */
+export function auditStamping<T extends IBaseEntity>(
+  options: AuditStampOptions = {},
+): RepositoryBehaviour<T> {
+  const currentUserId = options.currentUserId ?? (() => getCorrelationContext()?.userId);
+  const now = options.now ?? (() => new Date());
+
+  return {
+    name: 'auditStamping',
+    beforeSave: (entity, existing) => applyAuditStamps(entity, existing, currentUserId(), now()),
+  };
+}
+
+/**
+ * delete() flags ISoftDeletable entities and reads skip them
+ * (unless withDeleted); restore() clears the flag
+ */
+export function softDelete<T extends IBaseEntity & ISoftDeletable>(
+  options: Pick<AuditStampOptions, 'now'> = {},
+): RepositoryBehaviour<T> {
+  const now = options.now ?? (() => new Date());
+
+  return {
+    name: 'softDelete',
+    beforeSave: (entity) => (entity.isDeleted === undefined ? { ...entity, isDeleted: false } : entity),
+    onDelete: (existing) => ({ ...existing, isDeleted: true, deletedAt: now() }),
+    onRestore: (existing) =>
+      existing.isDeleted ? { ...existing, isDeleted: false, deletedAt: null } : undefined,
+    isVisible: (entity) => !entity.isDeleted,
+  };
+}
+
+/**
+ * Reject saves of IVersioned entities whose version isn't the stored one,
+ * and increment the version on every write
+ * @param entity Entity name for error messages (default: 'Entity')
+ */
+export function optimisticLocking<T extends IBaseEntity & IVersioned>(
+  entity = 'Entity',
+): RepositoryBehaviour<T> {
+  return {
+    name: 'optimisticLocking',
+    beforeSave: (next, existing) => {
+      if (!existing) return { ...next, version: 1 };
+      if (next.version !== existing.version) {
+        throw new ConcurrencyConflictError(entity, next.id, next.version, existing.version);
+      }
+      return { ...next, version: existing.version + 1 };
+    },
+    onConflict: (next, expectedVersion) =>
+      new ConcurrencyConflictError(entity, next.id, expectedVersion, undefined),
+  };
+}
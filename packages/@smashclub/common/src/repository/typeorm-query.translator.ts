@@ -0,0 +1,270 @@
+import { SortDirection } from '../types/pagination.type';
+import { FilterCondition, QuerySpec } from '../types/query-spec.type';
+import { KeysetComparison, keysetConditions, keysetSql } from '../utils/keyset.util';
+import { calculateCursorPagination } from './base.repository';
+import { escapeLike, QueryTranslationOptions, scopedFilters } from './query-scope.util';
+
+/**
+ * Find operators of typeorm - pass the module itself
+ * (`import * as typeorm from 'typeorm'`), so typeorm isn't a dependency
+ */
+export interface TypeOrmOperators {
+  Equal(value: unknown): unknown;
+  Not(value: unknown): unknown;
+  In(values: unknown[]): unknown;
+  MoreThan(value: unknown): unknown;
+  MoreThanOrEqual(value: unknown): unknown;
+  LessThan(value: unknown): unknown;
+  LessThanOrEqual(value: unknown): unknown;
+  Like(value: string): unknown;
+  ILike(value: string): unknown;
+  IsNull(): unknown;
+  And(...operators: unknown[]): unknown;
+}
+
+/**
+ * TypeORM FindManyOptions (structural); `where` is an array (OR) in
+ * cursor mode
+ */
+export interface TypeOrmFindManyOptions {
+  where: Record<string, unknown> | Array<Record<string, unknown>>;
+  order: Record<string, unknown>;
+  skip?: number;
+  take: number;
+  relations?: string[];
+}
+
+/**
+ * The SelectQueryBuilder methods applyQuerySpec() uses
+ */
+export interface QueryBuilderLike<QB> {
+  andWhere(where: string, parameters?: Record<string, unknown>): QB;
+  addOrderBy(sort: string, order?: 'ASC' | 'DESC'): QB;
+  leftJoin(property: string, alias: string): QB;
+  leftJoinAndSelect(property: string, alias: string): QB;
+  skip(skip?: number): QB;
+  take(take?: number): QB;
+}
+
+function toOrder(direction: SortDirection): 'ASC' | 'DESC' {
+  return direction === 'asc' ? 'ASC' : 'DESC';
+}
+
+function reverse(direction: SortDirection): SortDirection {
+  return direction === 'asc' ? 'desc' : 'asc';
+}
+
+/** Set `value` at a dotted path of `target` */
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let level = target;
+  for (const key of keys.slice(0, -1)) {
+    level[key] ??= {};
+    level = level[key] as Record<string, unknown>;
+  }
+  level[keys[keys.length - 1]] = value;
+}
+
+function toFindOperator(
+  filter: FilterCondition | KeysetComparison,
+  ops: TypeOrmOperators,
+  caseInsensitive: boolean,
+): unknown {
+  const like = (pattern: string) => (caseInsensitive ? ops.ILike(pattern) : ops.Like(pattern));
+  switch (filter.op) {
+    case 'eq':
+      return ops.Equal(filter.value);
+    case 'ne':
+      return ops.Not(ops.Equal(filter.value));
+    case 'gt':
+      return ops.MoreThan(filter.value);
+    case 'gte':
+      return ops.MoreThanOrEqual(filter.value);
+    case 'lt':
+      return ops.LessThan(filter.value);
+    case 'lte':
+      return ops.LessThanOrEqual(filter.value);
+    case 'in':
+      return ops.In(filter.value as unknown[]);
+    case 'nin':
+      return ops.Not(ops.In(filter.value as unknown[]));
+    case 'contains':
+      return like(`%${escapeLike(String(filter.value))}%`);
+    case 'startsWith':
+      return like(`${escapeLike(String(filter.value))}%`);
+    case 'isNull':
+      return filter.value ? ops.IsNull() : ops.Not(ops.IsNull());
+  }
+}
+
+/** Conditions on the same field are combined with And() */
+function toFindWhere(
+  filters: Array<FilterCondition | KeysetComparison>,
+  ops: TypeOrmOperators,
+  caseInsensitive: boolean,
+): Record<string, unknown> {
+  const byField = new Map<string, unknown[]>();
+  for (const filter of filters) {
+    byField.set(filter.field, [
+      ...(byField.get(filter.field) ?? []),
+      toFindOperator(filter, ops, caseInsensitive),
+    ]);
+  }
+
+  const where: Record<string, unknown> = {};
+  for (const [field, operators] of byField) {
+    setPath(where, field, operators.length === 1 ? operators[0] : ops.And(...operators));
+  }
+  return where;
+}
+
+/**
+ * TypeORM FindManyOptions of a spec
+ * In cursor mode, `where` lists one branch per keyset condition and
+ * limit + 1 rows are taken; pass them to createCursorPaginatedResult(rows, cursorPaginationOf(spec)).
+ * @throws InvalidCursorError if the cursor is invalid for the spec's sort
+ *
+ * @example
+ * ```ts
+ * import * as typeorm from 'typeorm';
+ *
+ * const [rows, total] = await this.bookings.findAndCount(
+ *   toTypeOrmFindOptions(spec, typeorm, { softDeletable: true }),
+ * );
+ * ```
+ */
+export function toTypeOrmFindOptions(
+  spec: QuerySpec,
+  ops: TypeOrmOperators,
+  options: QueryTranslationOptions = {},
+): TypeOrmFindManyOptions {
+  const filters = scopedFilters(spec, options);
+  const caseInsensitive = !!options.caseInsensitive;
+  const relations = spec.include?.length ? { relations: spec.include } : {};
+
+  if (spec.pagination.mode === 'offset') {
+    const order: Record<string, unknown> = {};
+    spec.sort.forEach((s) => setPath(order, s.field, toOrder(s.direction)));
+    return {
+      where: toFindWhere(filters, ops, caseInsensitive),
+      order,
+      skip: spec.pagination.skip,
+      take: spec.pagination.take,
+      ...relations,
+    };
+  }
+
+  const cursor = calculateCursorPagination({ ...spec.pagination, sort: spec.sort });
+  const order: Record<string, unknown> = {};
+  cursor.sort.forEach((s) =>
+    setPath(order, s.field, toOrder(cursor.direction === 'after' ? s.direction : reverse(s.direction))),
+  );
+  const branches = cursor.cursor
+    ? keysetConditions(cursor.sort, cursor.cursor.values, cursor.direction)
+    : [[]];
+  return {
+    where: branches.map((branch) => toFindWhere([...filters, ...branch], ops, caseInsensitive)),
+    order,
+    take: cursor.take,
+    ...relations,
+  };
+}
+
+/**
+ * Apply a spec to a TypeORM SelectQueryBuilder
+ * Relations are joined as <alias>_<path> (e.g. booking_court_club); those
+ * only filtered or sorted on are joined without being selected.
+ * @throws InvalidCursorError if the cursor is invalid for the spec's sort
+ *
+ * @example
+ * ```ts
+ * const qb = applyQuerySpec(this.bookings.createQueryBuilder('booking'), spec, {
+ *   alias: 'booking',
+ *   softDeletable: true,
+ * });
+ * const [rows, total] = await qb.getManyAndCount();
+ * ```
+ */
+export function applyQuerySpec<QB extends QueryBuilderLike<QB>>(
+  qb: QB,
+  spec: QuerySpec,
+  options: QueryTranslationOptions & { alias: string },
+): QB {
+  const { alias } = options;
+  const relationAlias = (path: string[]) => [alias, ...path].join('_');
+  const joined = new Set<string>();
+  const join = (relation: string, select: boolean) => {
+    const path = relation.split('.');
+    path.forEach((key, i) => {
+      const name = path.slice(0, i + 1).join('.');
+      if (joined.has(name)) return;
+      joined.add(name);
+      const property = `${relationAlias(path.slice(0, i))}.${key}`;
+      if (select) {
+        qb = qb.leftJoinAndSelect(property, relationAlias(path.slice(0, i + 1)));
+      } else {
+        qb = qb.leftJoin(property, relationAlias(path.slice(0, i + 1)));
+      }
+    });
+  };
+  const column = (field: string) => {
+    const path = field.split('.');
+    if (path.length > 1) join(path.slice(0, -1).join('.'), false);
+    return `${relationAlias(path.slice(0, -1))}.${path[path.length - 1]}`;
+  };
+
+  for (const relation of spec.include ?? []) {
+    join(relation, true);
+  }
+
+  scopedFilters(spec, options).forEach((filter, i) => {
+    const col = column(filter.field);
+    const param = `qs${i}`;
+    const value = filter.value;
+    const lower = (sql: string) => (options.caseInsensitive ? `LOWER(${sql})` : sql);
+    switch (filter.op) {
+      case 'in':
+      case 'nin':
+        qb = qb.andWhere(`${col} ${filter.op === 'in' ? 'IN' : 'NOT IN'} (:...${param})`, { [param]: value });
+        break;
+      case 'contains':
+      case 'startsWith': {
+        const pattern = escapeLike(String(value));
+        qb = qb.andWhere(`${lower(col)} LIKE ${lower(`:${param}`)}`, {
+          [param]: filter.op === 'contains' ? `%${pattern}%` : `${pattern}%`,
+        });
+        break;
+      }
+      case 'isNull':
+        qb = qb.andWhere(`${col} IS ${value ? '' : 'NOT '}NULL`);
+        break;
+      default: {
+        const operators = { eq: '=', ne: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+        qb = qb.andWhere(`${col} ${operators[filter.op]} :${param}`, { [param]: value });
+      }
+    }
+  });
+
+  if (spec.pagination.mode === 'offset') {
+    for (const s of spec.sort) {
+      qb = qb.addOrderBy(column(s.field), toOrder(s.direction));
+    }
+    return qb.skip(spec.pagination.skip).take(spec.pagination.take);
+  }
+
+  const cursor = calculateCursorPagination({ ...spec.pagination, sort: spec.sort });
+  if (cursor.cursor) {
+    const { sql, params } = keysetSql(cursor.sort, cursor.cursor.values, cursor.direction, {
+      placeholder: (n) => `:qsk${n}`,
+      column,
+    });
+    qb = qb.andWhere(`(${sql})`, Object.fromEntries(params.map((p, i) => [`qsk${i + 1}`, p])));
+  }
+  for (const s of cursor.sort) {
+    qb = qb.addOrderBy(
+      column(s.field),
+      toOrder(cursor.direction === 'after' ? s.direction : reverse(s.direction)),
+    );
+  }
+  return qb.take(cursor.take);
+}
@@ -1,11 +1,61 @@
 import {
+  Inject,
   Injectable,
   OnModuleInit,
   OnModuleDestroy,
   Logger,
+  Optional,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { randomUUID } from 'crypto';
+import { COMMON_ENV } from '../config/common-env.provider';
+import { COMMON_ENV_SCHEMA, CommonEnvConfig } from '../config/common-env.schema';
+import { pickConfigSchema, validateConfig } from '../config/config-schema.util';
+import { createRegistryBackend } from '../registry-backends/create-registry-backend';
+import { HealthReport } from '../types/health.type';
+import {
+  InstanceHeartbeat,
+  InstanceRef,
+  InstanceRegistration,
+  RegistrationEvent,
+  RegistrationEventType,
+  RegistrationState,
+  RegistryBackend,
+  RegistryBackendKind,
+} from '../types/registry.type';
+import { RouteManifest } from '../types/route-manifest.type';
+import { CircuitBreaker } from '../utils/circuit-breaker.util';
+import { getCommonMetrics } from '../utils/common-metrics.util';
+import { getDefaultInstanceId } from '../utils/instance-id.util';
+import { retry } from '../utils/retry.util';
+import { buildRouteManifest } from '../utils/route-manifest.util';
+import { withTimeout } from '../utils/timeout.util';
+import { RouteManifestService } from './route-manifest.service';
+
+export const GATEWAY_REGISTRY_OPTIONS = 'GATEWAY_REGISTRY_OPTIONS';
+
+const REGISTRY_ENV_SCHEMA = pickConfigSchema(COMMON_ENV_SCHEMA, [
+  'PORT',
+  'SERVICE_NAME',
+  'SERVICE_HOST',
+  'SERVICE_PROTOCOL',
+  'SERVICE_BASE_URL',
+  'SERVICE_INSTANCE_ID',
+  'SERVICE_GLOBAL_PREFIX',
+  'SERVICE_WEIGHT',
+  'SERVICE_ZONE',
+  'SERVICE_TAGS',
+  'GATEWAY_URL',
+  'GATEWAY_REGISTRY_ENABLED',
+  'GATEWAY_REGISTRY_BACKEND',
+  'GATEWAY_REGISTRY_FILE',
+  'GATEWAY_HEARTBEAT_INTERVAL',
+  'GATEWAY_RETRY_INTERVAL',
+  'GATEWAY_RETRY_BASE_DELAY',
+  'GATEWAY_HEARTBEAT_MAX_FAILURES',
+  'GATEWAY_REQUEST_TIMEOUT',
+  'GATEWAY_HEALTH_CHECK_INTERVAL',
+  'GATEWAY_PUBLISH_MANIFEST',
+]);
 
 export interface GatewayRegistryConfig {
   /** Gateway URL (default: http://localhost:8080) */
@@ -18,56 +68,125 @@ export interface GatewayRegistryConfig {
   instanceId: string;
   /** Heartbeat interval in ms (default: 5000) */
   heartbeatInterval: number;
-  /** Retry interval in ms (default: 15000) */
+  /** Max delay between registration retries in ms (default: 15000) */
   retryInterval: number;
+  /** First registration retry delay in ms, doubled per failure (default: 1000) */
+  retryBaseDelay: number;
+  /** Consecutive heartbeat failures before re-registering (default: 3) */
+  maxHeartbeatFailures: number;
+  /** Timeout of each gateway call in ms (default: 5000) */
+  requestTimeout: number;
   /** Health check interval in ms (default: 30000) - verify registration is valid */
   healthCheckInterval: number;
   /** Enable registration (default: true) */
   enabled: boolean;
+  /** Where to register: a backend kind or instance (default: 'gateway') */
+  backend: RegistryBackendKind | RegistryBackend;
+  /** JSON file of the 'file' backend (default: <tmpdir>/smashclub-registry.json) */
+  registryFile?: string;
+  /** Relative share of traffic (default: 100) */
+  weight: number;
+  /** Availability zone / region */
+  zone?: string;
+  /** Free-form tags, e.g. ['canary'] */
+  tags: string[];
+  /** Prefix passed to app.setGlobalPrefix(); Nest doesn't expose it to providers */
+  globalPrefix: string;
+  /** Send the route manifest at registration (default: true) */
+  publishManifest: boolean;
 }
 
+/**
+ * Registers this instance and keeps the registration alive: heartbeats
+ * (with readiness), periodic verification, re-registration when lost and
+ * deregistration at shutdown
+ *
+ * The registry itself is a RegistryBackend (the gateway over HTTP by
+ * default; a JSON file or memory to run without a gateway).
+ *
+ * @example
+ * ```ts
+ * registry.onRegistrationEvent((event) => {
+ *   if (event.type === 'lost') alerts.warn(`Lost registration: ${event.reason}`);
+ * });
+ * ```
+ */
 @Injectable()
 export class GatewayRegistryService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(GatewayRegistryService.name);
   private readonly config: GatewayRegistryConfig;
+  private readonly backend: RegistryBackend;
+  private readonly heartbeatCircuit: CircuitBreaker;
+  private readonly listeners = new Set<(event: RegistrationEvent) => void>();
   private heartbeatTimer?: ReturnType<typeof setInterval>;
-  private retryTimer?: ReturnType<typeof setInterval>;
   private healthCheckTimer?: ReturnType<typeof setInterval>;
+  private registration?: AbortController;
   private registered = false;
-  private isRetrying = false;
-  private consecutiveFailures = 0;
-  private readonly maxConsecutiveFailures = 3;
+  private state: RegistrationState = 'unregistered';
+  private readinessProbe?: () => Promise<HealthReport>;
+  private draining = false;
 
-  constructor(private readonly configService: ConfigService) {
-    const port = this.configService.get<number>('PORT') || 3000;
-    const host = this.configService.get<string>('SERVICE_HOST') || 'localhost';
-    const protocol = this.configService.get<string>('SERVICE_PROTOCOL') || 'http';
-    const serviceName = this.configService.get<string>('SERVICE_NAME') || 'unknown';
+  /**
+   * @param options Explicit settings (from SmashClubCommonModule.forRoot),
+   *   taking precedence over environment variables
+   * @throws ConfigValidationError if a registry env var is malformed
+   */
+  constructor(
+    private readonly configService: ConfigService,
+    @Optional()
+    @Inject(GATEWAY_REGISTRY_OPTIONS)
+    options: Partial<GatewayRegistryConfig> = {},
+    @Optional() private readonly routeManifest?: RouteManifestService,
+    @Optional() @Inject(COMMON_ENV) commonEnv?: CommonEnvConfig,
+  ) {
+    const env =
+      commonEnv ?? validateConfig(REGISTRY_ENV_SCHEMA, (key) => this.configService.get(key));
+    const serviceName = options.serviceName || env.SERVICE_NAME;
 
     this.config = {
-      gatewayUrl:
-        this.configService.get<string>('GATEWAY_URL') || 'http://localhost:8080',
+      gatewayUrl: options.gatewayUrl || env.GATEWAY_URL,
       serviceName,
       baseUrl:
-        this.configService.get<string>('SERVICE_BASE_URL') ||
-        `${protocol}://${host}:${port}`,
+        options.baseUrl ||
+        env.SERVICE_BASE_URL ||
+        `${env.SERVICE_PROTOCOL}://${env.SERVICE_HOST}:${env.PORT}`,
       instanceId:
-        this.configService.get<string>('SERVICE_INSTANCE_ID') ||
-        `${serviceName}-${randomUUID().slice(0, 8)}`,
-      heartbeatInterval: parseInt(
-        this.configService.get<string>('GATEWAY_HEARTBEAT_INTERVAL') || '5000',
-        10,
-      ),
-      retryInterval: parseInt(
-        this.configService.get<string>('GATEWAY_RETRY_INTERVAL') || '15000',
-        10,
-      ),
-      healthCheckInterval: parseInt(
-        this.configService.get<string>('GATEWAY_HEALTH_CHECK_INTERVAL') || '30000',
-        10,
-      ),
-      enabled: this.configService.get<string>('GATEWAY_REGISTRY_ENABLED') !== 'false',
+        options.instanceId ||
+        env.SERVICE_INSTANCE_ID ||
+        getDefaultInstanceId(serviceName),
+      heartbeatInterval: options.heartbeatInterval ?? env.GATEWAY_HEARTBEAT_INTERVAL,
+      retryInterval: options.retryInterval ?? env.GATEWAY_RETRY_INTERVAL,
+      retryBaseDelay: options.retryBaseDelay ?? env.GATEWAY_RETRY_BASE_DELAY,
+      maxHeartbeatFailures:
+        options.maxHeartbeatFailures ?? env.GATEWAY_HEARTBEAT_MAX_FAILURES,
+      requestTimeout: options.requestTimeout ?? env.GATEWAY_REQUEST_TIMEOUT,
+      healthCheckInterval:
+        options.healthCheckInterval ?? env.GATEWAY_HEALTH_CHECK_INTERVAL,
+      enabled: options.enabled ?? env.GATEWAY_REGISTRY_ENABLED,
+      backend: options.backend ?? env.GATEWAY_REGISTRY_BACKEND,
+      registryFile: options.registryFile ?? env.GATEWAY_REGISTRY_FILE,
+      weight: options.weight ?? env.SERVICE_WEIGHT,
+      zone: options.zone ?? env.SERVICE_ZONE,
+      tags: options.tags ?? env.SERVICE_TAGS ?? [],
+      globalPrefix: options.globalPrefix ?? env.SERVICE_GLOBAL_PREFIX ?? '',
+      publishManifest: options.publishManifest ?? env.GATEWAY_PUBLISH_MANIFEST,
     };
+
+    this.backend =
+      typeof this.config.backend === 'string'
+        ? createRegistryBackend(this.config.backend, {
+            gatewayUrl: this.config.gatewayUrl,
+            filePath: this.config.registryFile,
+          })
+        : this.config.backend;
+    if (!this.config.enabled) this.state = 'disabled';
+
+    // Opens after maxHeartbeatFailures in a row, which triggers re-registration
+    this.heartbeatCircuit = new CircuitBreaker({
+      name: 'gateway.heartbeat',
+      failureThreshold: this.config.maxHeartbeatFailures,
+      resetTimeoutMs: this.config.heartbeatInterval,
+    });
   }
 
   async onModuleInit(): Promise<void> {
@@ -76,169 +195,311 @@ export class GatewayRegistryService implements OnModuleInit, OnModuleDestroy {
       return;
     }
 
-    this.logger.log(`🔄 Registering with gateway: ${this.config.gatewayUrl}`);
+    this.logger.log(`🔄 Registering with ${this.describeBackend()}`);
     this.logger.log(
       `   Service: ${this.config.serviceName}, Instance: ${this.config.instanceId}`,
     );
 
-    await this.attemptRegistration();
-    
+    // Wait for the first attempt only; retries continue in the background
+    await new Promise<void>((resolve) => this.startRegistration(resolve));
+
     // Start periodic health check to detect gateway restart
     this.startHealthCheck();
   }
 
   async onModuleDestroy(): Promise<void> {
+    await this.shutdown();
+  }
+
+  /**
+   * Stop timers and deregister (last step of ShutdownCoordinator; also run
+   * on module destroy when the coordinator isn't driving shutdown)
+   */
+  async shutdown(): Promise<void> {
+    this.registration?.abort();
     this.stopTimers();
 
     if (this.registered) {
       try {
         await this.deregister();
-        this.logger.log('Service deregistered from gateway');
+        this.logger.log(`Service deregistered from ${this.backend.name} registry`);
       } catch (error) {
-        this.logger.error('Failed to deregister from gateway:', error);
+        this.logger.error(`Failed to deregister from ${this.backend.name} registry:`, error);
       }
     }
+
+    try {
+      await this.backend.shutdown?.();
+    } catch (error) {
+      this.logger.warn(`Registry backend shutdown failed: ${(error as Error).message}`);
+    }
   }
 
-  private stopTimers(): void {
-    if (this.retryTimer) {
-      clearInterval(this.retryTimer);
-      this.retryTimer = undefined;
+  /**
+   * Tell the gateway to stop routing new requests here
+   * An immediate heartbeat reports `draining: true` (and every later one),
+   * and registration is no longer retried.
+   */
+  async markDraining(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+
+    this.registration?.abort();
+    if (this.registered) {
+      this.transition('draining', 'draining');
+      await this.sendHeartbeat();
     }
-    if (this.heartbeatTimer) {
-      clearInterval(this.heartbeatTimer);
-      this.heartbeatTimer = undefined;
+  }
+
+  /**
+   * Subscribe to registration changes (registered, lost, reregistered,
+   * draining, deregistered); returns the unsubscribe function
+   */
+  onRegistrationEvent(listener: (event: RegistrationEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): RegistrationState {
+    return this.state;
+  }
+
+  getBackend(): RegistryBackend {
+    return this.backend;
+  }
+
+  /**
+   * Move to `state`, emitting `type` to subscribers when given
+   */
+  private transition(state: RegistrationState, type?: RegistrationEventType, reason?: string): void {
+    const previous = this.state;
+    this.state = state;
+    if (!type || previous === state) return;
+
+    const event: RegistrationEvent = {
+      type,
+      service: this.config.serviceName,
+      instanceId: this.config.instanceId,
+      backend: this.backend.name,
+      ...(reason && { reason }),
+      at: new Date().toISOString(),
+    };
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error(`Registration event listener failed: ${(error as Error).message}`);
+      }
     }
+  }
+
+  private describeBackend(): string {
+    return this.backend.name === 'gateway'
+      ? `gateway: ${this.config.gatewayUrl}`
+      : `${this.backend.name} registry`;
+  }
+
+  /**
+   * Track registration state (exposed as gateway_registration_state)
+   */
+  private setRegistered(registered: boolean): void {
+    this.registered = registered;
+    getCommonMetrics().gatewayRegistrationState.set(
+      { service: this.config.serviceName, instance_id: this.config.instanceId },
+      registered ? 1 : 0,
+    );
+  }
+
+  private stopTimers(): void {
+    this.stopHeartbeat();
     if (this.healthCheckTimer) {
       clearInterval(this.healthCheckTimer);
       this.healthCheckTimer = undefined;
     }
   }
 
-  private async attemptRegistration(): Promise<void> {
-    if (this.registered) return;
-
-    try {
-      await this.register();
-      this.registered = true;
-      this.isRetrying = false;
+  /**
+   * Register, retrying with exponential backoff (retryBaseDelay doubling up
+   * to retryInterval, with jitter) until it succeeds or draining starts
+   * Retries are logged with their delay and counted in
+   * resilience_events_total{name="gateway.register"}.
+   * @param onFirstAttempt Called once the first attempt has settled
+   */
+  private startRegistration(onFirstAttempt?: () => void): void {
+    if (this.registered || this.draining || this.registration) {
+      onFirstAttempt?.();
+      return;
+    }
 
-      if (this.retryTimer) {
-        clearInterval(this.retryTimer);
-        this.retryTimer = undefined;
-      }
+    const registration = new AbortController();
+    this.registration = registration;
+    if (this.state !== 'lost') this.transition('registering');
+
+    retry(
+      async (attempt) => {
+        try {
+          await withTimeout((signal) => this.register(signal), this.config.requestTimeout, {
+            signal: registration.signal,
+            name: 'gateway.register',
+          });
+          this.onRegistered();
+        } catch (error) {
+          getCommonMetrics().gatewayRegistrationFailures.inc({
+            service: this.config.serviceName,
+          });
+          this.logger.error(`❌ Registration failed (attempt ${attempt}): ${(error as Error).message}`);
+          throw error;
+        } finally {
+          onFirstAttempt?.();
+          onFirstAttempt = undefined;
+        }
+      },
+      {
+        retries: Infinity,
+        baseDelayMs: this.config.retryBaseDelay,
+        maxDelayMs: this.config.retryInterval,
+        jitter: 'equal',
+        retryIf: () => true,
+        signal: registration.signal,
+        name: 'gateway.register',
+        onRetry: (_, attempt, delayMs) =>
+          this.logger.warn(`   Retrying registration in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 1})`),
+      },
+    )
+      // Only stops when aborted by draining or shutdown
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.registration === registration) this.registration = undefined;
+      });
+  }
 
-      this.startHeartbeat();
+  private onRegistered(): void {
+    this.setRegistered(true);
+    this.heartbeatCircuit.reset();
+    this.startHeartbeat();
+    this.transition('registered', this.state === 'lost' ? 'reregistered' : 'registered');
 
-      this.logger.log(
-        `✅ Registered: ${this.config.serviceName} (${this.config.instanceId})`,
-      );
+    this.logger.log(
+      `✅ Registered: ${this.config.serviceName} (${this.config.instanceId})`,
+    );
+    if (this.backend.name === 'gateway') {
       this.logger.log(
         `   Accessible at: ${this.config.gatewayUrl}/${this.config.serviceName}/...`,
       );
-    } catch (error) {
-      this.logger.error('❌ Registration failed:', error);
-      this.registered = false;
-
-      if (!this.isRetrying) {
-        this.isRetrying = true;
-        this.logger.warn(
-          `   Retrying every ${this.config.retryInterval / 1000}s...`,
-        );
-
-        this.retryTimer = setInterval(async () => {
-          if (!this.registered) {
-            this.logger.log('🔄 Retrying registration...');
-            await this.attemptRegistration();
-          }
-        }, this.config.retryInterval);
-      }
     }
   }
 
-  private async register(): Promise<void> {
-    const url = `${this.config.gatewayUrl}/registry/register`;
-    const payload = {
+  private instanceRef(): InstanceRef {
+    return { service: this.config.serviceName, instanceId: this.config.instanceId };
+  }
+
+  private async register(signal: AbortSignal): Promise<void> {
+    const manifest = this.getRouteManifest();
+    const registration: InstanceRegistration = {
       service: this.config.serviceName,
       baseUrl: this.config.baseUrl,
       instanceId: this.config.instanceId,
+      weight: this.config.weight,
+      ...(this.config.zone && { zone: this.config.zone }),
+      tags: this.config.tags,
       meta: {
         environment: process.env.NODE_ENV || 'development',
         version: process.env.npm_package_version || '1.0.0',
         startedAt: new Date().toISOString(),
+        ...(manifest && { manifestHash: manifest.hash }),
       },
+      ...(manifest && { manifest }),
     };
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
-    });
-
-    if (!response.ok) {
-      const text = await response.text();
-      throw new Error(`Registration failed: ${response.status} ${text}`);
-    }
+    await this.backend.register(registration, signal);
   }
 
   private startHeartbeat(): void {
+    this.stopHeartbeat();
     this.heartbeatTimer = setInterval(async () => {
       await this.sendHeartbeat();
     }, this.config.heartbeatInterval);
   }
 
-  private async sendHeartbeat(): Promise<void> {
-    if (!this.registered) {
-      await this.attemptRegistration();
-      return;
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
     }
+  }
 
-    const url = `${this.config.gatewayUrl}/registry/heartbeat/${this.config.serviceName}/${this.config.instanceId}`;
+  /**
+   * Readiness summary sent with heartbeats, so the gateway can stop routing
+   * to an instance that is registered but can't serve traffic
+   */
+  private async readinessPayload(): Promise<InstanceHeartbeat | undefined> {
+    if (this.draining) {
+      return { ready: false, draining: true, checks: {} };
+    }
+    if (!this.readinessProbe) return undefined;
 
     try {
-      const response = await fetch(url, { method: 'POST' });
-      
-      if (response.ok) {
-        // Heartbeat successful - reset failure counter
-        this.consecutiveFailures = 0;
-      } else if (response.status === 404) {
-        // Gateway doesn't know about us - it probably restarted
-        this.logger.warn('⚠️ Gateway returned 404 - service not found. Gateway may have restarted.');
-        this.forceReRegister();
-      } else {
-        this.handleHeartbeatFailure(`Status ${response.status}`);
+      const report = await this.readinessProbe();
+      const checks: Record<string, string> = {};
+      for (const [name, result] of Object.entries(report.checks)) {
+        checks[name] = result.status;
       }
+      return { ready: report.status === 'up', checks };
     } catch (error) {
-      this.handleHeartbeatFailure(String(error));
+      this.logger.warn(`Readiness check failed: ${(error as Error).message}`);
+      return { ready: false, checks: {} };
     }
   }
 
-  private handleHeartbeatFailure(reason: string): void {
-    this.consecutiveFailures++;
-    this.logger.warn(`Heartbeat failed (${this.consecutiveFailures}/${this.maxConsecutiveFailures}): ${reason}`);
-    
-    if (this.consecutiveFailures >= this.maxConsecutiveFailures) {
-      this.logger.error('❌ Too many heartbeat failures - forcing re-registration');
-      this.forceReRegister();
+  private async sendHeartbeat(): Promise<void> {
+    if (!this.registered) {
+      this.startRegistration();
+      return;
+    }
+
+    try {
+      const readiness = await this.readinessPayload();
+      const outcome = await this.heartbeatCircuit.execute(() =>
+        this.call('gateway.heartbeat', (signal) =>
+          this.backend.heartbeat(this.instanceRef(), readiness, signal),
+        ),
+      );
+
+      if (outcome === 'lost') {
+        // The registry doesn't know about us - it probably restarted
+        this.logger.warn('⚠️ Registry no longer knows this instance. It may have restarted.');
+        this.forceReRegister('unknown to the registry');
+      }
+    } catch (error) {
+      getCommonMetrics().gatewayHeartbeatFailures.inc({ service: this.config.serviceName });
+      this.logger.warn(`Heartbeat failed: ${(error as Error).message}`);
+
+      if (this.heartbeatCircuit.state === 'open') {
+        this.logger.error(
+          `❌ ${this.config.maxHeartbeatFailures} heartbeat failures in a row - forcing re-registration`,
+        );
+        this.forceReRegister(`${this.config.maxHeartbeatFailures} heartbeat failures in a row`);
+      }
     }
   }
 
   /**
    * Force re-registration - used when gateway restarts or connection is lost
    */
-  private forceReRegister(): void {
-    this.registered = false;
-    this.consecutiveFailures = 0;
-    this.isRetrying = false;
-    
-    // Stop current timers
-    if (this.heartbeatTimer) {
-      clearInterval(this.heartbeatTimer);
-      this.heartbeatTimer = undefined;
-    }
-    
-    // Attempt registration immediately
-    this.attemptRegistration();
+  private forceReRegister(reason: string): void {
+    this.setRegistered(false);
+    this.stopHeartbeat();
+    this.transition('lost', 'lost', reason);
+    this.startRegistration();
+  }
+
+  /**
+   * Backend call aborted after requestTimeout
+   */
+  private call<T>(name: string, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    return withTimeout(fn, this.config.requestTimeout, { name });
   }
 
   /**
@@ -254,43 +515,65 @@ export class GatewayRegistryService implements OnModuleInit, OnModuleDestroy {
   private async verifyRegistration(): Promise<void> {
     if (!this.registered) return;
 
-    const url = `${this.config.gatewayUrl}/registry?service=${this.config.serviceName}`;
-    
     try {
-      const response = await fetch(url, { method: 'GET' });
-      
-      if (!response.ok) {
-        this.logger.warn('⚠️ Health check failed - gateway may be down');
-        return; // Don't force re-register if gateway is down, let heartbeat handle it
-      }
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const data: any = await response.json();
-      const rawInstances = Array.isArray(data) ? data : (data?.instances || []);
-      
-      // Check if our instance is in the list
-      const found = rawInstances.some(
-        (inst: any) => inst?.instanceId === this.config.instanceId
+      const found = await this.call('gateway.verify', (signal) =>
+        this.backend.verify(this.instanceRef(), signal),
       );
 
       if (!found) {
-        this.logger.warn('⚠️ Health check: Service not found in gateway registry - forcing re-registration');
-        this.forceReRegister();
+        this.logger.warn('⚠️ Health check: Service not found in registry - forcing re-registration');
+        this.forceReRegister('not listed by the registry');
       }
     } catch (error) {
-      // Gateway might be temporarily unavailable - don't force re-register
-      this.logger.debug(`Health check error (gateway may be down): ${error}`);
+      // Registry might be temporarily unavailable - don't force re-register, let heartbeat handle it
+      this.logger.debug(`Health check error (registry may be down): ${(error as Error).message}`);
     }
   }
 
   private async deregister(): Promise<void> {
-    const url = `${this.config.gatewayUrl}/registry/${this.config.serviceName}/${this.config.instanceId}`;
-    await fetch(url, { method: 'DELETE' });
-    this.registered = false;
+    await this.call('gateway.deregister', (signal) =>
+      this.backend.deregister(this.instanceRef(), signal),
+    );
+    this.setRegistered(false);
+    this.transition('deregistered', 'deregistered');
+  }
+
+  /**
+   * Route manifest sent at registration (undefined when publishing is off
+   * or route discovery isn't available)
+   */
+  getRouteManifest(): RouteManifest | undefined {
+    if (!this.config.publishManifest || !this.routeManifest) return undefined;
+
+    return buildRouteManifest({
+      service: this.config.serviceName,
+      routes: this.routeManifest.getRoutes(this.config.globalPrefix),
+      weight: this.config.weight,
+      zone: this.config.zone,
+      tags: this.config.tags,
+    });
+  }
+
+  /**
+   * Report readiness in every heartbeat (set by HealthService)
+   */
+  setReadinessProbe(probe: () => Promise<HealthReport>): void {
+    this.readinessProbe = probe;
+  }
+
+  isDraining(): boolean {
+    return this.draining;
+  }
+
+  /** Whether registration is enabled (GATEWAY_REGISTRY_ENABLED / options) */
+  isEnabled(): boolean {
+    return this.config.enabled;
   }
 
   getRegistrationInfo(): {
     registered: boolean;
+    state: RegistrationState;
+    backend: string;
     serviceName: string;
     instanceId: string;
     baseUrl: string;
@@ -298,6 +581,8 @@ export class GatewayRegistryService implements OnModuleInit, OnModuleDestroy {
   } {
     return {
       registered: this.registered,
+      state: this.state,
+      backend: this.backend.name,
       serviceName: this.config.serviceName,
       instanceId: this.config.instanceId,
       baseUrl: this.config.baseUrl,
@@ -0,0 +1,231 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { COMMON_ENV } from '../config/common-env.provider';
+import { COMMON_ENV_SCHEMA, CommonEnvConfig } from '../config/common-env.schema';
+import { pickConfigSchema, validateConfig } from '../config/config-schema.util';
+import {
+  HealthCheckResult,
+  HealthIndicator,
+  HealthProbe,
+  HealthReport,
+  HealthStatus,
+} from '../types/health.type';
+import { getCommonMetrics } from '../utils/common-metrics.util';
+import {
+  eventLoopLagIndicator,
+  gatewayRegistrationIndicator,
+  heapUsageIndicator,
+} from '../utils/health-indicators.util';
+import { GatewayRegistryService } from './gateway-registry.service';
+
+export const HEALTH_OPTIONS = 'HEALTH_OPTIONS';
+
+const HEALTH_ENV_SCHEMA = pickConfigSchema(COMMON_ENV_SCHEMA, [
+  'HEALTH_CACHE_TTL',
+  'HEALTH_CHECK_TIMEOUT',
+  'HEALTH_EVENT_LOOP_LAG_MAX',
+  'HEALTH_HEAP_USED_MAX_RATIO',
+]);
+
+export interface HealthOptions {
+  /** Extra indicators (e.g. database, Redis), on top of the built-in ones */
+  indicators?: HealthIndicator[];
+  /** Register the event-loop, heap and gateway indicators (default: true) */
+  builtInIndicators?: boolean;
+  /** How long a report is reused, in ms (default: HEALTH_CACHE_TTL) */
+  cacheTtlMs?: number;
+  /** Per-indicator timeout in ms (default: HEALTH_CHECK_TIMEOUT) */
+  timeoutMs?: number;
+  /** p99 event-loop lag threshold in ms (default: HEALTH_EVENT_LOOP_LAG_MAX) */
+  maxEventLoopLagMs?: number;
+  /** Heap used / limit threshold (default: HEALTH_HEAP_USED_MAX_RATIO) */
+  maxHeapUsedRatio?: number;
+  /** Send readiness with every gateway heartbeat (default: true) */
+  reportToGateway?: boolean;
+}
+
+/**
+ * Runs health indicators and aggregates them per probe
+ *
+ * Reports are cached for `cacheTtlMs` and concurrent callers share the
+ * run in progress, so frequent probes don't hammer dependencies.
+ *
+ * @example
+ * ```ts
+ * @Injectable()
+ * export class DatabaseHealth implements OnModuleInit {
+ *   constructor(private health: HealthService, private prisma: PrismaService) {}
+ *
+ *   onModuleInit() {
+ *     this.health.register(pingIndicator('database', () => this.prisma.$queryRaw`SELECT 1`));
+ *   }
+ * }
+ * ```
+ */
+@Injectable()
+export class HealthService implements OnModuleInit {
+  private readonly logger = new Logger(HealthService.name);
+  private readonly indicators = new Map<string, HealthIndicator>();
+  private readonly cacheTtlMs: number;
+  private readonly timeoutMs: number;
+  private readonly reportToGateway: boolean;
+  private readonly cache = new Map<HealthProbe, { report: HealthReport; expiresAt: number }>();
+  private readonly running = new Map<HealthProbe, Promise<HealthReport>>();
+  private readonly lastStatus = new Map<HealthProbe, HealthStatus>();
+
+  /**
+   * @throws ConfigValidationError if a HEALTH_* env var is malformed
+   */
+  constructor(
+    @Optional()
+    @Inject(HEALTH_OPTIONS)
+    options: HealthOptions = {},
+    @Optional() configService?: ConfigService,
+    @Optional() private readonly registry?: GatewayRegistryService,
+    @Optional() @Inject(COMMON_ENV) commonEnv?: CommonEnvConfig,
+  ) {
+    const env =
+      commonEnv ??
+      validateConfig(HEALTH_ENV_SCHEMA, (key) => configService?.get(key) ?? process.env[key]);
+    this.cacheTtlMs = options.cacheTtlMs ?? env.HEALTH_CACHE_TTL;
+    this.timeoutMs = options.timeoutMs ?? env.HEALTH_CHECK_TIMEOUT;
+    this.reportToGateway = options.reportToGateway ?? true;
+
+    if (options.builtInIndicators !== false) {
+      this.register(
+        eventLoopLagIndicator({
+          maxLagMs: options.maxEventLoopLagMs ?? env.HEALTH_EVENT_LOOP_LAG_MAX,
+        }),
+      );
+      this.register(
+        heapUsageIndicator({
+          maxUsedRatio: options.maxHeapUsedRatio ?? env.HEALTH_HEAP_USED_MAX_RATIO,
+        }),
+      );
+      if (registry) {
+        this.register(gatewayRegistrationIndicator(registry));
+      }
+    }
+    for (const indicator of options.indicators ?? []) {
+      this.register(indicator);
+    }
+  }
+
+  onModuleInit(): void {
+    if (this.registry && this.reportToGateway) {
+      this.registry.setReadinessProbe(() => this.checkReadiness());
+    }
+  }
+
+  /**
+   * Add an indicator; one with the same name is replaced
+   */
+  register(indicator: HealthIndicator): void {
+    this.indicators.set(indicator.name, indicator);
+    this.cache.clear();
+  }
+
+  unregister(name: string): void {
+    this.indicators.delete(name);
+    this.cache.clear();
+  }
+
+  getIndicators(): HealthIndicator[] {
+    return Array.from(this.indicators.values());
+  }
+
+  checkLiveness(): Promise<HealthReport> {
+    return this.check('liveness');
+  }
+
+  checkReadiness(): Promise<HealthReport> {
+    return this.check('readiness');
+  }
+
+  /**
+   * Aggregated report of a probe (cached for cacheTtlMs)
+   */
+  async check(probe: HealthProbe): Promise<HealthReport> {
+    const cached = this.cache.get(probe);
+    if (cached && cached.expiresAt > Date.now()) return cached.report;
+
+    let running = this.running.get(probe);
+    if (!running) {
+      running = this.run(probe).finally(() => this.running.delete(probe));
+      this.running.set(probe, running);
+    }
+    return running;
+  }
+
+  private async run(probe: HealthProbe): Promise<HealthReport> {
+    const indicators = this.getIndicators().filter((indicator) =>
+      (indicator.probes ?? ['readiness']).includes(probe),
+    );
+    const results = await Promise.all(indicators.map((indicator) => this.runIndicator(indicator)));
+
+    const checks: Record<string, HealthCheckResult> = {};
+    indicators.forEach((indicator, i) => {
+      checks[indicator.name] = results[i];
+    });
+
+    const report: HealthReport = {
+      probe,
+      status: results.some((r) => r.critical && r.status === 'down') ? 'down' : 'up',
+      checkedAt: new Date().toISOString(),
+      checks,
+    };
+
+    const previous = this.lastStatus.get(probe);
+    if (previous && previous !== report.status) {
+      const failing = Object.entries(checks)
+        .filter(([, r]) => r.status === 'down')
+        .map(([name, r]) => `${name}: ${r.error ?? 'down'}`);
+      this.logger.warn(
+        `${probe} changed ${previous} -> ${report.status}${failing.length ? ` (${failing.join('; ')})` : ''}`,
+      );
+    }
+
+    this.lastStatus.set(probe, report.status);
+    this.cache.set(probe, { report, expiresAt: Date.now() + this.cacheTtlMs });
+    return report;
+  }
+
+  private async runIndicator(indicator: HealthIndicator): Promise<HealthCheckResult> {
+    const critical = indicator.critical ?? true;
+    const start = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    let result: HealthCheckResult;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Timed out after ${this.timeoutMs}ms`)),
+          this.timeoutMs,
+        );
+      });
+      const outcome = await Promise.race([Promise.resolve(indicator.check()), timeout]);
+      result = { ...outcome, critical, durationMs: Date.now() - start };
+    } catch (error) {
+      result = {
+        status: 'down',
+        error: error instanceof Error ? error.message : String(error),
+        critical,
+        durationMs: Date.now() - start,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    getCommonMetrics().healthCheckStatus.set(
+      { check: indicator.name },
+      result.status === 'up' ? 1 : 0,
+    );
+    return result;
+  }
+}
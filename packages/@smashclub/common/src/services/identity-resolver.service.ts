@@ -0,0 +1,179 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { COMMON_ENV, commonEnvReader } from '../config/common-env.provider';
+import { COMMON_ENV_SCHEMA, CommonEnvConfig } from '../config/common-env.schema';
+import { pickConfigSchema, validateConfig } from '../config/config-schema.util';
+import { ApiKeyStrategy } from '../strategies/api-key.strategy';
+import { BearerJwtStrategy } from '../strategies/bearer-jwt.strategy';
+import { GatewayHeadersStrategy } from '../strategies/gateway-headers.strategy';
+import { SignedSessionStrategy } from '../strategies/signed-session.strategy';
+import {
+  IDENTITY_STRATEGY,
+  IdentityRequest,
+  IdentityStrategy,
+  IdentityStrategyName,
+} from '../types/identity.type';
+import {
+  JwtVerifier,
+  JwtVerifierOptions,
+  jwtVerifierOptionsFromConfig,
+} from '../utils/jwt-verifier.util';
+import { ApiKeyStore } from '../utils/api-key-store.util';
+import { updateCorrelationContext } from '../utils/correlation-context.util';
+import { NonceStore } from '../utils/nonce-store.util';
+import { SignedIdentityVerifier } from '../utils/signed-identity.util';
+
+export const IDENTITY_RESOLVER_OPTIONS = 'IDENTITY_RESOLVER_OPTIONS';
+
+export interface IdentityResolverOptions {
+  /**
+   * Strategy order (default: signed-session, gateway-headers, bearer-jwt,
+   * api-key; gateway-headers is left out when TRUST_GATEWAY_AUTH=false)
+   */
+  strategies?: IdentityStrategyName[];
+  /** Shared secrets for signed gateway identity (default: GATEWAY_SIGNING_SECRETS) */
+  signingSecrets?: string[];
+  /** Local JWT verification (default: built from JWT_* config values) */
+  jwt?: JwtVerifierOptions;
+  /** Store used to reject replayed identity signatures (default: getDefaultNonceStore()) */
+  nonceStore?: NonceStore;
+  /** API keys accepted from internal services (api-key strategy is inactive without it) */
+  apiKeyStore?: ApiKeyStore;
+  /** Additional strategies, referenced by name in `strategies` */
+  customStrategies?: IdentityStrategy[];
+}
+
+/**
+ * Requests already resolved, so middleware + guard only run the chain once
+ */
+const resolvedRequests = new WeakMap<object, Promise<void>>();
+
+/**
+ * Single identity resolution pipeline shared by GatewayAuthMiddleware and
+ * GatewayAuthGuard
+ *
+ * Strategies are tried in order. The first one that finds credentials
+ * decides: either request.user is set (and request.authStrategy records
+ * which strategy produced it), or request.authError explains the rejection.
+ * Rejected credentials never fall through to weaker strategies.
+ */
+@Injectable()
+export class IdentityResolver {
+  private readonly logger = new Logger(IdentityResolver.name);
+  private readonly strategies = new Map<string, IdentityStrategy>();
+  private readonly order: IdentityStrategyName[];
+
+  constructor(
+    @Optional()
+    @Inject(IDENTITY_RESOLVER_OPTIONS)
+    options: IdentityResolverOptions = {},
+    @Optional() configService?: ConfigService,
+    @Optional() @Inject(COMMON_ENV) commonEnv?: CommonEnvConfig,
+  ) {
+    const get = commonEnvReader(commonEnv, configService);
+    const env =
+      commonEnv ??
+      validateConfig(
+        pickConfigSchema(COMMON_ENV_SCHEMA, ['GATEWAY_SIGNING_SECRETS', 'TRUST_GATEWAY_AUTH']),
+        get,
+      );
+
+    const signingVerifier = new SignedIdentityVerifier({
+      secrets: options.signingSecrets ?? env.GATEWAY_SIGNING_SECRETS ?? [],
+      nonceStore: options.nonceStore,
+    });
+    const trustGateway = env.TRUST_GATEWAY_AUTH;
+
+    if (!signingVerifier.enabled && trustGateway) {
+      this.logger.warn(
+        'GATEWAY_SIGNING_SECRETS not set - trusting unsigned x-user-* headers',
+      );
+    }
+
+    this.register(new SignedSessionStrategy(signingVerifier));
+    this.register(
+      new GatewayHeadersStrategy({ requireSignature: signingVerifier.enabled }),
+    );
+    this.register(
+      new BearerJwtStrategy(
+        new JwtVerifier(options.jwt ?? jwtVerifierOptionsFromConfig(get)),
+      ),
+    );
+    this.register(new ApiKeyStrategy(options.apiKeyStore));
+    for (const strategy of options.customStrategies ?? []) {
+      this.register(strategy);
+    }
+
+    this.order = options.strategies ?? [
+      IDENTITY_STRATEGY.SIGNED_SESSION,
+      ...(trustGateway ? [IDENTITY_STRATEGY.GATEWAY_HEADERS] : []),
+      IDENTITY_STRATEGY.BEARER_JWT,
+      IDENTITY_STRATEGY.API_KEY,
+    ];
+
+    const unknown = this.order.filter((name) => !this.strategies.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown identity strategies: ${unknown.join(', ')}`);
+    }
+  }
+
+  /**
+   * Register (or replace) a strategy; it is only used if listed in the order
+   */
+  register(strategy: IdentityStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  /**
+   * Strategy names in the order they are tried
+   */
+  getOrder(): IdentityStrategyName[] {
+    return [...this.order];
+  }
+
+  /**
+   * Resolve the request's identity once, setting request.user /
+   * request.authStrategy or request.authError
+   * The user id is also recorded in the current correlation context.
+   */
+  async resolve(request: IdentityRequest): Promise<void> {
+    let pending = resolvedRequests.get(request);
+    if (!pending) {
+      pending = this.runChain(request);
+      resolvedRequests.set(request, pending);
+    }
+    await pending;
+
+    if (request.user) {
+      updateCorrelationContext({ userId: request.user.id, user: request.user });
+    }
+  }
+
+  private async runChain(request: IdentityRequest): Promise<void> {
+    if (request.user) {
+      // Set upstream (e.g. passport) - only normalise sub -> id
+      const user = request.user as IdentityRequest['user'] & { sub?: string };
+      if (!user.id && user.sub) {
+        user.id = user.sub;
+      }
+      request.authStrategy ??= IDENTITY_STRATEGY.EXTERNAL;
+      return;
+    }
+
+    for (const name of this.order) {
+      const result = await this.strategies.get(name)!.resolve(request);
+      if (!result) continue;
+
+      if ('user' in result) {
+        request.user = result.user;
+        request.authStrategy = name;
+      } else {
+        request.authError = result.error;
+        this.logger.debug(
+          `Identity rejected by ${name}: ${result.error.code} - ${result.error.message}`,
+        );
+      }
+      return;
+    }
+  }
+}
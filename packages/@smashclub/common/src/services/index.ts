@@ -2,3 +2,10 @@ export * from './gateway-registry.service';
 export * from './logging.service';
 export * from './repository-logger.service';
 
+export * from './ownership-registry.service';
+export * from './permission-registry.service';
+export * from './identity-resolver.service';
+export * from './health.service';
+export * from './shutdown-coordinator.service';
+export * from './route-manifest.service';
+export * from './service-client.service';
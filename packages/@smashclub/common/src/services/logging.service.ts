@@ -1,78 +1,339 @@
-import { Injectable, Logger, LogLevel } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  LoggerService,
+  OnModuleDestroy,
+  Optional,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { COMMON_ENV, commonEnvReader } from '../config/common-env.provider';
+import { COMMON_ENV_SCHEMA, CommonEnvConfig } from '../config/common-env.schema';
+import {
+  ConfigValidationError,
+  pickConfigSchema,
+  validateConfig,
+} from '../config/config-schema.util';
+import { ConsolePrettyTransport } from '../transports/console-pretty.transport';
+import { JsonLinesTransport } from '../transports/json-lines.transport';
+import { RotatingFileTransport } from '../transports/rotating-file.transport';
+import {
+  LOG_SEVERITY,
+  LogRecord,
+  LogRecordError,
+  LogSeverity,
+  LogTransport,
+} from '../types/log.type';
+import { getCorrelationContext } from '../utils/correlation-context.util';
+import { getDefaultInstanceId } from '../utils/instance-id.util';
+import { getActiveSpan } from '../utils/tracer.util';
+import {
+  Redactor,
+  RedactorOptions,
+  redactorOptionsFromConfig,
+} from '../utils/redaction.util';
+
+export const LOGGING_OPTIONS = 'LOGGING_OPTIONS';
+
+const LOGGING_ENV_SCHEMA = pickConfigSchema(COMMON_ENV_SCHEMA, [
+  'NODE_ENV',
+  'SERVICE_NAME',
+  'SERVICE_INSTANCE_ID',
+  'LOG_LEVEL',
+  'LOG_MODULE_LEVELS',
+  'LOG_FORMAT',
+  'LOG_FILE',
+  'LOG_FILE_MAX_SIZE',
+  'LOG_FILE_MAX_FILES',
+]);
+
+/** Same check as Nest's ConsoleLogger: is the 2nd error() argument a stack? */
+const STACK_PATTERN = /^(.)+\n\s+at .+:\d+:\d+/;
 
 export interface LogContext {
   requestId?: string;
   userId?: string;
   service?: string;
+  /** Logger / module name, used for per-module level thresholds */
+  module?: string;
   [key: string]: unknown;
 }
 
+export interface LoggingOptions {
+  /** Minimum level (default: LOG_LEVEL, else info in production, debug otherwise) */
+  level?: LogSeverity;
+  /** Per-module minimum levels (default: LOG_MODULE_LEVELS) */
+  moduleLevels?: Record<string, LogSeverity>;
+  /** Destinations (default: console per LOG_FORMAT, plus LOG_FILE if set) */
+  transports?: LogTransport[];
+  /** Service name in records (default: SERVICE_NAME) */
+  service?: string;
+  /** Instance ID in records (default: SERVICE_INSTANCE_ID or <service>-<random>) */
+  instanceId?: string;
+  /** Secret / PII redaction rules (default: LOG_REDACT_* config); false disables it */
+  redaction?: RedactorOptions | false;
+}
+
+function severityRank(level: LogSeverity): number {
+  return LOG_SEVERITY.indexOf(level);
+}
+
+/**
+ * Parse `Module=level` entries (LOG_MODULE_LEVELS)
+ * @throws ConfigValidationError on a malformed entry or unknown level
+ */
+function parseModuleLevels(entries: string[]): Record<string, LogSeverity> {
+  const levels: Record<string, LogSeverity> = {};
+  for (const entry of entries) {
+    const [module, level] = entry.split('=').map((part) => part.trim());
+    if (!module || !LOG_SEVERITY.includes(level as LogSeverity)) {
+      throw new ConfigValidationError([
+        {
+          key: 'LOG_MODULE_LEVELS',
+          message: `expected Module=${LOG_SEVERITY.join('|')}, got ${JSON.stringify(entry)}`,
+        },
+      ]);
+    }
+    levels[module] = level as LogSeverity;
+  }
+  return levels;
+}
+
+function toRecordError(error: unknown): LogRecordError {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { message: String(error) };
+}
+
+function toMessage(message: unknown): string {
+  if (typeof message === 'string') return message;
+  if (message instanceof Error) return message.message;
+  try {
+    return JSON.stringify(message);
+  } catch {
+    return String(message);
+  }
+}
+
+/**
+ * Settings shared by a logger and all of its children
+ */
+interface LoggerCore {
+  service: string;
+  instanceId: string;
+  level: LogSeverity;
+  moduleLevels: Record<string, LogSeverity>;
+  transports: LogTransport[];
+  redactor?: Redactor;
+}
+
 /**
  * Structured logging service with context support
+ *
+ * Every entry becomes a LogRecord (level, ts, service, instanceId,
+ * requestId, traceId, spanId, module, msg, err, context) handed to the configured
+ * transports. requestId, userId and traceparent of the current request
+ * are added automatically (explicit context values win). Secrets and PII
+ * are redacted before any transport sees the record.
+ *
+ * Also usable as the application logger, so Nest's own `Logger` calls
+ * go through the same transports and thresholds:
+ * ```ts
+ * const app = await NestFactory.create(AppModule, { bufferLogs: true });
+ * app.useLogger(app.get(LoggingService));
+ * ```
  */
 @Injectable()
-export class LoggingService {
-  private readonly logger = new Logger('App');
-  private readonly isProduction = process.env.NODE_ENV === 'production';
+export class LoggingService implements LoggerService, OnModuleDestroy {
+  private readonly core: LoggerCore;
+  private bindings: LogContext = {};
+
+  /**
+   * @throws ConfigValidationError if a LOG_* env var is malformed
+   */
+  constructor(
+    @Optional()
+    @Inject(LOGGING_OPTIONS)
+    options: LoggingOptions = {},
+    @Optional() configService?: ConfigService,
+    @Optional() @Inject(COMMON_ENV) commonEnv?: CommonEnvConfig,
+  ) {
+    const get = commonEnvReader(commonEnv, configService);
+    const env = commonEnv ?? validateConfig(LOGGING_ENV_SCHEMA, get);
+    const isProduction = env.NODE_ENV === 'production';
+    const service = options.service ?? env.SERVICE_NAME;
+
+    this.core = {
+      service,
+      instanceId:
+        options.instanceId ?? env.SERVICE_INSTANCE_ID ?? getDefaultInstanceId(service),
+      level: options.level ?? env.LOG_LEVEL ?? (isProduction ? 'info' : 'debug'),
+      moduleLevels: options.moduleLevels ?? parseModuleLevels(env.LOG_MODULE_LEVELS ?? []),
+      transports: options.transports ?? [
+        (env.LOG_FORMAT ?? (isProduction ? 'json' : 'pretty')) === 'json'
+          ? new JsonLinesTransport()
+          : new ConsolePrettyTransport(),
+        ...(env.LOG_FILE
+          ? [
+              new RotatingFileTransport({
+                path: env.LOG_FILE,
+                maxSize: env.LOG_FILE_MAX_SIZE,
+                maxFiles: env.LOG_FILE_MAX_FILES,
+              }),
+            ]
+          : []),
+      ],
+      redactor:
+        options.redaction === false
+          ? undefined
+          : new Redactor(options.redaction ?? redactorOptionsFromConfig(get)),
+    };
+  }
+
+  /**
+   * Logger that adds `bindings` to every entry (a string sets the module)
+   *
+   * @example
+   * ```ts
+   * const log = this.logger.child('BookingService').child({ bookingId });
+   * log.log('Booking confirmed');
+   * ```
+   */
+  child(bindings: LogContext | string): LoggingService {
+    const child = Object.create(this) as LoggingService;
+    child.bindings = {
+      ...this.bindings,
+      ...(typeof bindings === 'string' ? { module: bindings } : bindings),
+    };
+    return child;
+  }
+
+  /**
+   * Whether entries of `level` from `module` would be written
+   */
+  isLevelEnabled(level: LogSeverity, module?: string): boolean {
+    const threshold =
+      (module && this.core.moduleLevels[module]) || this.core.level;
+    return severityRank(level) <= severityRank(threshold);
+  }
 
   /**
    * Log with context
    */
-  log(message: string, context?: LogContext): void {
-    if (this.isProduction) {
-      // JSON format for production (easier to parse)
-      console.log(JSON.stringify({ level: 'info', message, ...context, timestamp: new Date().toISOString() }));
-    } else {
-      this.logger.log(this.formatMessage(message, context));
-    }
+  log(message: unknown, context?: LogContext | string): void {
+    this.write('info', message, context);
   }
 
   /**
-   * Debug log (only in non-production)
+   * Debug log (hidden at the default production level)
    */
-  debug(message: string, context?: LogContext): void {
-    if (!this.isProduction) {
-      this.logger.debug(this.formatMessage(message, context));
-    }
+  debug(message: unknown, context?: LogContext | string): void {
+    this.write('debug', message, context);
+  }
+
+  /**
+   * Verbose log
+   */
+  verbose(message: unknown, context?: LogContext | string): void {
+    this.write('verbose', message, context);
   }
 
   /**
    * Warning log
    */
-  warn(message: string, context?: LogContext): void {
-    if (this.isProduction) {
-      console.warn(JSON.stringify({ level: 'warn', message, ...context, timestamp: new Date().toISOString() }));
-    } else {
-      this.logger.warn(this.formatMessage(message, context));
-    }
+  warn(message: unknown, context?: LogContext | string): void {
+    this.write('warn', message, context);
   }
 
   /**
    * Error log
    */
-  error(message: string, trace?: string, context?: LogContext): void {
-    if (this.isProduction) {
-      console.error(JSON.stringify({ 
-        level: 'error', 
-        message, 
-        trace, 
-        ...context, 
-        timestamp: new Date().toISOString() 
-      }));
-    } else {
-      this.logger.error(this.formatMessage(message, context), trace);
+  error(message: unknown, trace?: string, context?: LogContext | string): void {
+    // Nest passes error(message, context) when there is no stack
+    if (context === undefined && trace && !STACK_PATTERN.test(trace)) {
+      this.write('error', message, trace);
+      return;
     }
+    this.write('error', message, context, trace);
   }
 
-  private formatMessage(message: string, context?: LogContext): string {
-    if (!context) return message;
-    
-    const contextStr = Object.entries(context)
-      .filter(([, v]) => v !== undefined)
-      .map(([k, v]) => `${k}=${v}`)
-      .join(' ');
-    
-    return contextStr ? `${message} | ${contextStr}` : message;
+  /**
+   * Fatal log
+   */
+  fatal(message: unknown, context?: LogContext | string): void {
+    this.write('fatal', message, context);
   }
-}
 
+  async onModuleDestroy(): Promise<void> {
+    for (const transport of this.core.transports) {
+      await transport.close?.();
+    }
+  }
+
+  private write(
+    level: LogSeverity,
+    message: unknown,
+    context?: LogContext | string,
+    trace?: string,
+  ): void {
+    const {
+      requestId,
+      module,
+      service: _service,
+      user: _user,
+      traceparent: _traceparent,
+      tracestate: _tracestate,
+      traceId,
+      err,
+      ...rest
+    }: LogContext = {
+      ...getCorrelationContext(),
+      ...this.bindings,
+      ...(typeof context === 'string' ? { module: context } : context),
+    };
+
+    if (!this.isLevelEnabled(level, module)) return;
+
+    const error =
+      message instanceof Error
+        ? toRecordError(message)
+        : err !== undefined
+          ? toRecordError(err)
+          : trace
+            ? { stack: trace }
+            : undefined;
+
+    const span = getActiveSpan();
+    const activeTraceId = span?.traceId ?? (traceId as string | undefined);
+    const fields = Object.fromEntries(
+      Object.entries(rest).filter(([, v]) => v !== undefined),
+    );
+
+    const record: LogRecord = {
+      level,
+      ts: new Date().toISOString(),
+      service: this.core.service,
+      instanceId: this.core.instanceId,
+      ...(requestId && { requestId }),
+      ...(activeTraceId && { traceId: activeTraceId }),
+      ...(span && { spanId: span.spanId }),
+      ...(module && { module }),
+      msg: toMessage(message),
+      ...(error && { err: error }),
+      ...(Object.keys(fields).length > 0 && { context: fields }),
+    };
+
+    const redacted = this.core.redactor?.redactRecord(record) ?? record;
+
+    for (const transport of this.core.transports) {
+      try {
+        transport.write(redacted);
+      } catch (e) {
+        // A broken transport must not break the caller (or the other transports)
+        process.stderr.write(
+          `[LoggingService] transport ${transport.name} failed: ${(e as Error).message}\n`,
+        );
+      }
+    }
+  }
+}
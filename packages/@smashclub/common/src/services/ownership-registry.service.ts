@@ -0,0 +1,43 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OwnedResourceType, OwnershipResolver } from '../types/ownership.type';
+
+/**
+ * Registry of ownership resolvers, one per resource type
+ *
+ * @example
+ * ```ts
+ * @Injectable()
+ * export class BookingService implements OnModuleInit {
+ *   constructor(private readonly ownership: OwnershipRegistry) {}
+ *
+ *   onModuleInit() {
+ *     this.ownership.register(OWNED_RESOURCE.BOOKING, {
+ *       resolveOwnerIds: async (id) => {
+ *         const booking = await this.repo.findById(id);
+ *         return booking ? [booking.userId] : null;
+ *       },
+ *     });
+ *   }
+ * }
+ * ```
+ */
+@Injectable()
+export class OwnershipRegistry {
+  private readonly logger = new Logger(OwnershipRegistry.name);
+  private readonly resolvers = new Map<string, OwnershipResolver>();
+
+  register(resource: OwnedResourceType, resolver: OwnershipResolver): void {
+    if (this.resolvers.has(resource)) {
+      this.logger.warn(`Replacing ownership resolver for "${resource}"`);
+    }
+    this.resolvers.set(resource, resolver);
+  }
+
+  get(resource: OwnedResourceType): OwnershipResolver | undefined {
+    return this.resolvers.get(resource);
+  }
+
+  has(resource: OwnedResourceType): boolean {
+    return this.resolvers.has(resource);
+  }
+}
@@ -0,0 +1,123 @@
+import { Injectable } from '@nestjs/common';
+import { PERMISSIONS, ROLE_PERMISSIONS } from '../constants/permissions.constant';
+import { RequestUser } from '../types/request-user.type';
+import {
+  hasPermissions,
+  permissionMatches,
+  PermissionMatchMode,
+} from '../utils/permission.util';
+
+/**
+ * Effective role/permission matrix, for audits
+ */
+export interface PermissionMatrix {
+  generatedAt: string;
+  /** Permissions granted to each role, as registered */
+  roles: Record<string, string[]>;
+  /** Every known permission -> roles that hold it (wildcards and scopes expanded) */
+  permissions: Record<string, string[]>;
+}
+
+/**
+ * Role -> permission registry
+ *
+ * Seeded with ROLE_PERMISSIONS; services may grant extra permissions
+ * at startup. A user's effective permissions are the union of the
+ * permissions of their roles and any permission claims on RequestUser.
+ */
+@Injectable()
+export class PermissionRegistry {
+  private readonly rolePermissions = new Map<string, Set<string>>();
+  private readonly knownPermissions = new Set<string>();
+
+  constructor() {
+    for (const value of Object.values(PERMISSIONS)) {
+      if (value !== PERMISSIONS.ALL) this.knownPermissions.add(value);
+    }
+    for (const [role, permissions] of Object.entries(ROLE_PERMISSIONS)) {
+      this.grant(role, ...permissions);
+    }
+  }
+
+  /**
+   * Grant permissions to a role
+   */
+  grant(role: string, ...permissions: string[]): void {
+    const key = role.trim().toUpperCase();
+    const set = this.rolePermissions.get(key) ?? new Set<string>();
+    for (const permission of permissions) {
+      const normalized = permission.trim().toLowerCase();
+      set.add(normalized);
+      if (!normalized.includes('*')) this.knownPermissions.add(normalized);
+    }
+    this.rolePermissions.set(key, set);
+  }
+
+  /**
+   * Revoke permissions from a role
+   */
+  revoke(role: string, ...permissions: string[]): void {
+    const set = this.rolePermissions.get(role.trim().toUpperCase());
+    if (!set) return;
+    for (const permission of permissions) {
+      set.delete(permission.trim().toLowerCase());
+    }
+  }
+
+  /**
+   * Permissions granted to a single role
+   */
+  getRolePermissions(role: string): string[] {
+    return Array.from(this.rolePermissions.get(role.trim().toUpperCase()) ?? []);
+  }
+
+  /**
+   * Effective permissions of a user: role permissions + permission claims
+   */
+  getEffectivePermissions(
+    user: Pick<RequestUser, 'roles' | 'permissions'> | null | undefined,
+  ): string[] {
+    if (!user) return [];
+
+    const effective = new Set<string>();
+    for (const role of user.roles || []) {
+      for (const permission of this.getRolePermissions(role)) {
+        effective.add(permission);
+      }
+    }
+    for (const claim of user.permissions || []) {
+      effective.add(claim.trim().toLowerCase());
+    }
+    return Array.from(effective);
+  }
+
+  /**
+   * Check a user against required permissions
+   */
+  can(
+    user: Pick<RequestUser, 'roles' | 'permissions'> | null | undefined,
+    required: string[],
+    mode: PermissionMatchMode = 'all',
+  ): boolean {
+    return hasPermissions(this.getEffectivePermissions(user), required, mode);
+  }
+
+  /**
+   * Dump the effective role/permission matrix
+   */
+  dumpMatrix(): PermissionMatrix {
+    const roles: Record<string, string[]> = {};
+    for (const [role, set] of this.rolePermissions) {
+      roles[role] = Array.from(set).sort();
+    }
+
+    const permissions: Record<string, string[]> = {};
+    for (const permission of Array.from(this.knownPermissions).sort()) {
+      permissions[permission] = Object.keys(roles).filter((role) =>
+        roles[role].some((granted) => permissionMatches(granted, permission)),
+      );
+    }
+
+    return { generatedAt: new Date().toISOString(), roles, permissions };
+  }
+}
@@ -1,12 +1,42 @@
 import { Logger } from '@nestjs/common';
+import { getRequestId } from '../utils/correlation-context.util';
+import { getCommonMetrics } from '../utils/common-metrics.util';
+import { getDefaultRedactor, Redactor } from '../utils/redaction.util';
+import { getTracer } from '../utils/tracer.util';
+
+/**
+ * Run `fn` in a client span named `<repository>.<operation>` when tracing is on
+ */
+function traced<T>(repository: string, operation: string, fn: () => Promise<T>): () => Promise<T> {
+  const tracer = getTracer();
+  if (!tracer.enabled) return fn;
+
+  return () =>
+    tracer.withSpan(`${repository}.${operation}`, () => fn(), {
+      kind: 'client',
+      attributes: { 'db.operation': operation, 'code.namespace': repository },
+    });
+}
+
+/**
+ * `[requestId] ` of the current request, or '' outside a request
+ */
+function requestPrefix(): string {
+  const requestId = getRequestId();
+  return requestId ? `[${requestId}] ` : '';
+}
 
 export interface RepositoryLoggerOptions {
   /** Enable logging (default: false in production) */
   enabled?: boolean;
   /** Log slow queries (threshold in ms, default: 1000) */
   slowQueryThreshold?: number;
-  /** Log query parameters (default: false in production) */
+  /** Log query parameters, with secrets and PII redacted (default: false in production) */
   logParams?: boolean;
+  /** Redaction rules for parameters (default: process-wide redactor) */
+  redactor?: Redactor;
+  /** Record repository_query_duration_seconds, even when logging is off (default: true) */
+  metrics?: boolean;
 }
 
 /**
@@ -19,13 +49,18 @@ export interface RepositoryLoggerOptions {
  * In development:
  * - Logs all queries with parameters
  * - Helps with debugging
+ *
+ * Messages are prefixed with the current request id when there is one.
+ * Latency is recorded in repository_query_duration_seconds in both modes,
+ * and each call gets a span when tracing is on.
  */
 export class RepositoryLogger {
   private readonly logger: Logger;
-  private readonly options: Required<RepositoryLoggerOptions>;
+  private readonly options: Required<Omit<RepositoryLoggerOptions, 'redactor'>>;
+  private readonly redactor: Redactor;
 
   constructor(
-    repositoryName: string,
+    private readonly repositoryName: string,
     options: RepositoryLoggerOptions = {},
   ) {
     this.logger = new Logger(repositoryName);
@@ -35,7 +70,9 @@ export class RepositoryLogger {
       enabled: options.enabled ?? !isProduction,
       slowQueryThreshold: options.slowQueryThreshold ?? 1000,
       logParams: options.logParams ?? !isProduction,
+      metrics: options.metrics ?? true,
     };
+    this.redactor = options.redactor ?? getDefaultRedactor();
   }
 
   /**
@@ -46,11 +83,12 @@ export class RepositoryLogger {
     params: Record<string, unknown> | null,
     fn: () => Promise<T>,
   ): Promise<T> {
-    if (!this.options.enabled) {
-      return fn();
+    const run = traced(this.repositoryName, operation, fn);
+    if (!this.options.enabled && !this.options.metrics) {
+      return run();
     }
 
-    return this.executeWithTiming(operation, params, fn);
+    return this.executeWithTiming(operation, params, run);
   }
 
   /**
@@ -62,19 +100,30 @@ export class RepositoryLogger {
     fn: () => Promise<T>,
   ): Promise<T> {
     const startTime = Date.now();
-    
+    const stopTimer = this.options.metrics
+      ? getCommonMetrics().repositoryQueryDuration.startTimer({
+          repository: this.repositoryName,
+          operation,
+        })
+      : undefined;
+
     try {
       const result = await fn();
       const duration = Date.now() - startTime;
+      stopTimer?.({ outcome: 'success' });
+
+      if (!this.options.enabled) {
+        return result;
+      }
 
       if (duration > this.options.slowQueryThreshold) {
         this.logger.warn(
-          `SLOW QUERY: ${operation} took ${duration}ms` +
+          `${requestPrefix()}SLOW QUERY: ${operation} took ${duration}ms` +
             (this.options.logParams && params ? ` | params: ${this.safeStringify(params)}` : ''),
         );
-      } else if (this.options.enabled && process.env.NODE_ENV !== 'production') {
+      } else if (process.env.NODE_ENV !== 'production') {
         this.logger.debug(
-          `${operation} (${duration}ms)` +
+          `${requestPrefix()}${operation} (${duration}ms)` +
             (this.options.logParams && params ? ` | params: ${this.safeStringify(params)}` : ''),
         );
       }
@@ -82,21 +131,25 @@ export class RepositoryLogger {
       return result;
     } catch (error) {
       const duration = Date.now() - startTime;
-      this.logger.error(
-        `FAILED: ${operation} (${duration}ms)` +
-          (this.options.logParams && params ? ` | params: ${this.safeStringify(params)}` : ''),
-        (error as Error).stack,
-      );
+      stopTimer?.({ outcome: 'error' });
+
+      if (this.options.enabled) {
+        this.logger.error(
+          `${requestPrefix()}FAILED: ${operation} (${duration}ms)` +
+            (this.options.logParams && params ? ` | params: ${this.safeStringify(params)}` : ''),
+          (error as Error).stack,
+        );
+      }
       throw error;
     }
   }
 
   /**
-   * Safely stringify params (truncate long values)
+   * Safely stringify params (redact secrets / PII, truncate long values)
    */
   private safeStringify(obj: Record<string, unknown>): string {
     try {
-      return JSON.stringify(obj, (_, value) => {
+      return JSON.stringify(this.redactor.redact(obj), (_, value) => {
         if (typeof value === 'string' && value.length > 100) {
           return value.substring(0, 100) + '...';
         }
@@ -110,6 +163,8 @@ export class RepositoryLogger {
 
 /**
  * Decorator for logging repository methods
+ * (latency is also recorded in repository_query_duration_seconds, and a
+ * span is created when tracing is on)
  * 
  * @example
  * ```ts
@@ -130,7 +185,7 @@ export function LogQuery(operation?: string) {
     const originalMethod = descriptor.value;
     const methodName = operation || propertyKey;
 
-    descriptor.value = async function (...args: any[]) {
+    const logged = async function (this: unknown, ...args: any[]) {
       const isProduction = process.env.NODE_ENV === 'production';
       
       // Skip logging in production unless slow
@@ -141,28 +196,45 @@ export function LogQuery(operation?: string) {
           const duration = Date.now() - startTime;
           
           if (duration > 1000) {
-            console.warn(`[SLOW] ${target.constructor.name}.${methodName}: ${duration}ms`);
+            console.warn(`${requestPrefix()}[SLOW] ${target.constructor.name}.${methodName}: ${duration}ms`);
           }
           
           return result;
         } catch (error) {
-          console.error(`[ERROR] ${target.constructor.name}.${methodName}:`, error);
+          console.error(`${requestPrefix()}[ERROR] ${target.constructor.name}.${methodName}:`, error);
           throw error;
         }
       }
 
       // Development logging
       const startTime = Date.now();
-      console.log(`[QUERY] ${target.constructor.name}.${methodName} started`);
+      console.log(`${requestPrefix()}[QUERY] ${target.constructor.name}.${methodName} started`);
       
       try {
         const result = await originalMethod.apply(this, args);
         const duration = Date.now() - startTime;
-        console.log(`[QUERY] ${target.constructor.name}.${methodName} completed (${duration}ms)`);
+        console.log(`${requestPrefix()}[QUERY] ${target.constructor.name}.${methodName} completed (${duration}ms)`);
         return result;
       } catch (error) {
         const duration = Date.now() - startTime;
-        console.error(`[ERROR] ${target.constructor.name}.${methodName} failed (${duration}ms):`, error);
+        console.error(`${requestPrefix()}[ERROR] ${target.constructor.name}.${methodName} failed (${duration}ms):`, error);
+        throw error;
+      }
+    };
+
+    descriptor.value = async function (...args: any[]) {
+      const stopTimer = getCommonMetrics().repositoryQueryDuration.startTimer({
+        repository: target.constructor.name,
+        operation: methodName,
+      });
+      try {
+        const result = await traced(target.constructor.name, methodName, () =>
+          logged.apply(this, args),
+        )();
+        stopTimer({ outcome: 'success' });
+        return result;
+      } catch (error) {
+        stopTimer({ outcome: 'error' });
         throw error;
       }
     };
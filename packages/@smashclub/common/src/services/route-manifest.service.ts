@@ -0,0 +1,182 @@
+import {
+  Inject,
+  Injectable,
+  Optional,
+  RequestMethod,
+  Type,
+} from '@nestjs/common';
+import { METHOD_METADATA, PATH_METADATA } from '@nestjs/common/constants';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { ThrottlerOptions } from '@nestjs/throttler';
+import {
+  isFeatureEnabled,
+  SMASHCLUB_COMMON_OPTIONS,
+  SmashClubCommonModuleOptions,
+} from '../common-module.options';
+import { ALLOW_SERVICES_KEY } from '../decorators/allow-services.decorator';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { PERMISSIONS_KEY, RequiredPermissions } from '../decorators/require-permissions.decorator';
+import { MIN_ROLE_KEY, ROLES_KEY, ROLES_OPTIONS_KEY } from '../decorators/roles.decorator';
+import { RouteManifestEntry, RouteThrottle } from '../types/route-manifest.type';
+import { RoleCheckOptions } from '../utils/role.util';
+
+/** Metadata keys set by @Throttle() / @SkipThrottle() (+ throttler name) */
+const THROTTLER_LIMIT = 'THROTTLER:LIMIT';
+const THROTTLER_TTL = 'THROTTLER:TTL';
+const THROTTLER_SKIP = 'THROTTLER:SKIP';
+
+type Handler = (...args: unknown[]) => unknown;
+type ThrottlerLimits = Partial<Pick<ThrottlerOptions, 'name' | 'limit' | 'ttl'>>;
+
+function joinPath(...segments: string[]): string {
+  const path = segments
+    .map((s) => s.replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .join('/');
+  return `/${path}`;
+}
+
+function asArray(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [''];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Lists every controller route with its auth and throttle requirements,
+ * for the manifest sent to the gateway at registration
+ */
+@Injectable()
+export class RouteManifestService {
+  private routes?: RouteManifestEntry[];
+
+  constructor(
+    private readonly discovery: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+    @Optional()
+    @Inject(SMASHCLUB_COMMON_OPTIONS)
+    private readonly options: SmashClubCommonModuleOptions = {},
+  ) {}
+
+  /**
+   * Routes of every controller (computed once; controllers don't change
+   * after bootstrap)
+   * @param globalPrefix Prefix set with app.setGlobalPrefix()
+   */
+  getRoutes(globalPrefix = ''): RouteManifestEntry[] {
+    this.routes ??= this.discoverRoutes();
+    return globalPrefix
+      ? this.routes.map((route) => ({ ...route, path: joinPath(globalPrefix, route.path) }))
+      : this.routes;
+  }
+
+  private discoverRoutes(): RouteManifestEntry[] {
+    const routes: RouteManifestEntry[] = [];
+
+    for (const wrapper of this.discovery.getControllers()) {
+      const controller = wrapper.metatype as Type<unknown> | undefined;
+      if (!controller || !wrapper.instance) continue;
+
+      const prototype = Object.getPrototypeOf(wrapper.instance) as Record<string, unknown>;
+      const controllerPaths = asArray(Reflect.getMetadata(PATH_METADATA, controller));
+
+      for (const methodName of this.metadataScanner.getAllMethodNames(prototype)) {
+        const handler = prototype[methodName] as Handler;
+        const requestMethod = Reflect.getMetadata(METHOD_METADATA, handler) as RequestMethod | undefined;
+        if (requestMethod === undefined) continue;
+
+        const details = this.describe(handler, controller);
+        for (const controllerPath of controllerPaths) {
+          for (const methodPath of asArray(Reflect.getMetadata(PATH_METADATA, handler))) {
+            routes.push({
+              method: RequestMethod[requestMethod],
+              path: joinPath(controllerPath, methodPath),
+              handler: `${controller.name}.${methodName}`,
+              ...details,
+            });
+          }
+        }
+      }
+    }
+    return routes;
+  }
+
+  private describe(
+    handler: Handler,
+    controller: Type<unknown>,
+  ): Pick<RouteManifestEntry, 'public' | 'roles' | 'permissions' | 'allowServices' | 'throttle'> {
+    const targets = [handler, controller];
+    const isPublic = !!this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets);
+
+    const required = this.reflector.getAllAndOverride<string[]>(ROLES_KEY, targets) ?? [];
+    const roleOptions =
+      this.reflector.getAllAndOverride<RoleCheckOptions>(ROLES_OPTIONS_KEY, targets) ?? {};
+    const minRole = this.reflector.getAllAndOverride<string>(MIN_ROLE_KEY, targets);
+
+    const roles =
+      required.length > 0 || minRole
+        ? {
+            ...(required.length > 0 &&
+              (roleOptions.mode === 'all' ? { allOf: required } : { anyOf: required })),
+            ...(minRole && { min: minRole }),
+          }
+        : undefined;
+
+    const requiredPermissions = this.reflector.getAllAndOverride<RequiredPermissions>(PERMISSIONS_KEY, targets);
+    const permissions = requiredPermissions?.permissions.length
+      ? requiredPermissions.mode === 'any'
+        ? { anyOf: requiredPermissions.permissions }
+        : { allOf: requiredPermissions.permissions }
+      : undefined;
+    const allowServices = this.reflector.getAllAndOverride<string[]>(ALLOW_SERVICES_KEY, targets);
+
+    const throttle = this.throttlers()
+      .map((throttler) => this.throttleFor(throttler, targets))
+      .filter((t): t is RouteThrottle => !!t);
+
+    return {
+      public: isPublic,
+      ...(roles && { roles }),
+      ...(permissions && { permissions }),
+      ...(allowServices?.length && { allowServices }),
+      ...(throttle.length > 0 && { throttle }),
+    };
+  }
+
+  /**
+   * Throttlers applied by the global UserThrottleGuard; a plain 'default'
+   * one (route overrides only) when the throttling feature is off
+   */
+  private throttlers(): ThrottlerLimits[] {
+    const throttling = this.options.throttling;
+    if (!throttling || !isFeatureEnabled(throttling)) {
+      return [{ name: 'default' }];
+    }
+    return (
+      throttling.throttlers ?? [
+        { name: 'default', ttl: throttling.ttl ?? 60_000, limit: throttling.limit ?? 100 },
+      ]
+    );
+  }
+
+  private throttleFor(
+    throttler: ThrottlerLimits,
+    targets: Array<Handler | Type<unknown>>,
+  ): RouteThrottle | undefined {
+    const name = throttler.name ?? 'default';
+    if (this.reflector.getAllAndOverride<boolean>(THROTTLER_SKIP + name, targets)) {
+      return { name, skip: true };
+    }
+
+    const limit = this.reflector.getAllAndOverride<unknown>(THROTTLER_LIMIT + name, targets) ?? throttler.limit;
+    const ttl = this.reflector.getAllAndOverride<unknown>(THROTTLER_TTL + name, targets) ?? throttler.ttl;
+    if (limit === undefined && ttl === undefined) return undefined;
+
+    // Limits resolved per request (functions) can't be published
+    return {
+      name,
+      ...(typeof limit === 'number' && { limit }),
+      ...(typeof ttl === 'number' && { ttl }),
+    };
+  }
+}
@@ -0,0 +1,365 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { COMMON_ENV } from '../config/common-env.provider';
+import { COMMON_ENV_SCHEMA, CommonEnvConfig } from '../config/common-env.schema';
+import { pickConfigSchema, validateConfig } from '../config/config-schema.util';
+import { LoadBalancingStrategy, ServiceInstance } from '../types/service-discovery.type';
+import { getCommonMetrics } from '../utils/common-metrics.util';
+import {
+  getCorrelationContext,
+  getCorrelationHeaders,
+} from '../utils/correlation-context.util';
+import { createLoadBalancer, LoadBalancer } from '../utils/load-balancer.util';
+import { isServiceIdentity } from '../utils/service-identity.util';
+import { signIdentity } from '../utils/signed-identity.util';
+import { getTracer } from '../utils/tracer.util';
+
+export const SERVICE_CLIENT_OPTIONS = 'SERVICE_CLIENT_OPTIONS';
+
+const SERVICE_CLIENT_ENV_SCHEMA = pickConfigSchema(COMMON_ENV_SCHEMA, [
+  'GATEWAY_URL',
+  'GATEWAY_SIGNING_SECRETS',
+  'SERVICE_DISCOVERY_CACHE_TTL',
+  'SERVICE_DISCOVERY_STRATEGY',
+  'SERVICE_CLIENT_TIMEOUT',
+]);
+
+/** Statuses that say the instance (not the request) is in trouble */
+const INSTANCE_FAILURE_STATUSES = [502, 503, 504];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+export interface ServiceClientOptions {
+  /** Gateway serving GET /registry (default: GATEWAY_URL) */
+  gatewayUrl?: string;
+  /** How long instance lists are reused, in ms (default: SERVICE_DISCOVERY_CACHE_TTL) */
+  cacheTtlMs?: number;
+  /** Default strategy (default: SERVICE_DISCOVERY_STRATEGY) */
+  strategy?: LoadBalancingStrategy;
+  /** Per-service strategy overrides, e.g. { 'court-service': 'weighted' } */
+  strategies?: Record<string, LoadBalancingStrategy>;
+  /** Request timeout in ms (default: SERVICE_CLIENT_TIMEOUT) */
+  timeoutMs?: number;
+  /** Consecutive failures before an instance is ejected (default: 3) */
+  ejectAfterFailures?: number;
+  /** How long an ejected instance is skipped, in ms (default: 30000) */
+  ejectionMs?: number;
+  /** Secret for re-signing the current user's identity (default: first GATEWAY_SIGNING_SECRETS) */
+  signingSecret?: string;
+  /** Forward the current user as signed x-user-* headers (default: true) */
+  forwardIdentity?: boolean;
+}
+
+/**
+ * A call to another service failed: no instance, network error or non-2xx
+ */
+export class ServiceClientError extends Error {
+  constructor(
+    message: string,
+    public readonly service: string,
+    public readonly status?: number,
+    public readonly instanceId?: string,
+    public readonly body?: string,
+  ) {
+    super(message);
+    this.name = 'ServiceClientError';
+  }
+}
+
+interface InstanceState {
+  outstanding: number;
+  failures: number;
+  ejectedUntil: number;
+}
+
+/**
+ * HTTP client for calling other services directly, without going
+ * through the gateway
+ *
+ * Instances come from the gateway's GET /registry?service= (cached for
+ * cacheTtlMs, stale list kept if the gateway is unreachable). Instances
+ * failing ejectAfterFailures times in a row are skipped for ejectionMs.
+ * Every request carries the request id, trace context and, when a user is
+ * authenticated, their identity re-signed with the gateway secret.
+ *
+ * @example
+ * ```ts
+ * const court = await this.services.json<Court>('court-service', `/courts/${id}`);
+ * await this.services.request('notification-service', '/notifications', {
+ *   method: 'POST',
+ *   body: JSON.stringify(payload),
+ * });
+ * ```
+ */
+@Injectable()
+export class ServiceClient {
+  private readonly logger = new Logger(ServiceClient.name);
+  private readonly gatewayUrl: string;
+  private readonly cacheTtlMs: number;
+  private readonly timeoutMs: number;
+  private readonly ejectAfterFailures: number;
+  private readonly ejectionMs: number;
+  private readonly signingSecret?: string;
+  private readonly forwardIdentity: boolean;
+  private readonly defaultBalancer: LoadBalancer;
+  private readonly balancers = new Map<string, LoadBalancer>();
+  private readonly cache = new Map<string, { instances: ServiceInstance[]; expiresAt: number }>();
+  private readonly refreshing = new Map<string, Promise<ServiceInstance[]>>();
+  private readonly states = new Map<string, InstanceState>();
+
+  /**
+   * @throws ConfigValidationError if a discovery env var is malformed
+   */
+  constructor(
+    @Optional()
+    @Inject(SERVICE_CLIENT_OPTIONS)
+    options: ServiceClientOptions = {},
+    @Optional() configService?: ConfigService,
+    @Optional() @Inject(COMMON_ENV) commonEnv?: CommonEnvConfig,
+  ) {
+    const env =
+      commonEnv ??
+      validateConfig(SERVICE_CLIENT_ENV_SCHEMA, (key) => configService?.get(key) ?? process.env[key]);
+    this.gatewayUrl = options.gatewayUrl ?? env.GATEWAY_URL;
+    this.cacheTtlMs = options.cacheTtlMs ?? env.SERVICE_DISCOVERY_CACHE_TTL;
+    this.timeoutMs = options.timeoutMs ?? env.SERVICE_CLIENT_TIMEOUT;
+    this.ejectAfterFailures = options.ejectAfterFailures ?? 3;
+    this.ejectionMs = options.ejectionMs ?? 30_000;
+    this.signingSecret = options.signingSecret ?? env.GATEWAY_SIGNING_SECRETS?.[0];
+    this.forwardIdentity = options.forwardIdentity ?? true;
+    this.defaultBalancer = createLoadBalancer(options.strategy ?? env.SERVICE_DISCOVERY_STRATEGY);
+    for (const [service, strategy] of Object.entries(options.strategies ?? {})) {
+      this.balancers.set(service, createLoadBalancer(strategy));
+    }
+  }
+
+  /**
+   * Instances of a service (cached for cacheTtlMs)
+   * @throws ServiceClientError if the gateway can't be reached and nothing is cached
+   */
+  async getInstances(service: string): Promise<ServiceInstance[]> {
+    const cached = this.cache.get(service);
+    if (cached && cached.expiresAt > Date.now()) return cached.instances;
+
+    let refreshing = this.refreshing.get(service);
+    if (!refreshing) {
+      refreshing = this.fetchInstances(service)
+        .then((instances) => {
+          this.cache.set(service, { instances, expiresAt: Date.now() + this.cacheTtlMs });
+          return instances;
+        })
+        .catch((error: Error) => {
+          if (!cached) throw error;
+          this.logger.warn(`Using stale instances of ${service}: ${error.message}`);
+          return cached.instances;
+        })
+        .finally(() => this.refreshing.delete(service));
+      this.refreshing.set(service, refreshing);
+    }
+    return refreshing;
+  }
+
+  /** Drop cached instance lists (all services when none is given) */
+  invalidate(service?: string): void {
+    if (service) {
+      this.cache.delete(service);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  /**
+   * Send a request to one instance of `service`
+   * Non-2xx responses are returned as-is; 502/503/504 and network errors
+   * count against the instance.
+   * @param path Path on the instance, e.g. /courts/42
+   * @throws ServiceClientError when no instance is available or the request fails
+   */
+  async request(service: string, path: string, init: RequestInit = {}): Promise<Response> {
+    const instance = await this.pick(service);
+    const url = `${instance.baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+    const method = (init.method ?? 'GET').toUpperCase();
+    const tracer = getTracer();
+
+    const send = async (): Promise<Response> => {
+      const state = this.state(service, instance.instanceId);
+      const stopTimer = getCommonMetrics().serviceClientRequestDuration.startTimer({ service });
+      const signal = init.signal
+        ? AbortSignal.any([init.signal, AbortSignal.timeout(this.timeoutMs)])
+        : AbortSignal.timeout(this.timeoutMs);
+
+      state.outstanding++;
+      try {
+        const response = await fetch(url, { ...init, method, headers: this.headers(init.headers), signal });
+        stopTimer({ outcome: response.status });
+        if (INSTANCE_FAILURE_STATUSES.includes(response.status)) {
+          this.recordFailure(service, instance, `status ${response.status}`);
+        } else {
+          state.failures = 0;
+        }
+        return response;
+      } catch (error) {
+        stopTimer({ outcome: 'error' });
+        this.recordFailure(service, instance, (error as Error).message);
+        throw new ServiceClientError(
+          `${method} ${service}${path} failed: ${(error as Error).message}`,
+          service,
+          undefined,
+          instance.instanceId,
+        );
+      } finally {
+        state.outstanding--;
+      }
+    };
+
+    if (!tracer.enabled) return send();
+    return tracer.withSpan(
+      `${method} ${service}`,
+      async (span) => {
+        const response = await send();
+        span.setAttribute('http.response.status_code', response.status);
+        if (response.status >= 500) span.setStatus('error');
+        return response;
+      },
+      {
+        kind: 'client',
+        attributes: {
+          'http.request.method': method,
+          'url.full': url,
+          'peer.service': service,
+          'service.instance.id': instance.instanceId,
+        },
+      },
+    );
+  }
+
+  /**
+   * request() and parse the JSON body
+   * @throws ServiceClientError on non-2xx responses
+   */
+  async json<T>(service: string, path: string, init: RequestInit = {}): Promise<T> {
+    const headers = new Headers(init.headers);
+    if (!headers.has('accept')) headers.set('accept', 'application/json');
+    if (init.body !== undefined && !headers.has('content-type')) {
+      headers.set('content-type', 'application/json');
+    }
+
+    const response = await this.request(service, path, { ...init, headers });
+    if (!response.ok) {
+      const body = await response.text();
+      throw new ServiceClientError(
+        `${(init.method ?? 'GET').toUpperCase()} ${service}${path} returned ${response.status}`,
+        service,
+        response.status,
+        undefined,
+        body,
+      );
+    }
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+
+  private async pick(service: string): Promise<ServiceInstance> {
+    const instances = await this.getInstances(service);
+    if (instances.length === 0) {
+      throw new ServiceClientError(`No registered instance of ${service}`, service);
+    }
+
+    // With every instance ejected, trying one beats failing outright
+    const now = Date.now();
+    const healthy = instances.filter(
+      (i) => this.state(service, i.instanceId).ejectedUntil <= now,
+    );
+    const candidates = healthy.length > 0 ? healthy : instances;
+
+    const balancer = this.balancers.get(service) ?? this.defaultBalancer;
+    return balancer.pick(
+      service,
+      candidates,
+      (instanceId) => this.state(service, instanceId).outstanding,
+    );
+  }
+
+  private headers(init: RequestInit['headers']): Headers {
+    const headers = new Headers(init);
+    const forwarded: Record<string, string> = { ...getCorrelationHeaders() };
+
+    const user = getCorrelationContext()?.user;
+    if (this.forwardIdentity && user && this.signingSecret && !isServiceIdentity(user)) {
+      Object.assign(forwarded, signIdentity(user, this.signingSecret));
+    }
+
+    // Headers set explicitly by the caller win
+    for (const [name, value] of Object.entries(forwarded)) {
+      if (!headers.has(name)) headers.set(name, value);
+    }
+    return headers;
+  }
+
+  private state(service: string, instanceId: string): InstanceState {
+    const key = `${service}/${instanceId}`;
+    let state = this.states.get(key);
+    if (!state) {
+      state = { outstanding: 0, failures: 0, ejectedUntil: 0 };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  private recordFailure(service: string, instance: ServiceInstance, reason: string): void {
+    const state = this.state(service, instance.instanceId);
+    state.failures++;
+    if (state.failures < this.ejectAfterFailures) return;
+
+    state.failures = 0;
+    state.ejectedUntil = Date.now() + this.ejectionMs;
+    getCommonMetrics().serviceClientEjections.inc({ service });
+    this.logger.warn(
+      `Ejected ${service} instance ${instance.instanceId} for ${this.ejectionMs / 1000}s (${reason})`,
+    );
+  }
+
+  private async fetchInstances(service: string): Promise<ServiceInstance[]> {
+    const url = `${this.gatewayUrl}/registry?service=${encodeURIComponent(service)}`;
+    let response: Response;
+    try {
+      response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    } catch (error) {
+      throw new ServiceClientError(
+        `Service discovery for ${service} failed: ${(error as Error).message}`,
+        service,
+      );
+    }
+    if (!response.ok) {
+      throw new ServiceClientError(
+        `Service discovery for ${service} failed: status ${response.status}`,
+        service,
+        response.status,
+      );
+    }
+
+    const data: unknown = await response.json();
+    const raw: unknown[] = Array.isArray(data)
+      ? data
+      : isRecord(data) && Array.isArray(data.instances)
+        ? data.instances
+        : [];
+
+    return raw.flatMap((inst): ServiceInstance[] => {
+      if (!isRecord(inst) || typeof inst.instanceId !== 'string' || typeof inst.baseUrl !== 'string') return [];
+      // Instances draining or reporting not ready (see heartbeats) get no new traffic
+      if (inst.draining === true || inst.ready === false) return [];
+
+      return [
+        {
+          instanceId: inst.instanceId,
+          baseUrl: inst.baseUrl,
+          weight: typeof inst.weight === 'number' && inst.weight > 0 ? inst.weight : 100,
+          ...(typeof inst.zone === 'string' && { zone: inst.zone }),
+          tags: Array.isArray(inst.tags) ? inst.tags.filter((t: unknown) => typeof t === 'string') : [],
+        },
+      ];
+    });
+  }
+}
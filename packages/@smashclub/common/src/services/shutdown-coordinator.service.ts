@@ -0,0 +1,245 @@
+import {
+  BeforeApplicationShutdown,
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { COMMON_ENV } from '../config/common-env.provider';
+import { COMMON_ENV_SCHEMA, CommonEnvConfig } from '../config/common-env.schema';
+import { pickConfigSchema, validateConfig } from '../config/config-schema.util';
+import { getCommonMetrics } from '../utils/common-metrics.util';
+import { GatewayRegistryService } from './gateway-registry.service';
+import { HealthService } from './health.service';
+
+export const SHUTDOWN_OPTIONS = 'SHUTDOWN_OPTIONS';
+
+const SHUTDOWN_ENV_SCHEMA = pickConfigSchema(COMMON_ENV_SCHEMA, [
+  'SHUTDOWN_DRAIN_DELAY',
+  'SHUTDOWN_DRAIN_TIMEOUT',
+  'SHUTDOWN_HOOK_TIMEOUT',
+]);
+
+export interface ShutdownOptions {
+  /** Time given to the gateway to stop routing, in ms (default: SHUTDOWN_DRAIN_DELAY) */
+  drainDelayMs?: number;
+  /** Max wait for in-flight requests, in ms (default: SHUTDOWN_DRAIN_TIMEOUT) */
+  drainTimeoutMs?: number;
+  /** Max time per shutdown hook, in ms (default: SHUTDOWN_HOOK_TIMEOUT) */
+  hookTimeoutMs?: number;
+}
+
+export interface ShutdownHook {
+  name: string;
+  /** Lower runs first (default: 100) */
+  priority: number;
+  run: (signal?: string) => unknown;
+}
+
+/**
+ * Orders graceful shutdown so no request is cut off:
+ * 1. mark the instance draining (/health/ready answers 503)
+ * 2. tell the gateway to stop routing, then wait drainDelayMs (when registered)
+ * 3. wait for in-flight requests (tracked by InFlightInterceptor), up to drainTimeoutMs
+ * 4. run shutdown hooks in priority order
+ * 5. deregister from the gateway
+ *
+ * Nest runs onModuleDestroy before any shutdown hook, so use
+ * enableGracefulShutdown(app) instead of app.enableShutdownHooks() to drain
+ * before other modules close their connections.
+ *
+ * @example
+ * ```ts
+ * constructor(shutdown: ShutdownCoordinator, consumer: BookingEventsConsumer) {
+ *   shutdown.registerHook('booking-events', () => consumer.stop(), 10);
+ * }
+ * ```
+ */
+@Injectable()
+export class ShutdownCoordinator implements OnModuleInit, BeforeApplicationShutdown {
+  private readonly logger = new Logger(ShutdownCoordinator.name);
+  private readonly drainDelayMs: number;
+  private readonly drainTimeoutMs: number;
+  private readonly hookTimeoutMs: number;
+  private readonly hooks: ShutdownHook[] = [];
+  private readonly idleWaiters: Array<() => void> = [];
+  private inFlight = 0;
+  private draining = false;
+  private running?: Promise<void>;
+
+  /**
+   * @throws ConfigValidationError if a SHUTDOWN_* env var is malformed
+   */
+  constructor(
+    @Optional()
+    @Inject(SHUTDOWN_OPTIONS)
+    options: ShutdownOptions = {},
+    @Optional() configService?: ConfigService,
+    @Optional() private readonly registry?: GatewayRegistryService,
+    @Optional() private readonly health?: HealthService,
+    @Optional() @Inject(COMMON_ENV) commonEnv?: CommonEnvConfig,
+  ) {
+    const env =
+      commonEnv ??
+      validateConfig(SHUTDOWN_ENV_SCHEMA, (key) => configService?.get(key) ?? process.env[key]);
+    this.drainDelayMs = options.drainDelayMs ?? env.SHUTDOWN_DRAIN_DELAY;
+    this.drainTimeoutMs = options.drainTimeoutMs ?? env.SHUTDOWN_DRAIN_TIMEOUT;
+    this.hookTimeoutMs = options.hookTimeoutMs ?? env.SHUTDOWN_HOOK_TIMEOUT;
+  }
+
+  onModuleInit(): void {
+    this.health?.register({
+      name: 'shutdown',
+      probes: ['readiness'],
+      check: () =>
+        this.draining
+          ? { status: 'down', error: 'Draining before shutdown', details: { inFlight: this.inFlight } }
+          : { status: 'up' },
+    });
+  }
+
+  /**
+   * Completes the sequence when the app is closed without
+   * enableGracefulShutdown (e.g. app.close() in tests)
+   */
+  async beforeApplicationShutdown(signal?: string): Promise<void> {
+    await this.shutdown(signal);
+  }
+
+  /**
+   * Add a hook run after in-flight requests have finished
+   * (e.g. stop queue consumers, flush buffers)
+   */
+  registerHook(name: string, run: (signal?: string) => unknown, priority = 100): void {
+    this.hooks.push({ name, run, priority });
+  }
+
+  isDraining(): boolean {
+    return this.draining;
+  }
+
+  getInFlightCount(): number {
+    return this.inFlight;
+  }
+
+  /**
+   * Count a request as in flight; call the returned function exactly once
+   * when it completes
+   */
+  trackRequest(): () => void {
+    this.inFlight++;
+    getCommonMetrics().httpRequestsInFlight.set(undefined, this.inFlight);
+
+    let done = false;
+    return () => {
+      if (done) return;
+      done = true;
+      this.inFlight--;
+      getCommonMetrics().httpRequestsInFlight.set(undefined, this.inFlight);
+      if (this.inFlight === 0) {
+        this.idleWaiters.splice(0).forEach((resolve) => resolve());
+      }
+    };
+  }
+
+  /**
+   * Run the drain sequence once; later calls wait for the same run
+   */
+  shutdown(signal?: string): Promise<void> {
+    this.running ??= this.run(signal);
+    return this.running;
+  }
+
+  private async run(signal?: string): Promise<void> {
+    const started = Date.now();
+    this.logger.log(`Graceful shutdown started${signal ? ` (${signal})` : ''}`);
+
+    await this.phase('drain', async () => {
+      this.draining = true;
+      getCommonMetrics().shutdownDraining.set(undefined, 1);
+
+      // Nothing routes here through the gateway unless registered
+      if (!this.registry?.getRegistrationInfo().registered) return;
+
+      try {
+        await this.registry.markDraining();
+        this.logger.log('Gateway notified, instance is draining');
+      } catch (error) {
+        this.logger.warn(`Failed to notify gateway of draining: ${(error as Error).message}`);
+      }
+      if (this.drainDelayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.drainDelayMs));
+      }
+    });
+
+    await this.phase('in_flight', async () => {
+      if (this.inFlight === 0) return;
+
+      this.logger.log(`Waiting for ${this.inFlight} in-flight request(s), up to ${this.drainTimeoutMs}ms`);
+      const finished = await this.waitForIdle(this.drainTimeoutMs);
+      if (!finished) {
+        this.logger.warn(`Drain timeout reached with ${this.inFlight} request(s) still in flight`);
+      }
+    });
+
+    await this.phase('hooks', async () => {
+      const ordered = [...this.hooks].sort((a, b) => a.priority - b.priority);
+      for (const hook of ordered) {
+        await this.runHook(hook, signal);
+      }
+    });
+
+    await this.phase('deregister', async () => {
+      await this.registry?.shutdown();
+    });
+
+    this.logger.log(`Graceful shutdown finished in ${Date.now() - started}ms`);
+  }
+
+  private async phase(name: string, fn: () => Promise<void>): Promise<void> {
+    const started = process.hrtime.bigint();
+    try {
+      await fn();
+    } finally {
+      getCommonMetrics().shutdownPhaseDuration.set(
+        { phase: name },
+        Number(process.hrtime.bigint() - started) / 1e9,
+      );
+    }
+  }
+
+  private waitForIdle(timeoutMs: number): Promise<boolean> {
+    if (this.inFlight === 0) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(false), timeoutMs);
+      this.idleWaiters.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+
+  private async runHook(hook: ShutdownHook, signal?: string): Promise<void> {
+    const started = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([
+        Promise.resolve().then(() => hook.run(signal)),
+        new Promise((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Timed out after ${this.hookTimeoutMs}ms`)),
+            this.hookTimeoutMs,
+          );
+        }),
+      ]);
+      this.logger.log(`Shutdown hook ${hook.name} done in ${Date.now() - started}ms`);
+    } catch (error) {
+      this.logger.error(`Shutdown hook ${hook.name} failed: ${(error as Error).message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { SECURITY_CONTANTS } from '../constants/signature.constant';
+import {
+  IDENTITY_STRATEGY,
+  IdentityRequest,
+  IdentityStrategy,
+  IdentityStrategyResult,
+} from '../types/identity.type';
+import { ApiKeyRejectionReason } from '../types/service-identity.type';
+import { ApiKeyStore, hashApiKey } from '../utils/api-key-store.util';
+import { createServiceIdentity } from '../utils/service-identity.util';
+import { readHeader } from '../utils/signed-identity.util';
+
+/**
+ * Resolves the x-api-key header to a ServiceIdentity
+ */
+export class ApiKeyStrategy implements IdentityStrategy {
+  readonly name = IDENTITY_STRATEGY.API_KEY;
+
+  constructor(private readonly store: ApiKeyStore | undefined) {}
+
+  async resolve(request: IdentityRequest): Promise<IdentityStrategyResult | null> {
+    if (!this.store) return null;
+
+    const apiKey = readHeader(request.headers, SECURITY_CONTANTS.X_API_KEY_HEADER);
+    if (!apiKey) return null;
+
+    const record = await this.store.findByHash(hashApiKey(apiKey));
+    if (!record) {
+      return { error: { code: ApiKeyRejectionReason.API_KEY_INVALID, message: 'Invalid API key' } };
+    }
+    if (record.revokedAt) {
+      return { error: { code: ApiKeyRejectionReason.API_KEY_REVOKED, message: 'API key has been revoked' } };
+    }
+    if (record.expiresAt && record.expiresAt.getTime() <= Date.now()) {
+      return { error: { code: ApiKeyRejectionReason.API_KEY_EXPIRED, message: 'API key has expired' } };
+    }
+
+    return { user: createServiceIdentity(record.serviceName, record.scopes) };
+  }
+}
@@ -0,0 +1,37 @@
+import {
+  IDENTITY_STRATEGY,
+  IdentityRequest,
+  IdentityStrategy,
+  IdentityStrategyResult,
+} from '../types/identity.type';
+import { JwtErrorCode } from '../types/jwt.type';
+import { JwtVerificationError, JwtVerifier } from '../utils/jwt-verifier.util';
+import { readHeader } from '../utils/signed-identity.util';
+
+/**
+ * Resolves `Authorization: Bearer <jwt>` with a local JwtVerifier
+ */
+export class BearerJwtStrategy implements IdentityStrategy {
+  readonly name = IDENTITY_STRATEGY.BEARER_JWT;
+
+  constructor(private readonly verifier: JwtVerifier) {}
+
+  async resolve(request: IdentityRequest): Promise<IdentityStrategyResult | null> {
+    if (!this.verifier.enabled) return null;
+
+    const authHeader = readHeader(request.headers, 'authorization');
+    if (!authHeader?.startsWith('Bearer ')) return null;
+
+    try {
+      const payload = await this.verifier.verify(authHeader.substring(7));
+      return { user: this.verifier.toRequestUser(payload) };
+    } catch (error) {
+      if (error instanceof JwtVerificationError) {
+        return { error: { code: error.code, message: error.message } };
+      }
+      return {
+        error: { code: JwtErrorCode.SIGNATURE_INVALID, message: 'Token verification failed' },
+      };
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { SECURITY_CONTANTS } from '../constants/signature.constant';
+import {
+  IDENTITY_STRATEGY,
+  IdentityRequest,
+  IdentityStrategy,
+  IdentityStrategyResult,
+} from '../types/identity.type';
+import { IdentityRejectionReason } from '../types/signed-identity.type';
+import { parseRolesHeader, readHeader } from '../utils/signed-identity.util';
+
+export interface GatewayHeadersStrategyOptions {
+  /**
+   * Reject unsigned x-user-* headers (set when a signing secret is configured).
+   * Signed requests are left to SignedSessionStrategy.
+   */
+  requireSignature: boolean;
+}
+
+/**
+ * Resolves plain x-user-id / x-user-roles / x-user-email headers
+ */
+export class GatewayHeadersStrategy implements IdentityStrategy {
+  readonly name = IDENTITY_STRATEGY.GATEWAY_HEADERS;
+
+  constructor(private readonly options: GatewayHeadersStrategyOptions) {}
+
+  async resolve(request: IdentityRequest): Promise<IdentityStrategyResult | null> {
+    const userId = readHeader(request.headers, SECURITY_CONTANTS.X_USER_ID_HEADER);
+    if (!userId) return null;
+
+    if (this.options.requireSignature) {
+      if (readHeader(request.headers, SECURITY_CONTANTS.X_USER_SESSION_HEADER)) return null;
+      return {
+        error: {
+          code: IdentityRejectionReason.MISSING_SIGNATURE,
+          message: 'Gateway identity headers must be signed',
+        },
+      };
+    }
+
+    const permissions = parseRolesHeader(
+      readHeader(request.headers, SECURITY_CONTANTS.X_USER_PERMISSIONS_HEADER),
+    );
+
+    return {
+      user: {
+        id: userId,
+        email: readHeader(request.headers, SECURITY_CONTANTS.X_USER_EMAIL_HEADER) || undefined,
+        roles: parseRolesHeader(
+          readHeader(request.headers, SECURITY_CONTANTS.X_USER_ROLES_HEADER),
+        ),
+        ...(permissions.length > 0 && { permissions }),
+      },
+    };
+  }
+}
@@ -0,0 +1,4 @@
+export * from './signed-session.strategy';
+export * from './gateway-headers.strategy';
+export * from './bearer-jwt.strategy';
+export * from './api-key.strategy';
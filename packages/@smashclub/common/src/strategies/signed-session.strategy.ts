@@ -0,0 +1,30 @@
+import { SECURITY_CONTANTS } from '../constants/signature.constant';
+import {
+  IDENTITY_STRATEGY,
+  IdentityRequest,
+  IdentityStrategy,
+  IdentityStrategyResult,
+} from '../types/identity.type';
+import { readHeader, SignedIdentityVerifier } from '../utils/signed-identity.util';
+
+/**
+ * Resolves x-user-* headers carrying a valid x-user-session signature
+ */
+export class SignedSessionStrategy implements IdentityStrategy {
+  readonly name = IDENTITY_STRATEGY.SIGNED_SESSION;
+
+  constructor(private readonly verifier: SignedIdentityVerifier) {}
+
+  async resolve(request: IdentityRequest): Promise<IdentityStrategyResult | null> {
+    if (!this.verifier.enabled) return null;
+    if (!readHeader(request.headers, SECURITY_CONTANTS.X_USER_SESSION_HEADER)) return null;
+
+    const result = this.verifier.verify(request.headers);
+    if (!result.valid) {
+      return {
+        error: { code: result.reason, message: `Invalid gateway identity: ${result.reason}` },
+      };
+    }
+    return { user: result.user };
+  }
+}
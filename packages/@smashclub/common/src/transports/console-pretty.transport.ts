@@ -0,0 +1,55 @@
+import { LogRecord, LogSeverity, LogTransport } from '../types/log.type';
+
+const COLORS: Record<LogSeverity, string> = {
+  fatal: '\x1b[1;31m',
+  error: '\x1b[31m',
+  warn: '\x1b[33m',
+  info: '\x1b[32m',
+  debug: '\x1b[35m',
+  verbose: '\x1b[36m',
+};
+const RESET = '\x1b[0m';
+const DIM = '\x1b[2m';
+
+export interface ConsolePrettyTransportOptions {
+  /** ANSI colors (default: stdout is a TTY and NO_COLOR is unset) */
+  colors?: boolean;
+}
+
+/**
+ * Human-readable single-line output for local development
+ *
+ * `2025-01-01T10:00:00.000Z  INFO [HTTP] GET /courts 200 - 12ms | requestId=... userId=...`
+ */
+export class ConsolePrettyTransport implements LogTransport {
+  readonly name = 'console-pretty';
+  private readonly colors: boolean;
+
+  constructor(options: ConsolePrettyTransportOptions = {}) {
+    this.colors = options.colors ?? (!!process.stdout.isTTY && !process.env.NO_COLOR);
+  }
+
+  write(record: LogRecord): void {
+    const paint = (color: string, text: string) =>
+      this.colors ? `${color}${text}${RESET}` : text;
+
+    const fields = Object.entries({ requestId: record.requestId, ...record.context })
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${k}=${typeof v === 'object' ? JSON.stringify(v) : v}`)
+      .join(' ');
+
+    let line =
+      `${paint(DIM, record.ts)} ${paint(COLORS[record.level], record.level.toUpperCase().padStart(7))}` +
+      (record.module ? ` ${paint(COLORS.warn, `[${record.module}]`)}` : '') +
+      ` ${record.msg}` +
+      (fields ? paint(DIM, ` | ${fields}`) : '');
+
+    if (record.err?.stack) {
+      line += `\n${paint(COLORS.error, record.err.stack)}`;
+    }
+
+    const stream =
+      record.level === 'error' || record.level === 'fatal' ? process.stderr : process.stdout;
+    stream.write(line + '\n');
+  }
+}
@@ -0,0 +1,42 @@
+import { LogRecord, LogSeverity, LogTransport } from '../types/log.type';
+
+/**
+ * Keeps records in memory - for assertions in tests
+ *
+ * @example
+ * ```ts
+ * const logs = new InMemoryTransport();
+ * const logger = new LoggingService({ transports: [logs] });
+ * // ...
+ * expect(logs.find('warn')).toHaveLength(1);
+ * ```
+ */
+export class InMemoryTransport implements LogTransport {
+  readonly name = 'in-memory';
+  readonly records: LogRecord[] = [];
+
+  /**
+   * @param limit Oldest records are dropped beyond this count
+   */
+  constructor(private readonly limit = 1000) {}
+
+  write(record: LogRecord): void {
+    this.records.push(record);
+    if (this.records.length > this.limit) {
+      this.records.splice(0, this.records.length - this.limit);
+    }
+  }
+
+  /**
+   * Records of a level, optionally whose message contains `text`
+   */
+  find(level?: LogSeverity, text?: string): LogRecord[] {
+    return this.records.filter(
+      (r) => (!level || r.level === level) && (!text || r.msg.includes(text)),
+    );
+  }
+
+  clear(): void {
+    this.records.length = 0;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './console-pretty.transport';
+export * from './json-lines.transport';
+export * from './rotating-file.transport';
+export * from './in-memory.transport';
@@ -0,0 +1,37 @@
+import { LogRecord, LogTransport } from '../types/log.type';
+
+export interface JsonLinesTransportOptions {
+  /** Destination stream (default: process.stdout) */
+  stream?: NodeJS.WritableStream;
+}
+
+/**
+ * One JSON object per line, for log collectors (Loki, CloudWatch, ELK, ...)
+ */
+export class JsonLinesTransport implements LogTransport {
+  readonly name = 'json-lines';
+  private readonly stream: NodeJS.WritableStream;
+
+  constructor(options: JsonLinesTransportOptions = {}) {
+    this.stream = options.stream ?? process.stdout;
+  }
+
+  write(record: LogRecord): void {
+    this.stream.write(serializeLogRecord(record) + '\n');
+  }
+}
+
+/**
+ * JSON.stringify that survives circular references and bigint values
+ */
+export function serializeLogRecord(record: LogRecord): string {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(record, (_key, value) => {
+    if (typeof value === 'bigint') return value.toString();
+    if (value && typeof value === 'object') {
+      if (seen.has(value)) return '[Circular]';
+      seen.add(value);
+    }
+    return value;
+  });
+}
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogRecord, LogTransport } from '../types/log.type';
+import { serializeLogRecord } from './json-lines.transport';
+
+export interface RotatingFileTransportOptions {
+  /** Log file path; rotated files get .1, .2, ... suffixes */
+  path: string;
+  /** Rotate once the file reaches this size in bytes (default: 10 MiB) */
+  maxSize?: number;
+  /** Rotated files to keep (default: 5) */
+  maxFiles?: number;
+}
+
+/**
+ * JSON lines written to a file, rotated by size
+ *
+ * Writes are synchronous so nothing is lost when the process exits right
+ * after logging (e.g. a fatal error during bootstrap).
+ */
+export class RotatingFileTransport implements LogTransport {
+  readonly name = 'rotating-file';
+  private readonly filePath: string;
+  private readonly maxSize: number;
+  private readonly maxFiles: number;
+  private fd?: number;
+  private size = 0;
+
+  constructor(options: RotatingFileTransportOptions) {
+    this.filePath = path.resolve(options.path);
+    this.maxSize = options.maxSize ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+  }
+
+  write(record: LogRecord): void {
+    const line = Buffer.from(serializeLogRecord(record) + '\n');
+
+    if (this.fd === undefined) {
+      this.open();
+    }
+    if (this.size > 0 && this.size + line.length > this.maxSize) {
+      this.rotate();
+    }
+
+    fs.writeSync(this.fd!, line);
+    this.size += line.length;
+  }
+
+  close(): void {
+    if (this.fd !== undefined) {
+      fs.closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+
+  private open(): void {
+    this.fd = fs.openSync(this.filePath, 'a');
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  /**
+   * file.(n-1) -> file.n, ..., file -> file.1; the oldest is dropped
+   */
+  private rotate(): void {
+    this.close();
+
+    fs.rmSync(`${this.filePath}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      const from = `${this.filePath}.${i}`;
+      if (fs.existsSync(from)) {
+        fs.renameSync(from, `${this.filePath}.${i + 1}`);
+      }
+    }
+    fs.renameSync(this.filePath, `${this.filePath}.1`);
+
+    this.open();
+  }
+}
@@ -0,0 +1,22 @@
+import { RequestUser } from './request-user.type';
+
+/**
+ * Request-scoped values carried across async boundaries
+ * (see runWithCorrelation / getCorrelationContext)
+ */
+export interface CorrelationContext {
+  /** Incoming x-request-id, or one generated for this request */
+  requestId: string;
+  /** Authenticated user (set once the identity is resolved) */
+  userId?: string;
+  /** Identity re-signed for downstream calls (see ServiceClient) */
+  user?: RequestUser;
+  /** Name of the service handling the request */
+  service?: string;
+  /** W3C trace context of the caller, forwarded to downstream calls */
+  traceparent?: string;
+  /** W3C tracestate of the caller */
+  tracestate?: string;
+  /** Trace of this request (the caller's, or the one started here) */
+  traceId?: string;
+}
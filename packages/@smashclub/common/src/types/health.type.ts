@@ -0,0 +1,58 @@
+export type HealthStatus = 'up' | 'down';
+
+/**
+ * Probes an indicator takes part in
+ * - liveness: the process is working (restart it otherwise)
+ * - readiness: the instance can serve traffic (route elsewhere otherwise)
+ */
+export type HealthProbe = 'liveness' | 'readiness';
+
+export interface HealthIndicatorResult {
+  status: HealthStatus;
+  /** Measurements worth showing, e.g. { lagMs: 12 } */
+  details?: Record<string, unknown>;
+  /** Why the check is down */
+  error?: string;
+}
+
+/**
+ * A single health check (database ping, Redis ping, event-loop lag...)
+ *
+ * @example
+ * ```ts
+ * healthService.register({
+ *   name: 'database',
+ *   check: async () => {
+ *     await prisma.$queryRaw`SELECT 1`;
+ *     return { status: 'up' };
+ *   },
+ * });
+ * ```
+ */
+export interface HealthIndicator {
+  /** Unique name, used as the key in reports */
+  name: string;
+  /** Probes this indicator is part of (default: ['readiness']) */
+  probes?: HealthProbe[];
+  /** A failing non-critical indicator is reported but keeps the probe up (default: true) */
+  critical?: boolean;
+  /** Throwing counts as down */
+  check(): HealthIndicatorResult | Promise<HealthIndicatorResult>;
+}
+
+export interface HealthCheckResult extends HealthIndicatorResult {
+  critical: boolean;
+  durationMs: number;
+}
+
+/**
+ * Aggregated result of a probe
+ */
+export interface HealthReport {
+  probe: HealthProbe;
+  /** down when any critical indicator is down */
+  status: HealthStatus;
+  /** ISO timestamp of when the indicators ran (reports are cached) */
+  checkedAt: string;
+  checks: Record<string, HealthCheckResult>;
+}
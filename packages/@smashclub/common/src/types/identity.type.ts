@@ -0,0 +1,52 @@
+import { RequestAuthError, RequestUser } from './request-user.type';
+
+/**
+ * Built-in identity strategy names
+ */
+export const IDENTITY_STRATEGY = {
+  /** x-user-* headers signed by the Gateway (x-user-session) */
+  SIGNED_SESSION: 'signed-session',
+  /** Unsigned x-user-* headers (legacy, only when no signing secret is set) */
+  GATEWAY_HEADERS: 'gateway-headers',
+  /** Authorization: Bearer <jwt>, verified locally */
+  BEARER_JWT: 'bearer-jwt',
+  /** x-api-key header, for service-to-service calls */
+  API_KEY: 'api-key',
+  /** request.user set by something outside the resolver (e.g. passport) */
+  EXTERNAL: 'external',
+} as const;
+
+export type IdentityStrategyName =
+  | (typeof IDENTITY_STRATEGY)[keyof typeof IDENTITY_STRATEGY]
+  | (string & {});
+
+/**
+ * The parts of an HTTP request identity strategies work with
+ */
+export interface IdentityRequest {
+  headers: Record<string, string | string[] | undefined>;
+  user?: RequestUser;
+  /** Strategy that produced request.user */
+  authStrategy?: IdentityStrategyName;
+  /** Why authentication failed, if credentials were present but rejected */
+  authError?: RequestAuthError;
+}
+
+/**
+ * Result of a strategy that found credentials on the request
+ */
+export type IdentityStrategyResult =
+  | { user: RequestUser }
+  | { error: RequestAuthError };
+
+/**
+ * One way of turning a request into a RequestUser
+ */
+export interface IdentityStrategy {
+  readonly name: IdentityStrategyName;
+  /**
+   * Return null when the request carries no credentials for this strategy,
+   * so the next strategy in the chain is tried
+   */
+  resolve(request: IdentityRequest): Promise<IdentityStrategyResult | null>;
+}
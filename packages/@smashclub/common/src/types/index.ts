@@ -1,3 +1,16 @@
 export * from './request-user.type';
 export * from './pagination.type';
 
+export * from './signed-identity.type';
+export * from './ownership.type';
+export * from './jwt.type';
+export * from './identity.type';
+export * from './service-identity.type';
+export * from './correlation.type';
+export * from './log.type';
+export * from './trace.type';
+export * from './health.type';
+export * from './route-manifest.type';
+export * from './service-discovery.type';
+export * from './registry.type';
+export * from './query-spec.type';
@@ -0,0 +1,71 @@
+/**
+ * Supported JWT signature algorithms
+ */
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+/**
+ * Decoded JOSE header
+ */
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+/**
+ * Decoded JWT payload (registered claims + anything else)
+ */
+export interface JwtPayload {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Typed reasons a token can be rejected
+ */
+export enum JwtErrorCode {
+  TOKEN_MISSING = 'TOKEN_MISSING',
+  TOKEN_MALFORMED = 'TOKEN_MALFORMED',
+  ALGORITHM_NOT_ALLOWED = 'ALGORITHM_NOT_ALLOWED',
+  KEY_NOT_FOUND = 'KEY_NOT_FOUND',
+  SIGNATURE_INVALID = 'SIGNATURE_INVALID',
+  TOKEN_EXPIRED = 'TOKEN_EXPIRED',
+  TOKEN_NOT_YET_VALID = 'TOKEN_NOT_YET_VALID',
+  ISSUER_INVALID = 'ISSUER_INVALID',
+  AUDIENCE_INVALID = 'AUDIENCE_INVALID',
+  SUBJECT_MISSING = 'SUBJECT_MISSING',
+}
+
+/**
+ * Where to find RequestUser fields in the JWT payload
+ * Each entry is a dot path ('realm_access.roles') or a list of paths tried in order.
+ */
+export interface JwtClaimPaths {
+  id?: string | string[];
+  email?: string | string[];
+  roles?: string | string[];
+  permissions?: string | string[];
+}
+
+/**
+ * JSON Web Key (subset used for signature verification)
+ */
+export interface Jwk {
+  kty: string;
+  kid?: string;
+  alg?: string;
+  use?: string;
+  [param: string]: unknown;
+}
+
+/**
+ * JSON Web Key Set
+ */
+export interface JwkSet {
+  keys: Jwk[];
+}
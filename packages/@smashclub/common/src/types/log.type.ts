@@ -0,0 +1,46 @@
+/**
+ * Log levels, most severe first
+ */
+export const LOG_SEVERITY = ['fatal', 'error', 'warn', 'info', 'debug', 'verbose'] as const;
+
+export type LogSeverity = (typeof LOG_SEVERITY)[number];
+
+/**
+ * Serialized error attached to a log record
+ */
+export interface LogRecordError {
+  name?: string;
+  message?: string;
+  stack?: string;
+}
+
+/**
+ * Stable shape of every log entry handed to transports
+ */
+export interface LogRecord {
+  level: LogSeverity;
+  /** ISO-8601 timestamp */
+  ts: string;
+  service: string;
+  instanceId: string;
+  requestId?: string;
+  /** Trace / span active when the entry was written */
+  traceId?: string;
+  spanId?: string;
+  /** Logger / module name (e.g. GatewayRegistryService, HTTP) */
+  module?: string;
+  msg: string;
+  err?: LogRecordError;
+  /** Bound and per-call context (userId, traceparent, ...) */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Destination for log records
+ */
+export interface LogTransport {
+  readonly name: string;
+  write(record: LogRecord): void;
+  /** Flush and release resources (called on module destroy) */
+  close?(): void | Promise<void>;
+}
@@ -0,0 +1,35 @@
+import { CACHE_PREFIX } from '../constants/cache.constant';
+
+/**
+ * Strip the trailing ':' from a cache prefix ('booking:' -> 'booking')
+ */
+function resourceKey<P extends string>(prefix: `${P}:`): P {
+  return prefix.slice(0, -1) as P;
+}
+
+/**
+ * Built-in ownable resource keys, shared with CACHE_PREFIX names
+ */
+export const OWNED_RESOURCE = {
+  CLUB: resourceKey(CACHE_PREFIX.CLUB),
+  COURT: resourceKey(CACHE_PREFIX.COURT),
+  BOOKING: resourceKey(CACHE_PREFIX.BOOKING),
+  TOURNAMENT: resourceKey(CACHE_PREFIX.TOURNAMENT),
+} as const;
+
+/**
+ * Resource key - one of OWNED_RESOURCE or a service-specific string
+ */
+export type OwnedResourceType =
+  | (typeof OWNED_RESOURCE)[keyof typeof OWNED_RESOURCE]
+  | (string & {});
+
+/**
+ * Resolves who owns a resource of a given type
+ */
+export interface OwnershipResolver {
+  /**
+   * Return the user IDs that own the resource, or null if it does not exist
+   */
+  resolveOwnerIds(resourceId: string): Promise<string[] | null> | string[] | null;
+}
@@ -28,3 +28,54 @@ export const DEFAULT_PAGINATION = {
   MAX_LIMIT: 100,
 } as const;
 
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * One column of a sort, e.g. { field: 'startsAt', direction: 'desc' }
+ */
+export interface SortField {
+  field: string;
+  direction: SortDirection;
+}
+
+/**
+ * Cursor (keyset) pagination request parameters
+ */
+export interface CursorPaginationParams {
+  /** Opaque cursor from a previous page (first page when omitted) */
+  cursor?: string;
+  limit?: number;
+  /**
+   * Sort columns; `id` is appended as tie-breaker so the order is total
+   * (default: createdAt desc)
+   */
+  sort?: SortField[];
+}
+
+/**
+ * Cursor paginated response wrapper
+ * No total: counting large tables is what cursor pagination avoids.
+ */
+export interface CursorPaginatedResult<T> {
+  data: T[];
+  /** Cursor of the following page (null on the last page) */
+  nextCursor: string | null;
+  /** Cursor of the preceding page (null on the first page) */
+  prevCursor: string | null;
+  /** Whether a page exists after this one */
+  hasMore: boolean;
+  limit: number;
+}
+
+/**
+ * Decoded cursor: the sort key of a boundary row and which way to read
+ */
+export interface CursorPayload {
+  /** 'after' reads the rows following the boundary row, 'before' the preceding ones */
+  direction: 'after' | 'before';
+  /** Sort the cursor was issued for, e.g. startsAt:desc,id:desc */
+  sort: string;
+  /** Boundary row values, one per sort column (id last) */
+  values: unknown[];
+}
@@ -0,0 +1,61 @@
+import { SortField } from './pagination.type';
+
+/**
+ * Filter operators of the query syntax, e.g. `price[gte]=100000`
+ */
+export type FilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'nin'
+  | 'contains'
+  | 'startsWith'
+  | 'isNull';
+
+export type FilterValue = string | number | boolean | Date;
+
+/**
+ * One filter, with its value coerced to the field type
+ * (`in` / `nin` take an array, `isNull` a boolean)
+ */
+export interface FilterCondition<F extends string = string> {
+  field: F;
+  op: FilterOperator;
+  value: FilterValue | FilterValue[];
+}
+
+export interface OffsetPaginationSpec {
+  mode: 'offset';
+  page: number;
+  limit: number;
+  skip: number;
+  take: number;
+}
+
+export interface CursorPaginationSpec {
+  mode: 'cursor';
+  /** Opaque cursor (first page when omitted) */
+  cursor?: string;
+  limit: number;
+}
+
+/**
+ * ORM-neutral description of a list query: what to filter, how to sort,
+ * which page
+ */
+export interface QuerySpec<S extends string = string, F extends string = string> {
+  /** AND-ed conditions */
+  filters: FilterCondition<F>[];
+  sort: Array<SortField & { field: S }>;
+  pagination: OffsetPaginationSpec | CursorPaginationSpec;
+  /** Relations to load, dotted for nested ones (e.g. ['court', 'court.club']) */
+  include?: string[];
+  /** Keep soft-deleted rows (ISoftDeletable entities) */
+  withDeleted?: boolean;
+  /** Keep inactive rows (IActivatable entities) */
+  includeInactive?: boolean;
+}
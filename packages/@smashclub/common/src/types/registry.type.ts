@@ -0,0 +1,86 @@
+import { RouteManifest } from './route-manifest.type';
+
+/**
+ * What an instance announces when it registers
+ */
+export interface InstanceRegistration {
+  service: string;
+  instanceId: string;
+  baseUrl: string;
+  /** Relative share of traffic */
+  weight: number;
+  zone?: string;
+  tags: string[];
+  meta: Record<string, unknown>;
+  manifest?: RouteManifest;
+}
+
+/**
+ * Readiness sent with heartbeats (omitted when nothing reports readiness)
+ */
+export interface InstanceHeartbeat {
+  ready: boolean;
+  draining?: true;
+  checks: Record<string, string>;
+}
+
+export interface InstanceRef {
+  service: string;
+  instanceId: string;
+}
+
+/** 'lost' when the registry no longer knows the instance (e.g. gateway restarted) */
+export type HeartbeatOutcome = 'ok' | 'lost';
+
+/**
+ * Where instances are registered (gateway HTTP protocol, a shared file,
+ * memory); GatewayRegistryService drives the lifecycle, retries and events
+ *
+ * Methods throw when the registry can't be reached; every call gets a
+ * signal aborted on timeout.
+ */
+export interface RegistryBackend {
+  readonly name: string;
+  register(registration: InstanceRegistration, signal: AbortSignal): Promise<void>;
+  heartbeat(
+    instance: InstanceRef,
+    status: InstanceHeartbeat | undefined,
+    signal: AbortSignal,
+  ): Promise<HeartbeatOutcome>;
+  /** Whether the registry still lists the instance */
+  verify(instance: InstanceRef, signal: AbortSignal): Promise<boolean>;
+  deregister(instance: InstanceRef, signal: AbortSignal): Promise<void>;
+  /** Release resources */
+  shutdown?(): void | Promise<void>;
+}
+
+export type RegistryBackendKind = 'gateway' | 'file' | 'memory';
+
+export type RegistrationState =
+  | 'disabled'
+  | 'unregistered'
+  | 'registering'
+  | 'registered'
+  | 'lost'
+  | 'draining'
+  | 'deregistered';
+
+/**
+ * - registered: first successful registration
+ * - lost: the registry forgot the instance or stopped answering heartbeats
+ * - reregistered: registered again after being lost
+ * - draining: the instance asked to stop receiving traffic
+ * - deregistered: removed at shutdown
+ */
+export type RegistrationEventType = 'registered' | 'lost' | 'reregistered' | 'draining' | 'deregistered';
+
+export interface RegistrationEvent {
+  type: RegistrationEventType;
+  service: string;
+  instanceId: string;
+  /** RegistryBackend.name */
+  backend: string;
+  reason?: string;
+  /** ISO timestamp */
+  at: string;
+}
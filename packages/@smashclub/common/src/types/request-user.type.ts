@@ -9,10 +9,21 @@ export interface RequestUser {
   email?: string;
   /** User roles - string array for flexibility */
   roles: string[];
+  /** Extra permission claims (gateway header or JWT), on top of role permissions */
+  permissions?: string[];
   /** Additional claims from JWT */
   [key: string]: unknown;
 }
 
+/**
+ * Why authentication failed, recorded on the request (request.authError)
+ * so the auth guard can answer 401 with a precise error code
+ */
+export interface RequestAuthError {
+  code: string;
+  message: string;
+}
+
 /**
  * Extended Express Request with user
  */
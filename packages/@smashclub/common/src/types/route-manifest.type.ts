@@ -0,0 +1,59 @@
+/**
+ * Effective limit of one named throttler on a route
+ */
+export interface RouteThrottle {
+  /** Throttler name ('default' unless named throttlers are configured) */
+  name: string;
+  /** Set by @SkipThrottle() */
+  skip?: boolean;
+  /** Requests per window (omitted when skipped or resolved per request) */
+  limit?: number;
+  /** Window length in ms */
+  ttl?: number;
+}
+
+/**
+ * One controller route, as the gateway sees it
+ */
+export interface RouteManifestEntry {
+  /** GET, POST, ... (ALL for @All()) */
+  method: string;
+  /** Full path including the global prefix, e.g. /api/courts/:id */
+  path: string;
+  /** Controller.handler, for debugging drift */
+  handler: string;
+  /** @Public() */
+  public: boolean;
+  /** @Roles() requirements; omitted when any authenticated user may call it */
+  roles?: {
+    anyOf?: string[];
+    allOf?: string[];
+    /** @MinRole() */
+    min?: string;
+  };
+  /** @RequirePermissions() requirements */
+  permissions?: {
+    anyOf?: string[];
+    allOf?: string[];
+  };
+  /** @AllowServices(): internal services that may call it ('*' for any) */
+  allowServices?: string[];
+  throttle?: RouteThrottle[];
+}
+
+/**
+ * What the service publishes at registration
+ * `hash` only covers service-level content (not instance ids or timestamps),
+ * so instances of the same build share it and the gateway can spot drift.
+ */
+export interface RouteManifest {
+  version: 1;
+  service: string;
+  /** Relative share of traffic (default: 100) */
+  weight: number;
+  zone?: string;
+  tags: string[];
+  routes: RouteManifestEntry[];
+  /** sha256:<hex> of the fields above */
+  hash: string;
+}
@@ -0,0 +1,13 @@
+/**
+ * An instance of a service, as listed by the gateway's GET /registry
+ */
+export interface ServiceInstance {
+  instanceId: string;
+  baseUrl: string;
+  /** Relative share of traffic (default: 100) */
+  weight: number;
+  zone?: string;
+  tags: string[];
+}
+
+export type LoadBalancingStrategy = 'round-robin' | 'least-outstanding' | 'weighted';
@@ -0,0 +1,40 @@
+import { RequestUser } from './request-user.type';
+
+/**
+ * Machine identity of an internal service calling with an API key
+ * (notification sender, bracket generator, ...)
+ *
+ * Stored in request.user like a RequestUser; `permissions` mirrors
+ * `scopes` so @RequirePermissions() works for services too.
+ */
+export interface ServiceIdentity extends RequestUser {
+  isService: true;
+  /** Calling service name, e.g. 'notification-service' */
+  serviceName: string;
+  /** Scopes granted to the API key */
+  scopes: string[];
+}
+
+/**
+ * Stored API key (the key itself is never stored, only its hash)
+ */
+export interface ApiKeyRecord {
+  /** Public key identifier, safe to log */
+  keyId: string;
+  /** SHA-256 hex digest of the full key */
+  keyHash: string;
+  serviceName: string;
+  scopes: string[];
+  createdAt: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * Reasons an API key can be rejected
+ */
+export enum ApiKeyRejectionReason {
+  API_KEY_INVALID = 'API_KEY_INVALID',
+  API_KEY_EXPIRED = 'API_KEY_EXPIRED',
+  API_KEY_REVOKED = 'API_KEY_REVOKED',
+}
@@ -0,0 +1,37 @@
+import { RequestUser } from './request-user.type';
+
+/**
+ * Identity envelope signed by the Gateway and forwarded as x-user-* headers
+ */
+export interface SignedIdentityEnvelope {
+  /** User ID */
+  id: string;
+  /** User roles, in the order they were sent */
+  roles: string[];
+  /** User email */
+  email?: string;
+  /** Extra permission claims */
+  permissions?: string[];
+  /** Issued-at timestamp (ms since epoch) */
+  iat: number;
+  /** Random single-use value, used for replay protection */
+  nonce: string;
+}
+
+/**
+ * Reasons a signed identity can be rejected
+ */
+export enum IdentityRejectionReason {
+  MISSING_SIGNATURE = 'MISSING_SIGNATURE',
+  MALFORMED_SIGNATURE = 'MALFORMED_SIGNATURE',
+  INVALID_SIGNATURE = 'INVALID_SIGNATURE',
+  STALE_SIGNATURE = 'STALE_SIGNATURE',
+  REPLAYED_SIGNATURE = 'REPLAYED_SIGNATURE',
+}
+
+/**
+ * Outcome of verifying signed identity headers
+ */
+export type IdentityVerificationResult =
+  | { valid: true; user: RequestUser; envelope: SignedIdentityEnvelope }
+  | { valid: false; reason: IdentityRejectionReason };
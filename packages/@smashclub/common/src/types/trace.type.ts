@@ -0,0 +1,56 @@
+/**
+ * Identity of a span, as carried by W3C traceparent / tracestate
+ */
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  /** Sampled flag of traceparent (only sampled spans are exported) */
+  sampled: boolean;
+  /** Raw W3C tracestate, forwarded untouched */
+  tracestate?: string;
+}
+
+export type SpanKind = 'internal' | 'server' | 'client';
+
+export type SpanStatus = 'unset' | 'ok' | 'error';
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface SpanEvent {
+  name: string;
+  /** ms since epoch */
+  time: number;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * A finished span, handed to exporters
+ */
+export interface SpanData {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  /** ms since epoch (fractional) */
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  status: SpanStatus;
+  statusMessage?: string;
+  events: SpanEvent[];
+  /** Service that produced the span */
+  service: string;
+}
+
+/**
+ * Destination for finished spans
+ */
+export interface SpanExporter {
+  readonly name: string;
+  export(spans: SpanData[]): void | Promise<void>;
+  /** Flush and release resources */
+  shutdown?(): void | Promise<void>;
+}
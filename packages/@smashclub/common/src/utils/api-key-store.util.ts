@@ -0,0 +1,91 @@
+import { createHash, randomBytes } from 'crypto';
+import { ApiKeyRecord } from '../types/service-identity.type';
+
+const API_KEY_PREFIX = 'sck';
+
+/**
+ * Hash an API key for storage / lookup (keys are random, so plain SHA-256 is enough)
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Generate a new API key: `sck_<keyId>_<secret>`
+ */
+export function generateApiKey(): { keyId: string; apiKey: string } {
+  const keyId = randomBytes(6).toString('hex');
+  const secret = randomBytes(24).toString('base64url');
+  return { keyId, apiKey: `${API_KEY_PREFIX}_${keyId}_${secret}` };
+}
+
+/**
+ * Lookup of API keys by hash
+ */
+export interface ApiKeyStore {
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+}
+
+/**
+ * Process-local API key store, for tests and single-instance setups
+ *
+ * @example
+ * ```ts
+ * const store = new InMemoryApiKeyStore();
+ * const { apiKey } = store.issue('notification-service', ['booking:read:any']);
+ * // hand apiKey to notification-service, it is not retrievable afterwards
+ * ```
+ */
+export class InMemoryApiKeyStore implements ApiKeyStore {
+  private readonly records = new Map<string, ApiKeyRecord>();
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    return this.records.get(keyHash) ?? null;
+  }
+
+  /**
+   * Add an existing key (e.g. loaded from config) by its plain value
+   */
+  add(
+    apiKey: string,
+    serviceName: string,
+    scopes: string[] = [],
+    expiresAt?: Date,
+  ): ApiKeyRecord {
+    const record: ApiKeyRecord = {
+      keyId: apiKey.split('_')[1] ?? hashApiKey(apiKey).slice(0, 12),
+      keyHash: hashApiKey(apiKey),
+      serviceName,
+      scopes,
+      createdAt: new Date(),
+      expiresAt,
+    };
+    this.records.set(record.keyHash, record);
+    return record;
+  }
+
+  /**
+   * Generate and store a new key; the plain key is only returned here
+   */
+  issue(
+    serviceName: string,
+    scopes: string[] = [],
+    expiresAt?: Date,
+  ): { apiKey: string; record: ApiKeyRecord } {
+    const { apiKey } = generateApiKey();
+    return { apiKey, record: this.add(apiKey, serviceName, scopes, expiresAt) };
+  }
+
+  /**
+   * Revoke a key by its keyId
+   */
+  revoke(keyId: string): boolean {
+    for (const record of this.records.values()) {
+      if (record.keyId === keyId && !record.revokedAt) {
+        record.revokedAt = new Date();
+        return true;
+      }
+    }
+    return false;
+  }
+}
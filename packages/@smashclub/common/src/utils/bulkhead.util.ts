@@ -0,0 +1,107 @@
+import { getCommonMetrics } from './common-metrics.util';
+
+/**
+ * The bulkhead is full: the call was rejected without being attempted
+ */
+export class BulkheadRejectedError extends Error {
+  readonly retryable = false;
+
+  constructor(public readonly bulkhead: string, reason: string) {
+    super(`Bulkhead ${bulkhead} rejected the call: ${reason}`);
+    this.name = 'BulkheadRejectedError';
+  }
+}
+
+export interface BulkheadOptions {
+  /** Name in errors and metrics */
+  name: string;
+  /** Calls running at once (default: 10) */
+  maxConcurrent?: number;
+  /** Calls waiting for a slot; more are rejected (default: 0) */
+  maxQueue?: number;
+  /** Max wait for a slot, in ms (default: no limit) */
+  queueTimeoutMs?: number;
+}
+
+/**
+ * Caps concurrent calls to a dependency, so a slow one can't tie up
+ * every request of the service
+ *
+ * @example
+ * ```ts
+ * const reports = new Bulkhead({ name: 'report-export', maxConcurrent: 2, maxQueue: 10 });
+ * await reports.execute(() => exportReport(clubId));
+ * ```
+ */
+export class Bulkhead {
+  readonly name: string;
+  private readonly maxConcurrent: number;
+  private readonly maxQueue: number;
+  private readonly queueTimeoutMs?: number;
+  private running = 0;
+  private readonly queue: Array<{ start: () => void; timer?: ReturnType<typeof setTimeout> }> = [];
+
+  constructor(options: BulkheadOptions) {
+    this.name = options.name;
+    this.maxConcurrent = options.maxConcurrent ?? 10;
+    this.maxQueue = options.maxQueue ?? 0;
+    this.queueTimeoutMs = options.queueTimeoutMs;
+  }
+
+  get active(): number {
+    return this.running;
+  }
+
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * @throws BulkheadRejectedError when full, or when the queue wait times out
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.running < this.maxConcurrent) {
+      this.running++;
+      return Promise.resolve();
+    }
+    if (this.queue.length >= this.maxQueue) {
+      return Promise.reject(this.reject('full'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const entry: (typeof this.queue)[number] = {
+        start: () => {
+          clearTimeout(entry.timer);
+          this.running++;
+          resolve();
+        },
+      };
+      if (this.queueTimeoutMs !== undefined) {
+        entry.timer = setTimeout(() => {
+          this.queue.splice(this.queue.indexOf(entry), 1);
+          reject(this.reject(`no slot within ${this.queueTimeoutMs}ms`));
+        }, this.queueTimeoutMs);
+      }
+      this.queue.push(entry);
+    });
+  }
+
+  private release(): void {
+    this.running--;
+    this.queue.shift()?.start();
+  }
+
+  private reject(reason: string): BulkheadRejectedError {
+    getCommonMetrics().resilienceEvents.inc({ policy: 'bulkhead', name: this.name, event: 'rejected' });
+    return new BulkheadRejectedError(this.name, reason);
+  }
+}
@@ -0,0 +1,170 @@
+import { Logger } from '@nestjs/common';
+import { getCommonMetrics } from './common-metrics.util';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/** circuit_breaker_state values */
+const STATE_VALUES: Record<CircuitState, number> = { closed: 0, 'half-open': 1, open: 2 };
+
+/**
+ * The circuit is open: the call was rejected without being attempted
+ */
+export class CircuitOpenError extends Error {
+  /** Retrying right away would be rejected too */
+  readonly retryable = false;
+
+  constructor(public readonly circuit: string) {
+    super(`Circuit ${circuit} is open`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export interface CircuitBreakerOptions {
+  /** Name in logs and metrics */
+  name: string;
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before probing, in ms (default: 30000) */
+  resetTimeoutMs?: number;
+  /** Successful probes needed to close again (default: 1) */
+  successThreshold?: number;
+  /** Probes allowed at once while half-open (default: 1) */
+  halfOpenMaxCalls?: number;
+  /** Whether an error counts as a failure (default: every error) */
+  isFailure?: (error: unknown) => boolean;
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+/**
+ * Stops calling a dependency that keeps failing
+ *
+ * closed: calls go through; failureThreshold failures in a row open it.
+ * open: calls fail fast with CircuitOpenError for resetTimeoutMs.
+ * half-open: up to halfOpenMaxCalls probes go through; successThreshold
+ * successes close the circuit, any failure opens it again.
+ *
+ * @example
+ * ```ts
+ * const paymentCircuit = new CircuitBreaker({ name: 'payment-service', failureThreshold: 3 });
+ * const charge = await paymentCircuit.execute(() => payments.charge(booking));
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly logger = new Logger(CircuitBreaker.name);
+  readonly name: string;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly successThreshold: number;
+  private readonly halfOpenMaxCalls: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly onStateChange?: CircuitBreakerOptions['onStateChange'];
+  private currentState: CircuitState = 'closed';
+  private failures = 0;
+  private successes = 0;
+  private probes = 0;
+  private openedAt = 0;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.name = options.name;
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000;
+    this.successThreshold = options.successThreshold ?? 1;
+    this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1;
+    this.isFailure = options.isFailure ?? (() => true);
+    this.onStateChange = options.onStateChange;
+    getCommonMetrics().circuitBreakerState.set({ name: this.name }, STATE_VALUES.closed);
+  }
+
+  /** Current state (an open circuit past its reset timeout reports half-open) */
+  get state(): CircuitState {
+    if (this.currentState === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.transition('half-open');
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Run `fn` through the breaker
+   * @throws CircuitOpenError when open (or half-open with every probe slot taken)
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.probes >= this.halfOpenMaxCalls)) {
+      getCommonMetrics().resilienceEvents.inc({ policy: 'circuit_breaker', name: this.name, event: 'rejected' });
+      throw new CircuitOpenError(this.name);
+    }
+
+    const probing = state === 'half-open';
+    if (probing) this.probes++;
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (probing) this.probes--;
+    }
+  }
+
+  /** Record an outcome observed outside execute() */
+  recordSuccess(): void {
+    this.onSuccess();
+  }
+
+  recordFailure(): void {
+    this.onFailure();
+  }
+
+  /** Force the circuit closed and forget past failures */
+  reset(): void {
+    this.failures = 0;
+    this.successes = 0;
+    this.transition('closed');
+  }
+
+  private onSuccess(): void {
+    if (this.currentState === 'half-open') {
+      if (++this.successes >= this.successThreshold) this.reset();
+      return;
+    }
+    this.failures = 0;
+  }
+
+  private onFailure(): void {
+    if (this.currentState === 'half-open') {
+      this.open();
+      return;
+    }
+    if (this.currentState === 'closed' && ++this.failures >= this.failureThreshold) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.failures = 0;
+    this.successes = 0;
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.currentState;
+    if (previous === state) return;
+
+    this.currentState = state;
+    getCommonMetrics().circuitBreakerState.set({ name: this.name }, STATE_VALUES[state]);
+    const message = `Circuit ${this.name}: ${previous} -> ${state}`;
+    if (state === 'open') {
+      this.logger.warn(message);
+    } else {
+      this.logger.log(message);
+    }
+    this.onStateChange?.(state, previous);
+  }
+}
@@ -0,0 +1,137 @@
+import {
+  Counter,
+  Gauge,
+  getMetricsRegistry,
+  Histogram,
+  MetricsRegistry,
+} from './metrics.util';
+
+/**
+ * Metrics recorded by @smashclub/common itself
+ */
+export interface CommonMetrics {
+  /** MetricsInterceptor: labels method, route (template), status */
+  httpRequestDuration: Histogram;
+  /** RepositoryLogger / @LogQuery: labels repository, operation, outcome */
+  repositoryQueryDuration: Histogram;
+  /** UserThrottleGuard: labels route */
+  throttleRejections: Counter;
+  /** GatewayRegistryService: 1 while registered, 0 otherwise */
+  gatewayRegistrationState: Gauge;
+  gatewayRegistrationFailures: Counter;
+  gatewayHeartbeatFailures: Counter;
+  /** HealthService: 1 when an indicator is up, 0 when down; labels check */
+  healthCheckStatus: Gauge;
+  /** InFlightInterceptor: requests currently being handled */
+  httpRequestsInFlight: Gauge;
+  /** ShutdownCoordinator: 1 once draining has started */
+  shutdownDraining: Gauge;
+  /** ShutdownCoordinator: time spent in each phase; labels phase */
+  shutdownPhaseDuration: Gauge;
+  /** ServiceClient: labels service, outcome (status code or 'error') */
+  serviceClientRequestDuration: Histogram;
+  /** ServiceClient: instances taken out of rotation after failures */
+  serviceClientEjections: Counter;
+  /** CircuitBreaker: 0 closed, 1 half-open, 2 open; labels name */
+  circuitBreakerState: Gauge;
+  /** Resilience policies: labels policy, name, event (retry, timeout, rejected) */
+  resilienceEvents: Counter;
+  /** Sampled at scrape time */
+  processResidentMemory: Gauge;
+  processHeapUsed: Gauge;
+}
+
+const byRegistry = new WeakMap<MetricsRegistry, CommonMetrics>();
+
+/**
+ * Built-in metrics of a registry (the process-wide one by default),
+ * created on first use
+ */
+export function getCommonMetrics(registry = getMetricsRegistry()): CommonMetrics {
+  let metrics = byRegistry.get(registry);
+  if (metrics) return metrics;
+
+  metrics = {
+    httpRequestDuration: registry.histogram({
+      name: 'http_request_duration_seconds',
+      help: 'HTTP request latency by route template and status code',
+      labelNames: ['method', 'route', 'status'],
+    }),
+    repositoryQueryDuration: registry.histogram({
+      name: 'repository_query_duration_seconds',
+      help: 'Repository operation latency',
+      labelNames: ['repository', 'operation', 'outcome'],
+    }),
+    throttleRejections: registry.counter({
+      name: 'throttle_rejections_total',
+      help: 'Requests rejected by UserThrottleGuard',
+      labelNames: ['route'],
+    }),
+    gatewayRegistrationState: registry.gauge({
+      name: 'gateway_registration_state',
+      help: 'Whether this instance is registered with the gateway (1) or not (0)',
+      labelNames: ['service', 'instance_id'],
+    }),
+    gatewayRegistrationFailures: registry.counter({
+      name: 'gateway_registration_failures_total',
+      help: 'Failed registration attempts',
+      labelNames: ['service'],
+    }),
+    gatewayHeartbeatFailures: registry.counter({
+      name: 'gateway_heartbeat_failures_total',
+      help: 'Failed heartbeats',
+      labelNames: ['service'],
+    }),
+    healthCheckStatus: registry.gauge({
+      name: 'health_check_status',
+      help: 'Last result of each health indicator (1 up, 0 down)',
+      labelNames: ['check'],
+    }),
+    httpRequestsInFlight: registry.gauge({
+      name: 'http_requests_in_flight',
+      help: 'HTTP requests currently being handled',
+    }),
+    shutdownDraining: registry.gauge({
+      name: 'shutdown_draining',
+      help: 'Whether this instance is draining before shutdown (1) or not (0)',
+    }),
+    shutdownPhaseDuration: registry.gauge({
+      name: 'shutdown_phase_duration_seconds',
+      help: 'Time spent in each graceful shutdown phase',
+      labelNames: ['phase'],
+    }),
+    serviceClientRequestDuration: registry.histogram({
+      name: 'service_client_request_duration_seconds',
+      help: 'Latency of calls to other services through ServiceClient',
+      labelNames: ['service', 'outcome'],
+    }),
+    serviceClientEjections: registry.counter({
+      name: 'service_client_ejections_total',
+      help: 'Instances ejected from ServiceClient load balancing',
+      labelNames: ['service'],
+    }),
+    circuitBreakerState: registry.gauge({
+      name: 'circuit_breaker_state',
+      help: 'State of each circuit breaker (0 closed, 1 half-open, 2 open)',
+      labelNames: ['name'],
+    }),
+    resilienceEvents: registry.counter({
+      name: 'resilience_events_total',
+      help: 'Retries, timeouts and rejections of resilience policies',
+      labelNames: ['policy', 'name', 'event'],
+    }),
+    processResidentMemory: registry.gauge({
+      name: 'process_resident_memory_bytes',
+      help: 'Resident memory size in bytes',
+      collect: (gauge) => gauge.set(undefined, process.memoryUsage().rss),
+    }),
+    processHeapUsed: registry.gauge({
+      name: 'nodejs_heap_size_used_bytes',
+      help: 'Process heap size used in bytes',
+      collect: (gauge) => gauge.set(undefined, process.memoryUsage().heapUsed),
+    }),
+  };
+
+  byRegistry.set(registry, metrics);
+  return metrics;
+}
@@ -0,0 +1,137 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { CORRELATION_CONSTANTS } from '../constants/correlation.constant';
+import { CorrelationContext } from '../types/correlation.type';
+import { HeaderBag, readHeader } from './signed-identity.util';
+import { formatTraceparent, parseTraceparent } from './trace-context.util';
+import { getActiveSpan } from './tracer.util';
+
+const storage = new AsyncLocalStorage<CorrelationContext>();
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]+$/;
+
+/**
+ * New random request id
+ */
+export function generateRequestId(): string {
+  return randomUUID();
+}
+
+/**
+ * Incoming request id if it is safe to log and echo, otherwise undefined
+ */
+export function sanitizeRequestId(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (
+    trimmed.length === 0 ||
+    trimmed.length > CORRELATION_CONSTANTS.MAX_REQUEST_ID_LENGTH ||
+    !REQUEST_ID_PATTERN.test(trimmed)
+  ) {
+    return undefined;
+  }
+  return trimmed;
+}
+
+/**
+ * Build the correlation context of an incoming request
+ * The request id is generated when the header is missing or unusable.
+ */
+export function createCorrelationContext(
+  headers: HeaderBag,
+  options: { service?: string; generateId?: () => string } = {},
+): CorrelationContext {
+  const trace = parseTraceparent(
+    readHeader(headers, CORRELATION_CONSTANTS.TRACEPARENT_HEADER),
+    readHeader(headers, CORRELATION_CONSTANTS.TRACESTATE_HEADER),
+  );
+
+  return {
+    requestId:
+      sanitizeRequestId(readHeader(headers, CORRELATION_CONSTANTS.X_REQUEST_ID_HEADER)) ??
+      (options.generateId ?? generateRequestId)(),
+    service: options.service,
+    ...(trace && {
+      traceparent: formatTraceparent(trace),
+      tracestate: trace.tracestate,
+      traceId: trace.traceId,
+    }),
+  };
+}
+
+/**
+ * Run `fn` with `context` as the current correlation context
+ * Everything started from `fn` (promises, timers, callbacks) sees it.
+ */
+export function runWithCorrelation<T>(context: CorrelationContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Correlation context of the current request, if any
+ */
+export function getCorrelationContext(): CorrelationContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Request id of the current request, if any
+ */
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+/**
+ * Add values to the current context (e.g. userId once authenticated)
+ * No-op outside a correlated request.
+ */
+export function updateCorrelationContext(
+  values: Partial<Omit<CorrelationContext, 'requestId'>>,
+): void {
+  const context = storage.getStore();
+  if (context) {
+    Object.assign(context, values);
+  }
+}
+
+/**
+ * Headers to forward on outbound calls made while handling a request
+ * The active span (if tracing is on) becomes the parent of the remote span.
+ */
+export function getCorrelationHeaders(): Record<string, string> {
+  const context = storage.getStore();
+  const span = getActiveSpan();
+  if (!context && !span) return {};
+
+  const traceparent = span?.traceparent ?? context?.traceparent;
+  const tracestate = span ? span.context.tracestate : context?.tracestate;
+
+  return {
+    ...(context && { [CORRELATION_CONSTANTS.X_REQUEST_ID_HEADER]: context.requestId }),
+    ...(traceparent && { [CORRELATION_CONSTANTS.TRACEPARENT_HEADER]: traceparent }),
+    ...(tracestate && { [CORRELATION_CONSTANTS.TRACESTATE_HEADER]: tracestate }),
+  };
+}
+
+/**
+ * fetch() that forwards the current request id and trace context
+ * (traceparent / tracestate)
+ * Headers set explicitly by the caller win.
+ *
+ * @example
+ * ```ts
+ * const res = await correlatedFetch(`${courtServiceUrl}/courts/${id}`);
+ * ```
+ */
+export function correlatedFetch(
+  input: string | URL | Request,
+  init: RequestInit = {},
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  for (const [name, value] of Object.entries(getCorrelationHeaders())) {
+    if (!headers.has(name)) {
+      headers.set(name, value);
+    }
+  }
+  return fetch(input, { ...init, headers });
+}
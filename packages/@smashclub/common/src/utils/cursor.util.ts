@@ -0,0 +1,124 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { createHmac, randomBytes } from 'crypto';
+import { COMMON_ENV_SCHEMA } from '../config/common-env.schema';
+import { pickConfigSchema, validateConfig } from '../config/config-schema.util';
+import { CursorPayload } from '../types/pagination.type';
+import { buildHmacSignature, verifyHmacSignature } from './signature-verify.util';
+
+const CURSOR_ENV_SCHEMA = pickConfigSchema(COMMON_ENV_SCHEMA, [
+  'PAGINATION_CURSOR_SECRET',
+  'GATEWAY_SIGNING_SECRETS',
+  'JWT_SECRET',
+]);
+
+/** Cursor format version, bumped if the payload shape changes */
+const CURSOR_VERSION = 1;
+
+/**
+ * A cursor was malformed, tampered with, or issued for another sort (400)
+ */
+export class InvalidCursorError extends BadRequestException {
+  constructor(reason: string) {
+    super(`Invalid cursor: ${reason}`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+let cursorSecret: string | undefined;
+
+/**
+ * Secret signing pagination cursors: PAGINATION_CURSOR_SECRET, else a key
+ * derived from a secret every instance shares (current GATEWAY_SIGNING_SECRETS
+ * entry, or JWT_SECRET), else a random one per process - cursors then only
+ * work on the instance that issued them, which is logged
+ * @throws ConfigValidationError if one of those variables is malformed
+ */
+export function getCursorSecret(): string {
+  if (cursorSecret) return cursorSecret;
+
+  const env = validateConfig(CURSOR_ENV_SCHEMA, (key) => process.env[key]);
+  const shared = env.GATEWAY_SIGNING_SECRETS?.[0] ?? env.JWT_SECRET;
+  if (env.PAGINATION_CURSOR_SECRET) {
+    cursorSecret = env.PAGINATION_CURSOR_SECRET;
+  } else if (shared) {
+    // Derived, so a leaked cursor key can't sign identities or tokens
+    cursorSecret = createHmac('sha256', shared).update('smashclub:pagination-cursor').digest('hex');
+  } else {
+    new Logger('Pagination').warn(
+      'PAGINATION_CURSOR_SECRET not set - cursors only work on the instance that issued them',
+    );
+    cursorSecret = randomBytes(32).toString('hex');
+  }
+  return cursorSecret;
+}
+
+export function setCursorSecret(secret: string): void {
+  cursorSecret = secret;
+}
+
+/** Dates survive the JSON round trip as { $date: iso } */
+function serializeValue(value: unknown): unknown {
+  return value instanceof Date ? { $date: value.toISOString() } : value;
+}
+
+function deserializeValue(value: unknown): unknown {
+  if (value && typeof value === 'object' && typeof (value as { $date?: unknown }).$date === 'string') {
+    return new Date((value as { $date: string }).$date);
+  }
+  return value;
+}
+
+/**
+ * Opaque, signed cursor: base64url(JSON payload) + '.' + HMAC
+ *
+ * @example
+ * ```ts
+ * const cursor = encodeCursor({ direction: 'after', sort: 'startsAt:desc,id:desc', values: [row.startsAt, row.id] });
+ * ```
+ */
+export function encodeCursor(payload: CursorPayload, secret = getCursorSecret()): string {
+  const body = Buffer.from(
+    JSON.stringify({
+      v: CURSOR_VERSION,
+      d: payload.direction === 'before' ? 'b' : 'a',
+      s: payload.sort,
+      k: payload.values.map(serializeValue),
+    }),
+  ).toString('base64url');
+  return `${body}.${buildHmacSignature(body, secret)}`;
+}
+
+/**
+ * Verify and decode a cursor from encodeCursor()
+ * @param expectedSort Sort of the current request; a cursor issued for
+ *   another sort is rejected
+ * @throws InvalidCursorError
+ */
+export function decodeCursor(cursor: string, expectedSort?: string, secret = getCursorSecret()): CursorPayload {
+  const [body, signature, extra] = cursor.split('.');
+  if (!body || !signature || extra !== undefined) {
+    throw new InvalidCursorError('malformed');
+  }
+  if (!verifyHmacSignature(body, signature, secret)) {
+    throw new InvalidCursorError('bad signature');
+  }
+
+  let raw: { v?: unknown; d?: unknown; s?: unknown; k?: unknown };
+  try {
+    raw = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError('malformed');
+  }
+  if (raw.v !== CURSOR_VERSION || typeof raw.s !== 'string' || !Array.isArray(raw.k)) {
+    throw new InvalidCursorError('unsupported format');
+  }
+  if (expectedSort !== undefined && raw.s !== expectedSort) {
+    throw new InvalidCursorError('issued for another sort');
+  }
+
+  return {
+    direction: raw.d === 'b' ? 'before' : 'after',
+    sort: raw.s,
+    values: raw.k.map(deserializeValue),
+  };
+}
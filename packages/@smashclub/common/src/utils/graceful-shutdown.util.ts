@@ -0,0 +1,53 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { ShutdownCoordinator } from '../services/shutdown-coordinator.service';
+
+export interface GracefulShutdownOptions {
+  /** Signals to handle (default: SIGTERM, SIGINT) */
+  signals?: NodeJS.Signals[];
+  /** Exit with process.exit(0) instead of re-raising the signal (default: false) */
+  useProcessExit?: boolean;
+}
+
+/**
+ * Drain through ShutdownCoordinator on SIGTERM / SIGINT, then close the app
+ * Replaces app.enableShutdownHooks(), which would run onModuleDestroy
+ * (closing database connections) while requests are still in flight.
+ *
+ * @example
+ * ```ts
+ * const app = await NestFactory.create(AppModule);
+ * enableGracefulShutdown(app);
+ * await app.listen(port);
+ * ```
+ */
+export function enableGracefulShutdown(
+  app: INestApplicationContext,
+  options: GracefulShutdownOptions = {},
+): void {
+  const logger = new Logger('GracefulShutdown');
+  const signals = options.signals ?? ['SIGTERM', 'SIGINT'];
+  let received = false;
+
+  const handler = async (signal: NodeJS.Signals): Promise<void> => {
+    // A second signal while draining is ignored, as with enableShutdownHooks
+    if (received) return;
+    received = true;
+
+    try {
+      await app.get(ShutdownCoordinator, { strict: false }).shutdown(signal);
+      await app.close();
+    } catch (error) {
+      logger.error(`Shutdown failed: ${(error as Error).message}`, (error as Error).stack);
+      process.exitCode = 1;
+    } finally {
+      signals.forEach((s) => process.removeListener(s, handler));
+      if (options.useProcessExit) {
+        process.exit();
+      } else {
+        process.kill(process.pid, signal);
+      }
+    }
+  };
+
+  signals.forEach((signal) => process.on(signal, handler));
+}
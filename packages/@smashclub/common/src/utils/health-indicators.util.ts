@@ -0,0 +1,120 @@
+import { monitorEventLoopDelay } from 'node:perf_hooks';
+import { getHeapStatistics } from 'node:v8';
+import type { GatewayRegistryService } from '../services/gateway-registry.service';
+import { HealthIndicator, HealthIndicatorResult } from '../types/health.type';
+
+export interface EventLoopLagIndicatorOptions {
+  /** Down when the p99 delay since the previous check exceeds this (ms, default: 1000) */
+  maxLagMs?: number;
+}
+
+/**
+ * Event-loop delay, sampled continuously between checks
+ * (liveness and readiness: a blocked loop serves nothing)
+ */
+export function eventLoopLagIndicator(
+  options: EventLoopLagIndicatorOptions = {},
+): HealthIndicator {
+  const maxLagMs = options.maxLagMs ?? 1000;
+  const histogram = monitorEventLoopDelay({ resolution: 20 });
+  histogram.enable();
+
+  return {
+    name: 'eventLoop',
+    probes: ['liveness', 'readiness'],
+    check: () => {
+      // Values are in ns; nothing recorded yet right after startup
+      const p99 = histogram.count > 0 ? histogram.percentile(99) / 1e6 : 0;
+      const max = histogram.count > 0 ? histogram.max / 1e6 : 0;
+      histogram.reset();
+
+      const details = { p99LagMs: Math.round(p99), maxLagMs: Math.round(max) };
+      return p99 > maxLagMs
+        ? { status: 'down', details, error: `Event-loop lag ${Math.round(p99)}ms exceeds ${maxLagMs}ms` }
+        : { status: 'up', details };
+    },
+  };
+}
+
+export interface HeapUsageIndicatorOptions {
+  /** Down when heap used / heap size limit exceeds this (0..1, default: 0.95) */
+  maxUsedRatio?: number;
+}
+
+/**
+ * V8 heap usage against the heap size limit
+ */
+export function heapUsageIndicator(options: HeapUsageIndicatorOptions = {}): HealthIndicator {
+  const maxUsedRatio = options.maxUsedRatio ?? 0.95;
+
+  return {
+    name: 'heap',
+    probes: ['liveness', 'readiness'],
+    check: () => {
+      const { used_heap_size, heap_size_limit } = getHeapStatistics();
+      const ratio = used_heap_size / heap_size_limit;
+      const details = {
+        usedBytes: used_heap_size,
+        limitBytes: heap_size_limit,
+        usedRatio: Math.round(ratio * 1000) / 1000,
+      };
+      return ratio > maxUsedRatio
+        ? { status: 'down', details, error: `Heap usage ${(ratio * 100).toFixed(1)}% exceeds ${maxUsedRatio * 100}%` }
+        : { status: 'up', details };
+    },
+  };
+}
+
+/**
+ * Registration with the gateway (readiness only)
+ * Always up when registration is disabled: the instance is reached directly.
+ */
+export function gatewayRegistrationIndicator(
+  registry: Pick<GatewayRegistryService, 'getRegistrationInfo' | 'isEnabled'>,
+): HealthIndicator {
+  return {
+    name: 'gateway',
+    probes: ['readiness'],
+    check: () => {
+      if (!registry.isEnabled()) {
+        return { status: 'up', details: { enabled: false } };
+      }
+
+      const { registered, instanceId, gatewayUrl } = registry.getRegistrationInfo();
+      const details = { registered, instanceId, gatewayUrl };
+      return registered
+        ? { status: 'up', details }
+        : { status: 'down', details, error: 'Not registered with the gateway' };
+    },
+  };
+}
+
+export interface PingIndicatorOptions {
+  probes?: HealthIndicator['probes'];
+  critical?: boolean;
+}
+
+/**
+ * Indicator that is up when `ping` resolves; for databases, caches, brokers
+ *
+ * @example
+ * ```ts
+ * healthService.register(pingIndicator('database', () => prisma.$queryRaw`SELECT 1`));
+ * healthService.register(pingIndicator('redis', () => redis.ping(), { critical: false }));
+ * ```
+ */
+export function pingIndicator(
+  name: string,
+  ping: () => Promise<unknown>,
+  options: PingIndicatorOptions = {},
+): HealthIndicator {
+  return {
+    name,
+    probes: options.probes,
+    critical: options.critical,
+    check: async (): Promise<HealthIndicatorResult> => {
+      await ping();
+      return { status: 'up' };
+    },
+  };
+}
@@ -2,3 +2,31 @@ export * from './timezone.util';
 export * from './string.util';
 export * from './signature-verify.util';
 
+export * from './nonce-store.util';
+export * from './signed-identity.util';
+export * from './role.util';
+export * from './permission.util';
+export * from './jwks.util';
+export * from './jwt-verifier.util';
+export * from './service-identity.util';
+export * from './api-key-store.util';
+export * from './correlation-context.util';
+export * from './instance-id.util';
+export * from './redaction.util';
+export * from './metrics.util';
+export * from './common-metrics.util';
+export * from './route.util';
+export * from './trace-context.util';
+export * from './tracer.util';
+export * from './health-indicators.util';
+export * from './graceful-shutdown.util';
+export * from './route-manifest.util';
+export * from './load-balancer.util';
+export * from './retry.util';
+export * from './timeout.util';
+export * from './circuit-breaker.util';
+export * from './bulkhead.util';
+export * from './resilience.util';
+export * from './cursor.util';
+export * from './keyset.util';
+export * from './query-parser.util';
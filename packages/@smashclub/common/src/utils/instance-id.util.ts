@@ -0,0 +1,12 @@
+import { randomUUID } from 'crypto';
+
+/** Random suffix shared by everything in this process */
+const processSuffix = randomUUID().slice(0, 8);
+
+/**
+ * Instance ID used when SERVICE_INSTANCE_ID is not set: `<service>-<random>`
+ * Stable for the process lifetime, so logs and the gateway registration agree.
+ */
+export function getDefaultInstanceId(serviceName: string): string {
+  return `${serviceName}-${processSuffix}`;
+}
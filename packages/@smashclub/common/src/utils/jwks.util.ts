@@ -0,0 +1,117 @@
+import { Logger } from '@nestjs/common';
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { readFile } from 'fs/promises';
+import { Jwk, JwkSet } from '../types/jwt.type';
+
+export interface JwksKeyStoreOptions {
+  /** JWKS location: a file path or an http(s) URL */
+  source: string;
+  /** How long a loaded key set is reused, in ms (default: 600000) */
+  cacheTtlMs?: number;
+  /** Minimum delay between reloads triggered by an unknown kid, in ms (default: 30000) */
+  minRefreshIntervalMs?: number;
+  /** Timeout for fetching a JWKS URL, in ms (default: 5000) */
+  requestTimeoutMs?: number;
+}
+
+/**
+ * Curve required for each EC algorithm
+ */
+const CURVE_BY_ALGORITHM: Record<string, string> = {
+  ES256: 'P-256',
+};
+
+/**
+ * Loads and caches signing keys from a JWKS document
+ *
+ * Keys are looked up by `kid`; an unknown kid triggers a (rate-limited)
+ * reload so rotated keys are picked up without a restart. Keys that
+ * cannot be imported are skipped, so one bad entry doesn't disable the rest.
+ */
+export class JwksKeyStore {
+  private readonly logger = new Logger(JwksKeyStore.name);
+  private readonly cacheTtlMs: number;
+  private readonly minRefreshIntervalMs: number;
+  private readonly requestTimeoutMs: number;
+  private keys = new Map<string, { jwk: Jwk; key: KeyObject }>();
+  private loadedAt = 0;
+  private loading?: Promise<void>;
+
+  constructor(private readonly options: JwksKeyStoreOptions) {
+    this.cacheTtlMs = options.cacheTtlMs ?? 10 * 60 * 1000;
+    this.minRefreshIntervalMs = options.minRefreshIntervalMs ?? 30 * 1000;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 5000;
+  }
+
+  /**
+   * Get the public key for a kid (or the only key when kid is omitted)
+   */
+  async getKey(kid?: string): Promise<{ jwk: Jwk; key: KeyObject } | null> {
+    if (this.loadedAt === 0 || Date.now() - this.loadedAt > this.cacheTtlMs) {
+      await this.reload();
+    }
+
+    let found = this.find(kid);
+    if (!found && Date.now() - this.loadedAt > this.minRefreshIntervalMs) {
+      await this.reload();
+      found = this.find(kid);
+    }
+    return found;
+  }
+
+  private find(kid?: string): { jwk: Jwk; key: KeyObject } | null {
+    if (kid) return this.keys.get(kid) ?? null;
+    return this.keys.size === 1 ? this.keys.values().next().value ?? null : null;
+  }
+
+  private reload(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    const jwks = await this.fetchKeySet();
+    const keys = new Map<string, { jwk: Jwk; key: KeyObject }>();
+
+    (jwks.keys || []).forEach((jwk, index) => {
+      if (jwk.use && jwk.use !== 'sig') return;
+      const kid = jwk.kid ?? `#${index}`;
+
+      const curve = jwk.alg ? CURVE_BY_ALGORITHM[jwk.alg] : undefined;
+      if (curve && jwk.crv !== curve) {
+        this.logger.warn(`Skipping JWKS key ${kid}: ${jwk.alg} needs curve ${curve}`);
+        return;
+      }
+
+      try {
+        keys.set(kid, { jwk, key: createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' }) });
+      } catch (error) {
+        this.logger.warn(`Skipping JWKS key ${kid}: ${(error as Error).message}`);
+      }
+    });
+
+    this.keys = keys;
+    this.loadedAt = Date.now();
+  }
+
+  private async fetchKeySet(): Promise<JwkSet> {
+    const { source } = this.options;
+
+    if (/^https?:\/\//i.test(source)) {
+      const response = await fetch(source, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(this.requestTimeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to load JWKS from ${source}: ${response.status}`);
+      }
+      return (await response.json()) as JwkSet;
+    }
+
+    return JSON.parse(await readFile(source, 'utf8')) as JwkSet;
+  }
+}
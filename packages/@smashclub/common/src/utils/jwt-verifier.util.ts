@@ -0,0 +1,326 @@
+import {
+  createHmac,
+  createPublicKey,
+  KeyObject,
+  timingSafeEqual,
+  verify as verifySignature,
+} from 'crypto';
+import { COMMON_ENV_SCHEMA } from '../config/common-env.schema';
+import { pickConfigSchema, validateConfig } from '../config/config-schema.util';
+import { SECURITY_CONTANTS } from '../constants/signature.constant';
+import {
+  JwtAlgorithm,
+  JwtClaimPaths,
+  JwtErrorCode,
+  JwtHeader,
+  JwtPayload,
+} from '../types/jwt.type';
+import { RequestUser } from '../types/request-user.type';
+import { JwksKeyStore } from './jwks.util';
+
+/**
+ * Error thrown when a token fails verification
+ */
+export class JwtVerificationError extends Error {
+  constructor(
+    public readonly code: JwtErrorCode,
+    message: string = code,
+  ) {
+    super(message);
+    this.name = 'JwtVerificationError';
+  }
+}
+
+export interface JwtVerifierOptions {
+  /** Accepted algorithms (default: algorithms for which a key is configured) */
+  algorithms?: JwtAlgorithm[];
+  /** Shared secret for HS256 */
+  secret?: string;
+  /** PEM public key for RS256 / ES256 */
+  publicKey?: string;
+  /** JWKS file path or URL for RS256 / ES256 with kid selection */
+  jwks?: string | JwksKeyStore;
+  /** Expected issuer(s) */
+  issuer?: string | string[];
+  /** Expected audience(s) - at least one must be present in `aud` */
+  audience?: string | string[];
+  /** Allowed clock skew in ms (default: SECURITY_CONTANTS.MAX_CLOCK_SKEW_MS) */
+  clockSkewMs?: number;
+  /** Where to read RequestUser fields from */
+  claimPaths?: JwtClaimPaths;
+}
+
+const DEFAULT_CLAIM_PATHS: Required<JwtClaimPaths> = {
+  id: ['sub', 'id', 'userId'],
+  email: 'email',
+  roles: 'roles',
+  permissions: 'permissions',
+};
+
+const HASH_BY_ALGORITHM: Record<JwtAlgorithm, string> = {
+  HS256: 'sha256',
+  RS256: 'sha256',
+  ES256: 'sha256',
+};
+
+/**
+ * Key type (and curve, for EC) each asymmetric algorithm needs
+ */
+const KEY_BY_ALGORITHM: Record<Exclude<JwtAlgorithm, 'HS256'>, { type: string; curve?: string }> = {
+  RS256: { type: 'rsa' },
+  ES256: { type: 'ec', curve: 'prime256v1' },
+};
+
+function keyFitsAlgorithm(key: KeyObject, alg: JwtAlgorithm): boolean {
+  if (alg === 'HS256') return false;
+  const { type, curve } = KEY_BY_ALGORITHM[alg];
+  return (
+    key.asymmetricKeyType === type &&
+    (!curve || key.asymmetricKeyDetails?.namedCurve === curve)
+  );
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new JwtVerificationError(JwtErrorCode.TOKEN_MALFORMED, 'Token segment is not valid JSON');
+  }
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Read a value from a nested object using a dot path ('realm_access.roles')
+ */
+export function readClaimPath(payload: JwtPayload, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value && typeof value === 'object') {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, payload);
+}
+
+const JWT_ENV_SCHEMA = pickConfigSchema(COMMON_ENV_SCHEMA, [
+  'JWT_SECRET',
+  'JWT_PUBLIC_KEY',
+  'JWT_JWKS_URI',
+  'JWT_ISSUER',
+  'JWT_AUDIENCE',
+  'JWT_ALGORITHMS',
+]);
+
+/**
+ * Build verifier options from JWT_* config values
+ * (JWT_SECRET, JWT_PUBLIC_KEY, JWT_JWKS_URI, JWT_ISSUER, JWT_AUDIENCE, JWT_ALGORITHMS)
+ * @throws ConfigValidationError if a JWT_* variable is malformed
+ */
+export function jwtVerifierOptionsFromConfig(
+  get: (key: string) => unknown,
+): JwtVerifierOptions {
+  const env = validateConfig(JWT_ENV_SCHEMA, get);
+  const list = (values: string[] | undefined) =>
+    values && values.length > 0 ? values : undefined;
+
+  return {
+    secret: env.JWT_SECRET,
+    // PEM keys in env files usually have escaped newlines
+    publicKey: env.JWT_PUBLIC_KEY?.replace(/\\n/g, '\n'),
+    jwks: env.JWT_JWKS_URI,
+    issuer: list(env.JWT_ISSUER),
+    audience: list(env.JWT_AUDIENCE),
+    algorithms: list(env.JWT_ALGORITHMS) as JwtAlgorithm[] | undefined,
+  };
+}
+
+/**
+ * Verifies JWTs (HS256 / RS256 / ES256) using Node's crypto module
+ *
+ * @example
+ * ```ts
+ * const verifier = new JwtVerifier({
+ *   jwks: 'https://auth.smashclub.vn/.well-known/jwks.json',
+ *   issuer: 'https://auth.smashclub.vn',
+ *   audience: 'smashclub-api',
+ * });
+ * const payload = await verifier.verify(token);
+ * const user = verifier.toRequestUser(payload);
+ * ```
+ */
+export class JwtVerifier {
+  private readonly algorithms: JwtAlgorithm[];
+  private readonly publicKey?: KeyObject;
+  private readonly jwks?: JwksKeyStore;
+  private readonly clockSkewSec: number;
+  private readonly claimPaths: Required<JwtClaimPaths>;
+
+  constructor(private readonly options: JwtVerifierOptions) {
+    this.publicKey = options.publicKey ? createPublicKey(options.publicKey) : undefined;
+    this.jwks =
+      typeof options.jwks === 'string'
+        ? new JwksKeyStore({ source: options.jwks })
+        : options.jwks;
+    this.clockSkewSec =
+      (options.clockSkewMs ?? SECURITY_CONTANTS.MAX_CLOCK_SKEW_MS) / 1000;
+    this.claimPaths = { ...DEFAULT_CLAIM_PATHS, ...options.claimPaths };
+
+    const hasAsymmetricKey = !!this.publicKey || !!this.jwks;
+    this.algorithms =
+      options.algorithms ??
+      [
+        ...(options.secret ? (['HS256'] as const) : []),
+        ...(hasAsymmetricKey ? (['RS256', 'ES256'] as const) : []),
+      ];
+  }
+
+  /**
+   * Whether any key material is configured
+   */
+  get enabled(): boolean {
+    return this.algorithms.length > 0;
+  }
+
+  /**
+   * Verify signature and registered claims, returning the payload
+   * @throws JwtVerificationError
+   */
+  async verify(token: string | undefined, now = Date.now()): Promise<JwtPayload> {
+    if (!token) {
+      throw new JwtVerificationError(JwtErrorCode.TOKEN_MISSING, 'Token is missing');
+    }
+
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new JwtVerificationError(JwtErrorCode.TOKEN_MALFORMED, 'Token must have 3 segments');
+    }
+
+    const header = decodeSegment<JwtHeader>(parts[0]);
+    const payload = decodeSegment<JwtPayload>(parts[1]);
+    const alg = header.alg as JwtAlgorithm;
+
+    if (!this.algorithms.includes(alg)) {
+      throw new JwtVerificationError(
+        JwtErrorCode.ALGORITHM_NOT_ALLOWED,
+        `Algorithm ${header.alg} is not allowed`,
+      );
+    }
+
+    const signingInput = `${parts[0]}.${parts[1]}`;
+    const signature = Buffer.from(parts[2], 'base64url');
+    const valid =
+      alg === 'HS256'
+        ? this.verifyHmac(signingInput, signature)
+        : verifySignature(
+            HASH_BY_ALGORITHM[alg],
+            Buffer.from(signingInput),
+            { key: await this.resolveKey(header, alg), dsaEncoding: 'ieee-p1363' },
+            signature,
+          );
+
+    if (!valid) {
+      throw new JwtVerificationError(JwtErrorCode.SIGNATURE_INVALID, 'Invalid token signature');
+    }
+
+    this.validateClaims(payload, now / 1000);
+    return payload;
+  }
+
+  /**
+   * Map a verified payload to RequestUser using the configured claim paths
+   * Only the mapped claims are copied, so a token can't pose as a service
+   * identity (isService / serviceName) or carry other trusted fields.
+   * @throws JwtVerificationError if no user ID can be found
+   */
+  toRequestUser(payload: JwtPayload): RequestUser {
+    const id = this.readFirst(payload, this.claimPaths.id);
+    if (id === undefined || id === null || id === '') {
+      throw new JwtVerificationError(JwtErrorCode.SUBJECT_MISSING, 'Token has no subject');
+    }
+
+    const email = this.readFirst(payload, this.claimPaths.email);
+    const roles = this.readFirst(payload, this.claimPaths.roles);
+    const permissions = this.readFirst(payload, this.claimPaths.permissions);
+
+    return {
+      id: String(id),
+      email: typeof email === 'string' ? email : undefined,
+      roles: this.toStringArray(roles),
+      permissions: permissions === undefined ? undefined : this.toStringArray(permissions),
+    };
+  }
+
+  private verifyHmac(signingInput: string, signature: Buffer): boolean {
+    if (!this.options.secret) return false;
+    const expected = createHmac('sha256', this.options.secret).update(signingInput).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+  }
+
+  private async resolveKey(header: JwtHeader, alg: JwtAlgorithm): Promise<KeyObject> {
+    if (this.jwks) {
+      let entry;
+      try {
+        entry = await this.jwks.getKey(header.kid);
+      } catch (error) {
+        throw new JwtVerificationError(
+          JwtErrorCode.KEY_NOT_FOUND,
+          `Unable to load JWKS: ${(error as Error).message}`,
+        );
+      }
+      if (entry && keyFitsAlgorithm(entry.key, alg) && (!entry.jwk.alg || entry.jwk.alg === alg)) {
+        return entry.key;
+      }
+    }
+
+    if (this.publicKey && keyFitsAlgorithm(this.publicKey, alg)) {
+      return this.publicKey;
+    }
+
+    throw new JwtVerificationError(
+      JwtErrorCode.KEY_NOT_FOUND,
+      `No key found for kid ${header.kid ?? '(none)'}`,
+    );
+  }
+
+  private validateClaims(payload: JwtPayload, nowSec: number): void {
+    if (typeof payload.exp === 'number' && nowSec - this.clockSkewSec >= payload.exp) {
+      throw new JwtVerificationError(JwtErrorCode.TOKEN_EXPIRED, 'Token has expired');
+    }
+
+    if (typeof payload.nbf === 'number' && nowSec + this.clockSkewSec < payload.nbf) {
+      throw new JwtVerificationError(JwtErrorCode.TOKEN_NOT_YET_VALID, 'Token is not yet valid');
+    }
+
+    const issuers = toList(this.options.issuer);
+    if (issuers.length > 0 && !issuers.includes(payload.iss ?? '')) {
+      throw new JwtVerificationError(JwtErrorCode.ISSUER_INVALID, 'Token issuer is not accepted');
+    }
+
+    const audiences = toList(this.options.audience);
+    if (audiences.length > 0) {
+      const tokenAudiences = toList(payload.aud);
+      if (!tokenAudiences.some((aud) => audiences.includes(aud))) {
+        throw new JwtVerificationError(JwtErrorCode.AUDIENCE_INVALID, 'Token audience is not accepted');
+      }
+    }
+  }
+
+  private readFirst(payload: JwtPayload, paths: string | string[]): unknown {
+    for (const path of toList(paths)) {
+      const value = readClaimPath(payload, path);
+      if (value !== undefined && value !== null) return value;
+    }
+    return undefined;
+  }
+
+  private toStringArray(value: unknown): string[] {
+    if (Array.isArray(value)) return value.map(String);
+    if (typeof value === 'string') {
+      return value.split(/[,\s]+/).filter((v) => v.length > 0);
+    }
+    return [];
+  }
+}
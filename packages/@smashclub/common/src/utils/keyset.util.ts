@@ -0,0 +1,151 @@
+import { SortDirection, SortField } from '../types/pagination.type';
+
+/**
+ * One comparison of a keyset condition
+ */
+export interface KeysetComparison {
+  field: string;
+  op: 'eq' | 'gt' | 'lt';
+  value: unknown;
+}
+
+/**
+ * Sort with `tieBreaker` appended (same direction as the last column) so
+ * that no two rows compare equal
+ * @param sort Sort columns (default: createdAt desc); they must not be nullable
+ */
+export function normalizeSort(sort: SortField[] = [], tieBreaker = 'id'): SortField[] {
+  const columns = sort.length > 0 ? sort : [{ field: 'createdAt', direction: 'desc' as SortDirection }];
+  if (columns.some((s) => s.field === tieBreaker)) return columns;
+  return [...columns, { field: tieBreaker, direction: columns[columns.length - 1].direction }];
+}
+
+/** Stable text form of a sort, e.g. startsAt:desc,id:desc */
+export function sortSignature(sort: SortField[]): string {
+  return sort.map((s) => `${s.field}:${s.direction}`).join(',');
+}
+
+/**
+ * Value of a field of a row; dotted paths (court.name) read relations
+ */
+export function getFieldValue(row: object, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((value, key) => (value == null ? undefined : (value as Record<string, unknown>)[key]), row);
+}
+
+/** 'court.name' + value -> { court: { name: value } }, as Prisma nests relations */
+function nestPath(path: string, value: unknown): Record<string, unknown> {
+  return path
+    .split('.')
+    .reduceRight<unknown>((inner, key) => ({ [key]: inner }), value) as Record<string, unknown>;
+}
+
+/** Values of the sort columns of a row, in sort order */
+export function getSortValues(row: object, sort: SortField[]): unknown[] {
+  return sort.map((s) => getFieldValue(row, s.field));
+}
+
+/**
+ * Rows strictly after (or before) a boundary row in a multi-column sort,
+ * as OR-ed branches of AND-ed comparisons:
+ * (a > va) OR (a = va AND b < vb) OR (a = va AND b = vb AND id > vid)
+ */
+export function keysetConditions(
+  sort: SortField[],
+  values: unknown[],
+  direction: 'after' | 'before',
+): KeysetComparison[][] {
+  return sort.map((column, i) => {
+    const forward = (column.direction === 'asc') === (direction === 'after');
+    return [
+      ...sort.slice(0, i).map((prev, j) => ({ field: prev.field, op: 'eq' as const, value: values[j] })),
+      { field: column.field, op: forward ? ('gt' as const) : ('lt' as const), value: values[i] },
+    ];
+  });
+}
+
+/**
+ * Keyset condition as a Prisma-style where fragment
+ *
+ * @example
+ * ```ts
+ * prisma.booking.findMany({
+ *   where: { clubId, ...keysetWhere(sort, cursor.values, cursor.direction) },
+ *   orderBy: keysetOrderBy(sort, cursor.direction),
+ *   take: limit + 1,
+ * });
+ * ```
+ */
+export function keysetWhere(
+  sort: SortField[],
+  values: unknown[],
+  direction: 'after' | 'before',
+): { OR: Array<Record<string, unknown>> } {
+  const condition = (c: KeysetComparison) => (c.op === 'eq' ? c.value : { [c.op]: c.value });
+  return {
+    OR: keysetConditions(sort, values, direction).map((branch) =>
+      // Relation fields (court.name) nest, and may share a relation, so AND them
+      branch.some((c) => c.field.includes('.'))
+        ? { AND: branch.map((c) => nestPath(c.field, condition(c))) }
+        : Object.fromEntries(branch.map((c) => [c.field, condition(c)])),
+    ),
+  };
+}
+
+/**
+ * Keyset condition as a parameterized SQL fragment (TypeORM, raw queries)
+ * @param options.placeholder Placeholder of the n-th param (default: $n)
+ * @param options.column Column expression of a field (default: "field",
+ *   dotted fields quoted per segment: "court"."name")
+ *
+ * @example
+ * ```ts
+ * const { sql, params } = keysetSql(sort, cursor.values, 'after', {
+ *   placeholder: (n) => `:k${n}`,
+ *   column: (field) => `booking.${field}`,
+ * });
+ * qb.andWhere(`(${sql})`, Object.fromEntries(params.map((p, i) => [`k${i + 1}`, p])));
+ * ```
+ */
+export function keysetSql(
+  sort: SortField[],
+  values: unknown[],
+  direction: 'after' | 'before',
+  options: { placeholder?: (n: number) => string; column?: (field: string) => string } = {},
+): { sql: string; params: unknown[] } {
+  const placeholder = options.placeholder ?? ((n: number) => `$${n}`);
+  const column =
+    options.column ??
+    ((field: string) =>
+      field
+        .split('.')
+        .map((segment) => `"${segment.replace(/"/g, '""')}"`)
+        .join('.'));
+  const operators = { eq: '=', gt: '>', lt: '<' };
+  const params: unknown[] = [];
+
+  const sql = keysetConditions(sort, values, direction)
+    .map((branch) => {
+      const parts = branch.map((c) => {
+        params.push(c.value);
+        return `${column(c.field)} ${operators[c.op]} ${placeholder(params.length)}`;
+      });
+      return `(${parts.join(' AND ')})`;
+    })
+    .join(' OR ');
+  return { sql, params };
+}
+
+/**
+ * Prisma-style orderBy; reversed when reading backwards, so the rows
+ * closest to the cursor come first
+ */
+export function keysetOrderBy(
+  sort: SortField[],
+  direction: 'after' | 'before' = 'after',
+): Array<Record<string, unknown>> {
+  return sort.map((s) =>
+    nestPath(s.field, direction === 'after' ? s.direction : s.direction === 'asc' ? 'desc' : 'asc'),
+  );
+}
@@ -0,0 +1,102 @@
+import { LoadBalancingStrategy, ServiceInstance } from '../types/service-discovery.type';
+
+/**
+ * Chooses the instance for the next request
+ * `candidates` is never empty and only holds healthy instances.
+ */
+export interface LoadBalancer {
+  readonly strategy: LoadBalancingStrategy;
+  pick(
+    service: string,
+    candidates: ServiceInstance[],
+    outstanding: (instanceId: string) => number,
+  ): ServiceInstance;
+}
+
+/**
+ * Cycles through instances in order
+ */
+export class RoundRobinBalancer implements LoadBalancer {
+  readonly strategy = 'round-robin';
+  private readonly cursors = new Map<string, number>();
+
+  pick(service: string, candidates: ServiceInstance[]): ServiceInstance {
+    const cursor = this.cursors.get(service) ?? 0;
+    this.cursors.set(service, cursor + 1);
+    return candidates[cursor % candidates.length];
+  }
+}
+
+/**
+ * Instance with the fewest requests in flight from this process
+ * Ties go round-robin so an idle pool is still spread evenly.
+ */
+export class LeastOutstandingBalancer implements LoadBalancer {
+  readonly strategy = 'least-outstanding';
+  private readonly tieBreaker = new RoundRobinBalancer();
+
+  pick(
+    service: string,
+    candidates: ServiceInstance[],
+    outstanding: (instanceId: string) => number,
+  ): ServiceInstance {
+    const counts = candidates.map((c) => outstanding(c.instanceId));
+    const min = Math.min(...counts);
+    return this.tieBreaker.pick(
+      service,
+      candidates.filter((_, i) => counts[i] === min),
+    );
+  }
+}
+
+/**
+ * Smooth weighted round-robin (as in nginx): traffic follows the
+ * instances' weights without bursts to the heaviest one
+ */
+export class WeightedBalancer implements LoadBalancer {
+  readonly strategy = 'weighted';
+  private readonly current = new Map<string, Map<string, number>>();
+
+  pick(service: string, candidates: ServiceInstance[]): ServiceInstance {
+    let state = this.current.get(service);
+    if (!state) {
+      state = new Map();
+      this.current.set(service, state);
+    }
+
+    let total = 0;
+    let best = candidates[0];
+    let bestValue = -Infinity;
+    for (const candidate of candidates) {
+      const weight = Math.max(0, candidate.weight);
+      const value = (state.get(candidate.instanceId) ?? 0) + weight;
+      state.set(candidate.instanceId, value);
+      total += weight;
+      if (value > bestValue) {
+        best = candidate;
+        bestValue = value;
+      }
+    }
+    state.set(best.instanceId, bestValue - total);
+
+    // Forget instances that left the pool
+    if (state.size > candidates.length) {
+      const ids = new Set(candidates.map((c) => c.instanceId));
+      for (const id of state.keys()) {
+        if (!ids.has(id)) state.delete(id);
+      }
+    }
+    return best;
+  }
+}
+
+export function createLoadBalancer(strategy: LoadBalancingStrategy): LoadBalancer {
+  switch (strategy) {
+    case 'least-outstanding':
+      return new LeastOutstandingBalancer();
+    case 'weighted':
+      return new WeightedBalancer();
+    default:
+      return new RoundRobinBalancer();
+  }
+}
@@ -0,0 +1,339 @@
+export type MetricLabels = Record<string, string | number>;
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export interface MetricOptions {
+  /** snake_case metric name, e.g. http_request_duration_seconds */
+  name: string;
+  help: string;
+  labelNames?: readonly string[];
+}
+
+export interface HistogramOptions extends MetricOptions {
+  /** Upper bounds in ascending order (default: DEFAULT_HISTOGRAM_BUCKETS) */
+  buckets?: readonly number[];
+}
+
+export interface GaugeOptions extends MetricOptions {
+  /** Called before each scrape, to set values that are read rather than pushed */
+  collect?: (gauge: Gauge) => void;
+}
+
+/** Prometheus client defaults, in seconds */
+export const DEFAULT_HISTOGRAM_BUCKETS: readonly number[] = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const METRIC_NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function formatLabels(names: readonly string[], values: readonly string[]): string {
+  if (names.length === 0) return '';
+  return `{${names.map((n, i) => `${n}="${escapeLabelValue(values[i])}"`).join(',')}}`;
+}
+
+/**
+ * Shared label handling: one series per distinct label-value combination
+ */
+abstract class Metric<S> {
+  abstract readonly type: MetricType;
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: readonly string[];
+  protected readonly series = new Map<string, { values: string[]; state: S }>();
+
+  constructor(options: MetricOptions) {
+    if (!METRIC_NAME_PATTERN.test(options.name)) {
+      throw new Error(`Invalid metric name: ${options.name}`);
+    }
+    const invalid = (options.labelNames ?? []).filter((l) => !LABEL_NAME_PATTERN.test(l));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid label names for ${options.name}: ${invalid.join(', ')}`);
+    }
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  /** Drop every series */
+  reset(): void {
+    this.series.clear();
+  }
+
+  /** Prometheus text exposition of this metric */
+  abstract render(): string;
+
+  protected abstract initialState(): S;
+
+  protected getSeries(labels: MetricLabels = {}): S {
+    const unknown = Object.keys(labels).filter((l) => !this.labelNames.includes(l));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown labels for ${this.name}: ${unknown.join(', ')}`);
+    }
+
+    const values = this.labelNames.map((l) => String(labels[l] ?? ''));
+    const key = values.join('\u0000');
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { values, state: this.initialState() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  protected header(): string {
+    return `# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}\n# TYPE ${this.name} ${this.type}`;
+  }
+}
+
+/**
+ * Monotonically increasing value (requests, failures, rejections)
+ */
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter';
+
+  inc(labels?: MetricLabels, value = 1): void {
+    if (value < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+    this.getSeries(labels).value += value;
+  }
+
+  get(labels?: MetricLabels): number {
+    return this.getSeries(labels).value;
+  }
+
+  render(): string {
+    const lines = [this.header()];
+    for (const { values, state } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(this.labelNames, values)} ${formatValue(state.value)}`);
+    }
+    return lines.join('\n');
+  }
+
+  protected initialState() {
+    return { value: 0 };
+  }
+}
+
+/**
+ * Value that goes up and down (state flags, queue sizes, memory)
+ */
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge';
+  private readonly collect?: (gauge: Gauge) => void;
+
+  constructor(options: GaugeOptions) {
+    super(options);
+    this.collect = options.collect;
+  }
+
+  set(labels: MetricLabels | undefined, value: number): void {
+    this.getSeries(labels).value = value;
+  }
+
+  inc(labels?: MetricLabels, value = 1): void {
+    this.getSeries(labels).value += value;
+  }
+
+  dec(labels?: MetricLabels, value = 1): void {
+    this.getSeries(labels).value -= value;
+  }
+
+  get(labels?: MetricLabels): number {
+    return this.getSeries(labels).value;
+  }
+
+  render(): string {
+    this.collect?.(this);
+    const lines = [this.header()];
+    for (const { values, state } of this.series.values()) {
+      lines.push(`${this.name}${formatLabels(this.labelNames, values)} ${formatValue(state.value)}`);
+    }
+    return lines.join('\n');
+  }
+
+  protected initialState() {
+    return { value: 0 };
+  }
+}
+
+/**
+ * Distribution of observed values (latencies) in cumulative buckets
+ */
+export class Histogram extends Metric<{ counts: number[]; sum: number; count: number }> {
+  readonly type = 'histogram';
+  readonly buckets: readonly number[];
+
+  constructor(options: HistogramOptions) {
+    super(options);
+    if (this.labelNames.includes('le')) {
+      throw new Error(`Histogram ${this.name} cannot use the reserved label "le"`);
+    }
+    this.buckets = [...(options.buckets ?? DEFAULT_HISTOGRAM_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels | undefined, value: number): void {
+    const state = this.getSeries(labels);
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) state.counts[i]++;
+    }
+    state.sum += value;
+    state.count++;
+  }
+
+  /**
+   * Start timing; the returned function observes the elapsed seconds
+   * (extra labels, e.g. the outcome, can be added when stopping)
+   */
+  startTimer(labels: MetricLabels = {}): (extra?: MetricLabels) => number {
+    const start = process.hrtime.bigint();
+    return (extra = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...extra }, seconds);
+      return seconds;
+    };
+  }
+
+  render(): string {
+    const lines = [this.header()];
+    const bucketLabels = [...this.labelNames, 'le'];
+    for (const { values, state } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels(bucketLabels, [...values, formatValue(bound)])} ${state.counts[i]}`,
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels(bucketLabels, [...values, '+Inf'])} ${state.count}`);
+      lines.push(`${this.name}_sum${formatLabels(this.labelNames, values)} ${formatValue(state.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(this.labelNames, values)} ${state.count}`);
+    }
+    return lines.join('\n');
+  }
+
+  protected initialState() {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+}
+
+type AnyMetric = Counter | Gauge | Histogram;
+
+/**
+ * Dependency-free metrics registry rendering the Prometheus text format
+ *
+ * counter() / gauge() / histogram() return the existing metric when the
+ * name is already registered, so call sites can declare what they use.
+ *
+ * @example
+ * ```ts
+ * const bookings = getMetricsRegistry().counter({
+ *   name: 'bookings_created_total',
+ *   help: 'Bookings created',
+ *   labelNames: ['club'],
+ * });
+ * bookings.inc({ club: clubId });
+ * ```
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, AnyMetric>();
+
+  constructor(
+    /** Labels added to every series, e.g. { service: 'booking-service' } */
+    private readonly defaultLabels: Record<string, string> = {},
+  ) {}
+
+  counter(options: MetricOptions): Counter {
+    return this.getOrCreate(options, Counter, () => new Counter(options));
+  }
+
+  gauge(options: GaugeOptions): Gauge {
+    return this.getOrCreate(options, Gauge, () => new Gauge(options));
+  }
+
+  histogram(options: HistogramOptions): Histogram {
+    return this.getOrCreate(options, Histogram, () => new Histogram(options));
+  }
+
+  getMetric(name: string): AnyMetric | undefined {
+    return this.metrics.get(name);
+  }
+
+  /** Reset every series (metric definitions are kept) */
+  reset(): void {
+    for (const metric of this.metrics.values()) metric.reset();
+  }
+
+  /** Content-Type of render() output */
+  get contentType(): string {
+    return 'text/plain; version=0.0.4; charset=utf-8';
+  }
+
+  /**
+   * Prometheus text exposition of every metric
+   */
+  render(): string {
+    const blocks = Array.from(this.metrics.values()).map((metric) => metric.render());
+    const text = blocks.join('\n') + '\n';
+    return Object.keys(this.defaultLabels).length > 0 ? this.addDefaultLabels(text) : text;
+  }
+
+  private getOrCreate<M extends AnyMetric>(
+    options: MetricOptions,
+    type: abstract new (...args: never[]) => M,
+    create: () => M,
+  ): M {
+    const existing = this.metrics.get(options.name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(`Metric ${options.name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+    const metric = create();
+    this.metrics.set(options.name, metric);
+    return metric;
+  }
+
+  private addDefaultLabels(text: string): string {
+    const extra = Object.entries(this.defaultLabels)
+      .map(([k, v]) => `${k}="${escapeLabelValue(v)}"`)
+      .join(',');
+
+    return text
+      .split('\n')
+      .map((line) => {
+        if (line === '' || line.startsWith('#')) return line;
+        const match = /^([^{\s]+)(\{(.*)\})?\s(.+)$/.exec(line);
+        if (!match) return line;
+        const [, name, , labels, value] = match;
+        return `${name}{${labels ? `${extra},${labels}` : extra}} ${value}`;
+      })
+      .join('\n');
+  }
+}
+
+let defaultRegistry: MetricsRegistry | undefined;
+
+/**
+ * Process-wide registry used by the built-in instrumentation
+ */
+export function getMetricsRegistry(): MetricsRegistry {
+  defaultRegistry ??= new MetricsRegistry();
+  return defaultRegistry;
+}
+
+/**
+ * Replace the process-wide registry (e.g. with default labels, or in tests)
+ */
+export function setMetricsRegistry(registry: MetricsRegistry): void {
+  defaultRegistry = registry;
+}
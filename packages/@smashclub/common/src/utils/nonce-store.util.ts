@@ -0,0 +1,69 @@
+/**
+ * Store of recently seen nonces, used to reject replayed signatures
+ */
+export interface NonceStore {
+  /**
+   * Remember a nonce until `expiresAt` (ms since epoch)
+   * @returns false if the nonce was already seen and has not expired
+   */
+  remember(nonce: string, expiresAt: number): boolean;
+}
+
+/**
+ * Process-local nonce store
+ *
+ * Good enough for a single instance; services running several replicas
+ * behind a load balancer should provide a shared (e.g. Redis) store.
+ */
+export class InMemoryNonceStore implements NonceStore {
+  private readonly entries = new Map<string, number>();
+  private lastSweep = 0;
+
+  constructor(private readonly sweepIntervalMs = 10_000) {}
+
+  remember(nonce: string, expiresAt: number): boolean {
+    const now = Date.now();
+    this.sweep(now);
+
+    const existing = this.entries.get(nonce);
+    if (existing !== undefined && existing > now) {
+      return false;
+    }
+
+    this.entries.set(nonce, expiresAt);
+    return true;
+  }
+
+  /**
+   * Drop expired nonces (at most once per sweep interval)
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < this.sweepIntervalMs) return;
+    this.lastSweep = now;
+
+    for (const [nonce, expiresAt] of this.entries) {
+      if (expiresAt <= now) {
+        this.entries.delete(nonce);
+      }
+    }
+  }
+}
+
+let defaultNonceStore: NonceStore | undefined;
+
+/**
+ * Process-wide nonce store, used by every SignedIdentityVerifier built
+ * without one so a nonce seen by one verifier (e.g. the middleware's) is
+ * rejected by the others (e.g. a standalone GatewayAuthGuard's)
+ */
+export function getDefaultNonceStore(): NonceStore {
+  defaultNonceStore ??= new InMemoryNonceStore();
+  return defaultNonceStore;
+}
+
+/**
+ * Replace the process-wide nonce store, e.g. with a Redis-backed one
+ */
+export function setDefaultNonceStore(store: NonceStore): void {
+  defaultNonceStore = store;
+}
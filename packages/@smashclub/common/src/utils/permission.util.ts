@@ -0,0 +1,56 @@
+/**
+ * How a list of required permissions is matched
+ * - all: every permission is needed (default)
+ * - any: at least one permission is needed
+ */
+export type PermissionMatchMode = 'all' | 'any';
+
+const WILDCARD = '*';
+const SCOPE_ANY = 'any';
+const SCOPE_OWN = 'own';
+
+/**
+ * Check whether a single granted permission covers a required one
+ *
+ * @example
+ * ```ts
+ * permissionMatches('*', 'booking:cancel:any');                  // true
+ * permissionMatches('booking:*:own', 'booking:cancel:own');      // true
+ * permissionMatches('booking:cancel:any', 'booking:cancel:own'); // true
+ * permissionMatches('booking:cancel:own', 'booking:cancel:any'); // false
+ * ```
+ */
+export function permissionMatches(granted: string, required: string): boolean {
+  const g = granted.trim().toLowerCase();
+  const r = required.trim().toLowerCase();
+
+  if (g === WILDCARD || g === r) return true;
+
+  const grantedParts = g.split(':');
+  const requiredParts = r.split(':');
+  if (grantedParts.length !== requiredParts.length) return false;
+
+  const last = requiredParts.length - 1;
+  return requiredParts.every((part, i) => {
+    const grantedPart = grantedParts[i];
+    if (grantedPart === WILDCARD || grantedPart === part) return true;
+    // `any` scope implies `own`
+    return i === last && part === SCOPE_OWN && grantedPart === SCOPE_ANY;
+  });
+}
+
+/**
+ * Check granted permissions against a list of required permissions
+ */
+export function hasPermissions(
+  granted: Iterable<string>,
+  required: string[],
+  mode: PermissionMatchMode = 'all',
+): boolean {
+  if (required.length === 0) return true;
+
+  const grantedList = Array.from(granted);
+  const check = (req: string) => grantedList.some((g) => permissionMatches(g, req));
+
+  return mode === 'any' ? required.some(check) : required.every(check);
+}
@@ -0,0 +1,295 @@
+import { BadRequestException } from '@nestjs/common';
+import { DEFAULT_PAGINATION, SortField } from '../types/pagination.type';
+import {
+  FilterCondition,
+  FilterOperator,
+  FilterValue,
+  QuerySpec,
+} from '../types/query-spec.type';
+
+/**
+ * Filter value types: numbers are plain decimals (no 0x10, 1e3) and dates
+ * ISO-8601 (2026-01-31 or 2026-01-31T10:00:00Z)
+ */
+export type FilterFieldType = 'string' | 'number' | 'boolean' | 'date' | 'enum';
+
+export interface FilterFieldOptions {
+  type: FilterFieldType;
+  /** Accepted values of an enum field */
+  values?: readonly string[];
+  /** Allowed operators (default: every operator that makes sense for the type) */
+  ops?: readonly FilterOperator[];
+}
+
+export interface QueryParserOptions<S extends string = string, F extends string = string> {
+  /** Fields accepted in `sort` */
+  sortable?: readonly S[];
+  /** Relations clients may load with `include=court,court.club` */
+  includable?: readonly string[];
+  /** Fields accepted as filters, with their type */
+  filterable?: Record<F, FilterFieldType | FilterFieldOptions>;
+  /** Sort when none is given, e.g. '-createdAt' */
+  defaultSort?: string;
+  /** (default: DEFAULT_PAGINATION.LIMIT) */
+  defaultLimit?: number;
+  /** (default: DEFAULT_PAGINATION.MAX_LIMIT) */
+  maxLimit?: number;
+  /** Page numbers or opaque cursors (default: 'offset') */
+  mode?: 'offset' | 'cursor';
+  /** Other query params read elsewhere (e.g. 'q'), ignored instead of rejected */
+  allow?: readonly string[];
+}
+
+const OPERATORS_BY_TYPE: Record<FilterFieldType, readonly FilterOperator[]> = {
+  string: ['eq', 'ne', 'in', 'nin', 'contains', 'startsWith', 'isNull'],
+  number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'isNull'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'isNull'],
+  boolean: ['eq', 'ne', 'isNull'],
+  enum: ['eq', 'ne', 'in', 'nin', 'isNull'],
+};
+
+const RESERVED_PARAMS = ['page', 'limit', 'sort', 'cursor', 'include'];
+
+const FILTER_KEY = /^([A-Za-z_][\w.]*)\[(\w+)\]$/;
+
+/**
+ * Query params as { key: value } pairs, accepting both the extended
+ * (`{ price: { gte: '1' } }`) and the simple (`{ 'price[gte]': '1' }`)
+ * query parsers
+ */
+function flattenQuery(query: Record<string, unknown>): Array<[string, unknown]> {
+  const entries: Array<[string, unknown]> = [];
+  for (const [key, value] of Object.entries(query)) {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [op, opValue] of Object.entries(value)) {
+        entries.push([`${key}[${op}]`, opValue]);
+      }
+    } else {
+      entries.push([key, value]);
+    }
+  }
+  return entries;
+}
+
+function parsePositiveInt(name: string, raw: unknown, errors: string[]): number | undefined {
+  if (raw === undefined || raw === '') return undefined;
+  const value = typeof raw === 'string' && /^\d+$/.test(raw) ? Number(raw) : NaN;
+  if (!Number.isSafeInteger(value) || value < 1) {
+    errors.push(`${name} must be a positive integer (got ${JSON.stringify(raw)})`);
+    return undefined;
+  }
+  return value;
+}
+
+/** Plain decimal: no hex, exponent, Infinity or surrounding whitespace */
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/** ISO-8601 date (2026-01-31) or date-time with optional seconds and offset */
+const ISO_DATE_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+function parseIsoDate(raw: string): Date | undefined {
+  const match = ISO_DATE_PATTERN.exec(raw);
+  if (!match) return undefined;
+
+  // Date rolls 2026-02-30 over to March; reject days the month doesn't have
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const calendar = new Date(Date.UTC(year, month - 1, day));
+  if (calendar.getUTCMonth() !== month - 1 || calendar.getUTCDate() !== day) return undefined;
+
+  const value = new Date(raw);
+  return Number.isNaN(value.getTime()) ? undefined : value;
+}
+
+function coerce(
+  field: string,
+  options: FilterFieldOptions,
+  raw: string,
+  errors: string[],
+): FilterValue | undefined {
+  switch (options.type) {
+    case 'number': {
+      if (DECIMAL_PATTERN.test(raw)) return Number(raw);
+      break;
+    }
+    case 'boolean':
+      if (raw === 'true' || raw === 'false') return raw === 'true';
+      break;
+    case 'date': {
+      const value = parseIsoDate(raw);
+      if (value) return value;
+      break;
+    }
+    case 'enum':
+      if (options.values?.includes(raw)) return raw;
+      errors.push(`${field} must be one of ${options.values?.join(', ')} (got ${JSON.stringify(raw)})`);
+      return undefined;
+    default:
+      return raw;
+  }
+  errors.push(`${field} must be a ${options.type} (got ${JSON.stringify(raw)})`);
+  return undefined;
+}
+
+/**
+ * Parse `sort=-price,name` (leading '-' for descending)
+ */
+function parseSort<S extends string>(
+  raw: string,
+  sortable: readonly S[],
+  errors: string[],
+): Array<SortField & { field: S }> {
+  const sort: Array<SortField & { field: S }> = [];
+  for (const part of raw.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const descending = part.startsWith('-');
+    const field = (descending || part.startsWith('+') ? part.slice(1) : part) as S;
+    if (!sortable.includes(field)) {
+      errors.push(
+        `Cannot sort by ${JSON.stringify(field)}${sortable.length ? ` (sortable: ${sortable.join(', ')})` : ''}`,
+      );
+    } else if (sort.some((s) => s.field === field)) {
+      errors.push(`Duplicate sort field ${JSON.stringify(field)}`);
+    } else {
+      sort.push({ field, direction: descending ? 'desc' : 'asc' });
+    }
+  }
+  return sort;
+}
+
+/**
+ * Parse and validate list query params into a QuerySpec
+ * - page, limit: positive integers, limit up to maxLimit (or cursor + limit)
+ * - sort=-price,name: sortable fields only
+ * - price[gte]=100000, status[in]=PENDING,CONFIRMED, name=Court 1 (eq):
+ *   filterable fields and operators only, values coerced to the field type
+ * - include=court,court.club: includable relations only
+ *
+ * @throws BadRequestException listing every invalid or unknown param
+ *
+ * @example
+ * ```ts
+ * const spec = parseQuerySpec(req.query, {
+ *   sortable: ['createdAt', 'price'],
+ *   filterable: { status: { type: 'enum', values: ['PENDING', 'CONFIRMED'] }, price: 'number' },
+ *   defaultSort: '-createdAt',
+ * });
+ * ```
+ */
+export function parseQuerySpec<S extends string = string, F extends string = string>(
+  query: Record<string, unknown>,
+  options: QueryParserOptions<S, F> = {},
+): QuerySpec<S, F> {
+  const errors: string[] = [];
+  const sortable = options.sortable ?? [];
+  const filterable = (options.filterable ?? {}) as Record<string, FilterFieldType | FilterFieldOptions>;
+  const maxLimit = options.maxLimit ?? DEFAULT_PAGINATION.MAX_LIMIT;
+  const params = flattenQuery(query);
+  const single = (name: string): unknown => {
+    const values = params.filter(([key]) => key === name).map(([, value]) => value);
+    if (values.length > 1 || Array.isArray(values[0])) {
+      errors.push(`${name} must be given once`);
+      return undefined;
+    }
+    return values[0];
+  };
+
+  // Pagination
+  const limit = parsePositiveInt('limit', single('limit'), errors) ?? options.defaultLimit ?? DEFAULT_PAGINATION.LIMIT;
+  if (limit > maxLimit) {
+    errors.push(`limit must be at most ${maxLimit} (got ${limit})`);
+  }
+  const page = parsePositiveInt('page', single('page'), errors) ?? DEFAULT_PAGINATION.PAGE;
+  const cursor = single('cursor');
+  if (options.mode === 'cursor' ? cursor !== undefined && typeof cursor !== 'string' : cursor !== undefined) {
+    errors.push(options.mode === 'cursor' ? 'cursor must be a string' : 'cursor is not supported here');
+  }
+
+  // Sort
+  // (defaultSort comes from the code, so it may use fields clients can't sort by)
+  const rawSort = single('sort');
+  const sort =
+    typeof rawSort === 'string' && rawSort !== ''
+      ? parseSort(rawSort, sortable, errors)
+      : parseSort(options.defaultSort ?? '', parseSortFields<S>(options.defaultSort), errors);
+
+  // Relations
+  const rawInclude = single('include');
+  const include =
+    typeof rawInclude === 'string'
+      ? rawInclude.split(',').map((r) => r.trim()).filter(Boolean)
+      : [];
+  for (const relation of include) {
+    if (!options.includable?.includes(relation)) {
+      errors.push(
+        `Cannot include ${JSON.stringify(relation)}${options.includable?.length ? ` (includable: ${options.includable.join(', ')})` : ''}`,
+      );
+    }
+  }
+
+  // Filters
+  const filters: FilterCondition<F>[] = [];
+  for (const [key, raw] of params) {
+    if (RESERVED_PARAMS.includes(key) || options.allow?.includes(key)) continue;
+
+    const match = FILTER_KEY.exec(key);
+    const field = match ? match[1] : key;
+    const op = (match ? match[2] : 'eq') as FilterOperator;
+    // Own keys only: 'constructor' or 'toString' must not resolve to Object.prototype
+    const definition = Object.hasOwn(filterable, field) ? filterable[field] : undefined;
+    if (!definition) {
+      const known = Object.keys(filterable);
+      errors.push(
+        `Unknown query parameter ${JSON.stringify(key)}${known.length ? ` (filterable: ${known.join(', ')})` : ''}`,
+      );
+      continue;
+    }
+
+    const fieldOptions = typeof definition === 'string' ? { type: definition } : definition;
+    const ops =
+      fieldOptions.ops ??
+      (Object.hasOwn(OPERATORS_BY_TYPE, fieldOptions.type) ? OPERATORS_BY_TYPE[fieldOptions.type] : []);
+    if (!ops.includes(op)) {
+      errors.push(`Operator ${JSON.stringify(op)} is not allowed on ${field} (allowed: ${ops.join(', ')})`);
+      continue;
+    }
+    if (typeof raw !== 'string') {
+      errors.push(`${key} must be given once`);
+      continue;
+    }
+
+    if (op === 'isNull') {
+      const value = coerce(key, { type: 'boolean' }, raw, errors);
+      if (value !== undefined) filters.push({ field: field as F, op, value });
+    } else if (op === 'in' || op === 'nin') {
+      const values = raw.split(',').map((v) => coerce(key, fieldOptions, v.trim(), errors));
+      if (values.every((v): v is FilterValue => v !== undefined)) {
+        filters.push({ field: field as F, op, value: values });
+      }
+    } else {
+      const value = coerce(key, fieldOptions, raw, errors);
+      if (value !== undefined) filters.push({ field: field as F, op, value });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new BadRequestException(errors);
+  }
+
+  return {
+    filters,
+    sort,
+    pagination:
+      options.mode === 'cursor'
+        ? { mode: 'cursor', ...(typeof cursor === 'string' && cursor !== '' && { cursor }), limit }
+        : { mode: 'offset', page, limit, skip: (page - 1) * limit, take: limit },
+    ...(include.length > 0 && { include }),
+  };
+}
+
+/** Fields of a sort string ('-createdAt,name' -> ['createdAt', 'name']) */
+function parseSortFields<S extends string>(sort: string | undefined): S[] {
+  return (sort ?? '')
+    .split(',')
+    .map((p) => p.trim().replace(/^[-+]/, ''))
+    .filter(Boolean) as S[];
+}
@@ -0,0 +1,331 @@
+import { createHmac, randomBytes } from 'crypto';
+import { COMMON_ENV_SCHEMA } from '../config/common-env.schema';
+import { pickConfigSchema, validateConfig } from '../config/config-schema.util';
+import { LogRecord } from '../types/log.type';
+
+const REDACTION_ENV_SCHEMA = pickConfigSchema(COMMON_ENV_SCHEMA, [
+  'LOG_REDACT_PATHS',
+  'LOG_REDACT_STRATEGY',
+  'LOG_REDACT_HASH_SALT',
+]);
+
+/**
+ * - mask: replace with [REDACTED] / [REDACTED:<pattern>]
+ * - hash: replace with a salted hash prefix, so equal values can still be correlated
+ * - drop: remove the key (or the matched text)
+ */
+export type RedactionStrategy = 'mask' | 'hash' | 'drop';
+
+export interface RedactionPath {
+  path: string;
+  strategy?: RedactionStrategy;
+}
+
+export interface RedactionPattern {
+  name: string;
+  /** Must be a global (/g) expression */
+  pattern: RegExp;
+  /** Extra check on a match, e.g. Luhn for card numbers */
+  validate?: (match: string) => boolean;
+  strategy?: RedactionStrategy;
+}
+
+export interface RedactorOptions {
+  /**
+   * Key paths whose values are redacted, matched against the end of the
+   * path, case-insensitively: `headers.authorization` also matches
+   * `request.headers.authorization`; `*` is any single key, and a leading
+   * `*.` means "at any depth" (`*.password`). Array indexes are skipped.
+   */
+  paths?: Array<string | RedactionPath>;
+  /** Value patterns searched in every string (built-in names or custom) */
+  patterns?: Array<BuiltInRedactionPattern | RedactionPattern>;
+  /** Keep DEFAULT_REDACTION_PATHS and every built-in pattern (default: true) */
+  includeDefaults?: boolean;
+  /** Strategy for rules that don't set one (default: mask) */
+  strategy?: RedactionStrategy;
+  /** Salt for the hash strategy (default: random per process) */
+  hashSalt?: string;
+}
+
+/**
+ * Issuer prefixes (IIN) and lengths of the card networks seen in payments
+ * Luhn alone passes 1 in 10 random numbers (epoch-ms timestamps, snowflake
+ * and order IDs), so a number must also look like a real card.
+ */
+const CARD_NETWORKS: ReadonlyArray<{ prefix: RegExp; lengths: readonly number[] }> = [
+  { prefix: /^4/, lengths: [13, 16, 19] }, // Visa
+  { prefix: /^(5[1-5]|2[2-7])/, lengths: [16] }, // Mastercard
+  { prefix: /^3[47]/, lengths: [15] }, // American Express
+  { prefix: /^35/, lengths: [16, 17, 18, 19] }, // JCB
+  { prefix: /^(6011|65)/, lengths: [16, 17, 18, 19] }, // Discover
+  { prefix: /^9704/, lengths: [16, 19] }, // NAPAS (Vietnamese domestic cards)
+];
+
+/**
+ * Known card network prefix and length, plus a valid Luhn checksum
+ */
+function isCardNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  return (
+    CARD_NETWORKS.some(({ prefix, lengths }) => prefix.test(digits) && lengths.includes(digits.length)) &&
+    passesLuhn(digits)
+  );
+}
+
+/**
+ * Luhn checksum of a digit string
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export const BUILT_IN_REDACTION_PATTERNS = {
+  jwt: {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  },
+  email: {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  /** Vietnamese mobile numbers: 0xxxxxxxxx / +84xxxxxxxxx / 84xxxxxxxxx */
+  phoneVN: {
+    name: 'phone',
+    pattern: /(?<![\d+])(?:\+?84|0)[35789](?:[ .-]?\d){8}(?!\d)/g,
+  },
+  card: {
+    name: 'card',
+    pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    validate: isCardNumber,
+  },
+} satisfies Record<string, RedactionPattern>;
+
+export type BuiltInRedactionPattern = keyof typeof BUILT_IN_REDACTION_PATTERNS;
+
+/**
+ * Keys redacted unless `includeDefaults: false`
+ */
+export const DEFAULT_REDACTION_PATHS: readonly string[] = [
+  '*.password',
+  '*.newPassword',
+  '*.oldPassword',
+  '*.passwordHash',
+  '*.secret',
+  '*.token',
+  '*.accessToken',
+  '*.refreshToken',
+  '*.apiKey',
+  '*.otp',
+  '*.cardNumber',
+  '*.cvv',
+  'headers.authorization',
+  'headers.cookie',
+  'headers.set-cookie',
+  'headers.x-api-key',
+  'headers.x-user-session',
+];
+
+const MAX_DEPTH = 10;
+
+interface CompiledPath {
+  segments: string[];
+  strategy: RedactionStrategy;
+}
+
+/**
+ * Redacts secrets and PII from log payloads
+ *
+ * @example
+ * ```ts
+ * const redactor = new Redactor({ paths: ['*.nationalId'], strategy: 'hash' });
+ * redactor.redact({ body: { email: 'an@smashclub.vn', password: 'x' } });
+ * // { body: { email: '[hash:1f3a...]', password: '[hash:...]' } }
+ * ```
+ */
+export class Redactor {
+  private readonly paths: CompiledPath[];
+  private readonly patterns: Array<RedactionPattern & { strategy: RedactionStrategy }>;
+  private readonly hashSalt: string;
+
+  constructor(options: RedactorOptions = {}) {
+    const strategy = options.strategy ?? 'mask';
+    const includeDefaults = options.includeDefaults ?? true;
+
+    this.paths = [
+      ...(includeDefaults ? DEFAULT_REDACTION_PATHS : []),
+      ...(options.paths ?? []),
+    ].map((entry) => {
+      const { path, strategy: own } = typeof entry === 'string' ? { path: entry } : entry;
+      const segments = path.toLowerCase().split('.').filter((s) => s.length > 0);
+      // A leading "*" means any depth, which suffix matching already gives
+      while (segments.length > 1 && segments[0] === '*') segments.shift();
+      return { segments, strategy: own ?? strategy };
+    });
+
+    const patterns: RedactionPattern[] = [
+      ...(includeDefaults ? Object.values(BUILT_IN_REDACTION_PATTERNS) : []),
+      ...(options.patterns ?? []).map((p) =>
+        typeof p === 'string' ? BUILT_IN_REDACTION_PATTERNS[p] : p,
+      ),
+    ];
+    this.patterns = patterns
+      .filter((p, i, all) => all.indexOf(p) === i)
+      .map((p) => ({ ...p, strategy: p.strategy ?? strategy }));
+
+    this.hashSalt = options.hashSalt ?? randomBytes(16).toString('hex');
+  }
+
+  /**
+   * Deep copy of `value` with matching keys and value patterns redacted
+   */
+  redact<T>(value: T): T {
+    return this.walk(value, [], new WeakSet(), 0) as T;
+  }
+
+  /**
+   * `text` with every value pattern redacted
+   */
+  redactString(text: string): string {
+    let result = text;
+    for (const rule of this.patterns) {
+      result = result.replace(rule.pattern, (match) => {
+        if (rule.validate && !rule.validate(match)) return match;
+        return this.replacement(match, rule.strategy, rule.name) ?? '';
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Log record with msg, err and context redacted
+   */
+  redactRecord(record: LogRecord): LogRecord {
+    return {
+      ...record,
+      msg: this.redactString(record.msg),
+      ...(record.err && {
+        err: {
+          ...record.err,
+          ...(record.err.message && { message: this.redactString(record.err.message) }),
+          ...(record.err.stack && { stack: this.redactString(record.err.stack) }),
+        },
+      }),
+      ...(record.context && { context: this.redact(record.context) }),
+    };
+  }
+
+  private walk(value: unknown, path: string[], seen: WeakSet<object>, depth: number): unknown {
+    if (typeof value === 'string') return this.redactString(value);
+    if (!value || typeof value !== 'object') return value;
+
+    if (
+      value instanceof Date ||
+      value instanceof RegExp ||
+      ArrayBuffer.isView(value)
+    ) {
+      return value;
+    }
+    if (seen.has(value)) return '[Circular]';
+    if (depth >= MAX_DEPTH) return '[Truncated]';
+
+    seen.add(value);
+    const result = Array.isArray(value)
+      ? value.map((item) => this.walk(item, path, seen, depth + 1))
+      : this.walkObject(value as Record<string, unknown>, path, seen, depth);
+    // Only ancestors count as circular; shared siblings are copied again
+    seen.delete(value);
+    return result;
+  }
+
+  private walkObject(
+    value: Record<string, unknown>,
+    path: string[],
+    seen: WeakSet<object>,
+    depth: number,
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = [...path, key.toLowerCase()];
+      const rule = this.paths.find((p) => this.pathMatches(p.segments, childPath));
+
+      if (!rule) {
+        result[key] = this.walk(child, childPath, seen, depth + 1);
+      } else if (child === undefined || child === null) {
+        result[key] = child;
+      } else {
+        const replaced = this.replacement(
+          typeof child === 'string' ? child : JSON.stringify(child),
+          rule.strategy,
+        );
+        if (replaced !== undefined) result[key] = replaced;
+      }
+    }
+    return result;
+  }
+
+  private pathMatches(segments: string[], path: string[]): boolean {
+    if (segments.length > path.length) return false;
+    const offset = path.length - segments.length;
+    return segments.every((s, i) => s === '*' || s === path[offset + i]);
+  }
+
+  /**
+   * @returns undefined for the drop strategy
+   */
+  private replacement(
+    value: string,
+    strategy: RedactionStrategy,
+    name?: string,
+  ): string | undefined {
+    switch (strategy) {
+      case 'drop':
+        return undefined;
+      case 'hash':
+        return `[hash:${createHmac('sha256', this.hashSalt).update(value).digest('hex').slice(0, 12)}]`;
+      case 'mask':
+      default:
+        return name ? `[REDACTED:${name}]` : '[REDACTED]';
+    }
+  }
+}
+
+/**
+ * Build redactor options from LOG_REDACT_* config values
+ * @throws ConfigValidationError if a LOG_REDACT_* variable is malformed
+ */
+export function redactorOptionsFromConfig(get: (key: string) => unknown): RedactorOptions {
+  const env = validateConfig(REDACTION_ENV_SCHEMA, get);
+  return {
+    paths: env.LOG_REDACT_PATHS,
+    strategy: env.LOG_REDACT_STRATEGY,
+    hashSalt: env.LOG_REDACT_HASH_SALT,
+  };
+}
+
+let defaultRedactor: Redactor | undefined;
+
+/**
+ * Process-wide redactor used when none is passed explicitly
+ * (LoggingInterceptor, RepositoryLogger); built from LOG_REDACT_* env vars
+ */
+export function getDefaultRedactor(): Redactor {
+  defaultRedactor ??= new Redactor(redactorOptionsFromConfig((key) => process.env[key]));
+  return defaultRedactor;
+}
+
+/**
+ * Replace the process-wide redactor (e.g. at bootstrap, with custom rules)
+ */
+export function setDefaultRedactor(redactor: Redactor): void {
+  defaultRedactor = redactor;
+}
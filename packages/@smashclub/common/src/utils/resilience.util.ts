@@ -0,0 +1,53 @@
+import { Bulkhead } from './bulkhead.util';
+import { CircuitBreaker } from './circuit-breaker.util';
+import { retry, RetryOptions } from './retry.util';
+import { withTimeout } from './timeout.util';
+
+export interface ResilienceOptions {
+  /** Per-attempt timeout in ms */
+  timeoutMs?: number;
+  retry?: RetryOptions;
+  circuitBreaker?: CircuitBreaker;
+  bulkhead?: Bulkhead;
+  /** Caller's signal; stops retries and aborts the attempt in progress */
+  signal?: AbortSignal;
+}
+
+/**
+ * Run `fn` through several policies, outermost first:
+ * bulkhead -> retry -> circuit breaker -> timeout
+ *
+ * Each retry goes through the breaker (so it sees every failure) with a
+ * fresh timeout; calls rejected by an open circuit are not retried.
+ *
+ * @example
+ * ```ts
+ * const courtsCircuit = new CircuitBreaker({ name: 'court-service' });
+ *
+ * const courts = await resilient((signal) => fetch(`${url}/courts`, { signal }), {
+ *   timeoutMs: 2000,
+ *   retry: { retries: 2, baseDelayMs: 100 },
+ *   circuitBreaker: courtsCircuit,
+ * });
+ * ```
+ */
+export function resilient<T>(
+  fn: (signal?: AbortSignal) => Promise<T>,
+  options: ResilienceOptions,
+): Promise<T> {
+  const attempt = () => {
+    const call = () =>
+      options.timeoutMs !== undefined
+        ? withTimeout(fn, options.timeoutMs, {
+            signal: options.signal,
+            name: options.circuitBreaker?.name ?? options.retry?.name,
+          })
+        : fn(options.signal);
+    return options.circuitBreaker ? options.circuitBreaker.execute(call) : call();
+  };
+
+  const retried = () =>
+    options.retry ? retry(attempt, { signal: options.signal, ...options.retry }) : attempt();
+
+  return options.bulkhead ? options.bulkhead.execute(retried) : retried();
+}
@@ -0,0 +1,117 @@
+import { getCommonMetrics } from './common-metrics.util';
+
+export type JitterMode = 'full' | 'equal' | 'none';
+
+export interface BackoffOptions {
+  /** Delay before the first retry, in ms (default: 100) */
+  baseDelayMs?: number;
+  /** Upper bound of any delay, in ms (default: 30000) */
+  maxDelayMs?: number;
+  /** Growth per attempt (default: 2) */
+  factor?: number;
+  /**
+   * Randomization, so clients failing together don't retry together
+   * - full: random in [0, delay] (default)
+   * - equal: delay/2 + random in [0, delay/2]
+   * - none: exact delay
+   */
+  jitter?: JitterMode;
+}
+
+export interface RetryOptions extends BackoffOptions {
+  /** Retries after the first attempt; Infinity retries until aborted (default: 3) */
+  retries?: number;
+  /** Whether an error is worth retrying (default: everything but abort / open-circuit / bulkhead errors) */
+  retryIf?: (error: unknown, attempt: number) => boolean;
+  /** Called before waiting for the next attempt */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  /** Stops waiting and retrying when aborted */
+  signal?: AbortSignal;
+  /** Name for resilience_events_total (e.g. gateway.register); not recorded when omitted */
+  name?: string;
+}
+
+/** Errors that retrying can't fix; other policies mark theirs with this flag */
+export function isNonRetryableError(error: unknown): boolean {
+  return (
+    (error instanceof Error && error.name === 'AbortError') ||
+    (typeof error === 'object' && error !== null && (error as { retryable?: unknown }).retryable === false)
+  );
+}
+
+/**
+ * Delay before retry number `attempt` (1-based), exponential with jitter
+ */
+export function computeBackoff(attempt: number, options: BackoffOptions = {}): number {
+  const base = options.baseDelayMs ?? 100;
+  const max = options.maxDelayMs ?? 30_000;
+  const exponential = Math.min(max, base * Math.pow(options.factor ?? 2, Math.max(0, attempt - 1)));
+
+  switch (options.jitter ?? 'full') {
+    case 'none':
+      return exponential;
+    case 'equal':
+      return exponential / 2 + Math.random() * (exponential / 2);
+    default:
+      return Math.random() * exponential;
+  }
+}
+
+/**
+ * Resolve after `ms`, or reject with the abort reason when `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Call `fn` until it succeeds, waiting with exponential backoff between
+ * attempts; the last error is rethrown once retries are exhausted
+ *
+ * @example
+ * ```ts
+ * const courts = await retry(() => loadCourts(clubId), {
+ *   retries: 4,
+ *   baseDelayMs: 200,
+ *   onRetry: (err, attempt, delay) => logger.warn(`Attempt ${attempt} failed, retrying in ${delay}ms`),
+ * });
+ * ```
+ */
+export async function retry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions = {},
+): Promise<T> {
+  const retries = options.retries ?? 3;
+  const retryIf = options.retryIf ?? ((error: unknown) => !isNonRetryableError(error));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt > retries || options.signal?.aborted || !retryIf(error, attempt)) {
+        throw error;
+      }
+
+      const delay = Math.round(computeBackoff(attempt, options));
+      if (options.name) {
+        getCommonMetrics().resilienceEvents.inc({ policy: 'retry', name: options.name, event: 'retry' });
+      }
+      options.onRetry?.(error, attempt, delay);
+      await sleep(delay, options.signal);
+    }
+  }
+}
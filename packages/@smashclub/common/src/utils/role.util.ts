@@ -0,0 +1,86 @@
+import { ROLE_HIERARCHY, UserRole } from '../constants/roles.constant';
+import { RequestUser } from '../types/request-user.type';
+
+/**
+ * How a list of required roles is matched
+ * - any: user needs at least one of the roles (default)
+ * - all: user needs every role
+ */
+export type RoleMatchMode = 'any' | 'all';
+
+export interface RoleCheckOptions {
+  /** Match mode (default: 'any') */
+  mode?: RoleMatchMode;
+  /** Treat higher roles in ROLE_HIERARCHY as satisfying lower ones (default: false) */
+  hierarchy?: boolean;
+}
+
+type RoleSource = Pick<RequestUser, 'roles'> | string[] | null | undefined;
+
+function normalizeRoles(source: RoleSource): string[] {
+  const roles = Array.isArray(source) ? source : source?.roles;
+  return (roles || []).map((r) => r.trim().toUpperCase());
+}
+
+/**
+ * Get the rank of a role in ROLE_HIERARCHY (-1 for unknown roles)
+ */
+export function getRoleRank(role: string): number {
+  const rank = ROLE_HIERARCHY[role.trim().toUpperCase() as UserRole];
+  return rank ?? -1;
+}
+
+/**
+ * Get the highest rank among the given roles (-1 if none are known)
+ */
+export function getHighestRoleRank(source: RoleSource): number {
+  return normalizeRoles(source).reduce(
+    (max, role) => Math.max(max, getRoleRank(role)),
+    -1,
+  );
+}
+
+/**
+ * Check whether the user's roles reach at least `minRole` in ROLE_HIERARCHY
+ *
+ * Unknown roles only satisfy themselves (exact, case-insensitive match).
+ */
+export function satisfiesRole(source: RoleSource, minRole: string): boolean {
+  const roles = normalizeRoles(source);
+  const required = minRole.trim().toUpperCase();
+
+  if (roles.includes(required)) return true;
+
+  const requiredRank = getRoleRank(required);
+  if (requiredRank < 0) return false;
+
+  return getHighestRoleRank(roles) >= requiredRank;
+}
+
+/**
+ * Check the user's roles against a list of required roles
+ *
+ * @example
+ * ```ts
+ * hasRole(user, ['OWNER', 'ADMIN']);                     // any, exact
+ * hasRole(user, ['COACH'], { hierarchy: true });         // COACH or above
+ * hasRole(user, ['PLAYER', 'COACH'], { mode: 'all' });   // both roles
+ * ```
+ */
+export function hasRole(
+  source: RoleSource,
+  requiredRoles: string[],
+  options: RoleCheckOptions = {},
+): boolean {
+  if (requiredRoles.length === 0) return true;
+
+  const roles = normalizeRoles(source);
+  const check = (required: string) =>
+    options.hierarchy
+      ? satisfiesRole(roles, required)
+      : roles.includes(required.trim().toUpperCase());
+
+  return options.mode === 'all'
+    ? requiredRoles.every(check)
+    : requiredRoles.some(check);
+}
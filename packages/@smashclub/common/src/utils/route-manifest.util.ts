@@ -0,0 +1,53 @@
+import { createHash } from 'crypto';
+import { RouteManifest, RouteManifestEntry } from '../types/route-manifest.type';
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * JSON with object keys sorted, so equal content always hashes the same
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => compare(a, b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Content hash of a manifest (everything but the hash itself)
+ */
+export function hashRouteManifest(manifest: Omit<RouteManifest, 'hash'>): string {
+  return `sha256:${createHash('sha256').update(canonicalJson(manifest)).digest('hex')}`;
+}
+
+/**
+ * Build a manifest with routes in a stable order and its content hash
+ */
+export function buildRouteManifest(input: {
+  service: string;
+  routes: RouteManifestEntry[];
+  weight?: number;
+  zone?: string;
+  tags?: string[];
+}): RouteManifest {
+  const routes = [...input.routes].sort(
+    (a, b) => compare(a.path, b.path) || compare(a.method, b.method),
+  );
+  const manifest: Omit<RouteManifest, 'hash'> = {
+    version: 1,
+    service: input.service,
+    weight: input.weight ?? 100,
+    ...(input.zone && { zone: input.zone }),
+    tags: [...new Set(input.tags ?? [])].sort(),
+    routes,
+  };
+  return { ...manifest, hash: hashRouteManifest(manifest) };
+}
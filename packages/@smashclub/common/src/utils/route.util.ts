@@ -0,0 +1,12 @@
+/**
+ * Route template of a matched Express request (e.g. /courts/:id), so
+ * metrics don't get one series per id; 'unmatched' when no route matched
+ */
+export function getRouteTemplate(request: {
+  baseUrl?: string;
+  route?: { path?: unknown };
+}): string {
+  const path = request.route?.path;
+  if (typeof path !== 'string') return 'unmatched';
+  return `${request.baseUrl ?? ''}${path}` || '/';
+}
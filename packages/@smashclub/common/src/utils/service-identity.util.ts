@@ -0,0 +1,36 @@
+import { RequestUser } from '../types/request-user.type';
+import { ServiceIdentity } from '../types/service-identity.type';
+
+/**
+ * Check whether request.user is a service (machine) identity
+ */
+export function isServiceIdentity(
+  user: RequestUser | null | undefined,
+): user is ServiceIdentity {
+  return !!user && user['isService'] === true && typeof user['serviceName'] === 'string';
+}
+
+/**
+ * Check a service identity against an @AllowServices() list ('*' allows any service)
+ */
+export function isServiceAllowed(
+  identity: ServiceIdentity,
+  allowedServices: string[] | undefined,
+): boolean {
+  if (!allowedServices || allowedServices.length === 0) return false;
+  return allowedServices.includes('*') || allowedServices.includes(identity.serviceName);
+}
+
+/**
+ * Build the RequestUser-compatible identity for a service
+ */
+export function createServiceIdentity(serviceName: string, scopes: string[] = []): ServiceIdentity {
+  return {
+    id: `service:${serviceName}`,
+    roles: [],
+    permissions: scopes,
+    isService: true,
+    serviceName,
+    scopes,
+  };
+}
@@ -1,11 +1,12 @@
 import { createHmac, timingSafeEqual, verify } from "crypto"
+import { SECURITY_CONTANTS } from "../constants/signature.constant";
 
 
 export function buildHmacSignature(
     data: string,
     secret: string,
 ):string{
-    return createHmac('sha256',secret).update(data).digest('hex');
+    return createHmac(SECURITY_CONTANTS.HMAC_ALGORITHM,secret).update(data).digest('hex');
 }
 export function verifyHmacSignature(
     data:string,
@@ -0,0 +1,209 @@
+import { randomBytes } from 'crypto';
+import { SECURITY_CONTANTS } from '../constants/signature.constant';
+import { RequestUser } from '../types/request-user.type';
+import {
+  IdentityRejectionReason,
+  IdentityVerificationResult,
+  SignedIdentityEnvelope,
+} from '../types/signed-identity.type';
+import { getDefaultNonceStore, NonceStore } from './nonce-store.util';
+import { buildHmacSignature, verifyHmacSignature } from './signature-verify.util';
+
+/**
+ * Incoming header bag (Express / Node style)
+ */
+export type HeaderBag = Record<string, string | string[] | undefined>;
+
+/**
+ * Read a single header value (first value wins for repeated headers)
+ */
+export function readHeader(headers: HeaderBag, name: string): string | undefined {
+  const value = headers[name];
+  if (Array.isArray(value)) return value[0];
+  return value;
+}
+
+function splitList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+}
+
+/**
+ * Split a comma-separated roles header into trimmed, non-empty roles
+ */
+export function parseRolesHeader(value: string | undefined): string[] {
+  return splitList(value);
+}
+
+/**
+ * Parse a comma-separated secrets list (e.g. GATEWAY_SIGNING_SECRETS)
+ * The first secret is used for signing; all are accepted when verifying.
+ */
+export function parseSecretList(value: string | undefined): string[] {
+  return splitList(value);
+}
+
+/**
+ * Build the canonical string that is signed for an identity envelope
+ * @param version Canonical format; v1 has no permissions line
+ */
+export function buildCanonicalIdentity(
+  envelope: SignedIdentityEnvelope,
+  version: string = SECURITY_CONTANTS.SIGNED_IDENTITY_VERSION,
+): string {
+  return [
+    version,
+    envelope.id,
+    envelope.roles.join(','),
+    envelope.email ?? '',
+    ...(version === SECURITY_CONTANTS.LEGACY_SIGNED_IDENTITY_VERSION
+      ? []
+      : [(envelope.permissions ?? []).join(',')]),
+    String(envelope.iat),
+    envelope.nonce,
+  ].join('\n');
+}
+
+export interface SignIdentityOptions {
+  /** Issued-at timestamp override (default: Date.now()) */
+  now?: number;
+  /** Nonce override (default: 16 random bytes, hex) */
+  nonce?: string;
+}
+
+/**
+ * Sign a user identity and return the headers the Gateway should forward
+ *
+ * @example
+ * ```ts
+ * const headers = signIdentity(user, process.env.GATEWAY_SIGNING_SECRET!);
+ * proxyReq.set(headers);
+ * ```
+ */
+export function signIdentity(
+  user: Pick<RequestUser, 'id' | 'email' | 'roles' | 'permissions'>,
+  secret: string,
+  options: SignIdentityOptions = {},
+): Record<string, string> {
+  const envelope: SignedIdentityEnvelope = {
+    id: user.id,
+    roles: parseRolesHeader(user.roles.join(',')),
+    email: user.email || undefined,
+    permissions: parseRolesHeader((user.permissions ?? []).join(',')),
+    iat: options.now ?? Date.now(),
+    nonce: options.nonce ?? randomBytes(16).toString('hex'),
+  };
+  const signature = buildHmacSignature(buildCanonicalIdentity(envelope), secret);
+
+  const headers: Record<string, string> = {
+    [SECURITY_CONTANTS.X_USER_ID_HEADER]: envelope.id,
+    [SECURITY_CONTANTS.X_USER_ROLES_HEADER]: envelope.roles.join(','),
+    [SECURITY_CONTANTS.X_USER_SESSION_HEADER]: `${envelope.iat}.${envelope.nonce}.${signature}`,
+  };
+  if (envelope.email) {
+    headers[SECURITY_CONTANTS.X_USER_EMAIL_HEADER] = envelope.email;
+  }
+  if (envelope.permissions?.length) {
+    headers[SECURITY_CONTANTS.X_USER_PERMISSIONS_HEADER] = envelope.permissions.join(',');
+  }
+  return headers;
+}
+
+export interface SignedIdentityVerifierOptions {
+  /** Accepted shared secrets (current first, then previous ones during rotation) */
+  secrets: string[];
+  /** Maximum accepted age / clock skew in ms (default: SECURITY_CONTANTS.MAX_CLOCK_SKEW_MS) */
+  maxClockSkewMs?: number;
+  /** Store used to reject replayed nonces (default: getDefaultNonceStore()) */
+  nonceStore?: NonceStore;
+  /**
+   * Accept v1 signatures from gateways not yet signing v2 (default: true)
+   * v1 doesn't sign permissions, so those are only accepted without an x-user-permissions header.
+   */
+  acceptLegacyVersion?: boolean;
+}
+
+/**
+ * Verifies x-user-* headers signed with {@link signIdentity}
+ */
+export class SignedIdentityVerifier {
+  private readonly secrets: string[];
+  private readonly maxClockSkewMs: number;
+  private readonly nonceStore: NonceStore;
+  private readonly acceptLegacyVersion: boolean;
+
+  constructor(options: SignedIdentityVerifierOptions) {
+    this.secrets = options.secrets.filter((s) => s.length > 0);
+    this.maxClockSkewMs = options.maxClockSkewMs ?? SECURITY_CONTANTS.MAX_CLOCK_SKEW_MS;
+    this.nonceStore = options.nonceStore ?? getDefaultNonceStore();
+    this.acceptLegacyVersion = options.acceptLegacyVersion ?? true;
+  }
+
+  /**
+   * Whether any secret is configured (verification is enforceable)
+   */
+  get enabled(): boolean {
+    return this.secrets.length > 0;
+  }
+
+  verify(headers: HeaderBag, now = Date.now()): IdentityVerificationResult {
+    const userId = readHeader(headers, SECURITY_CONTANTS.X_USER_ID_HEADER);
+    const session = readHeader(headers, SECURITY_CONTANTS.X_USER_SESSION_HEADER);
+
+    if (!userId || !session) {
+      return { valid: false, reason: IdentityRejectionReason.MISSING_SIGNATURE };
+    }
+
+    const parts = session.split('.');
+    const iat = Number(parts[0]);
+    if (parts.length !== 3 || !Number.isSafeInteger(iat) || !parts[1] || !parts[2]) {
+      return { valid: false, reason: IdentityRejectionReason.MALFORMED_SIGNATURE };
+    }
+
+    const envelope: SignedIdentityEnvelope = {
+      id: userId,
+      roles: parseRolesHeader(readHeader(headers, SECURITY_CONTANTS.X_USER_ROLES_HEADER)),
+      email: readHeader(headers, SECURITY_CONTANTS.X_USER_EMAIL_HEADER) || undefined,
+      permissions: parseRolesHeader(
+        readHeader(headers, SECURITY_CONTANTS.X_USER_PERMISSIONS_HEADER),
+      ),
+      iat,
+      nonce: parts[1],
+    };
+
+    const versions: string[] = [SECURITY_CONTANTS.SIGNED_IDENTITY_VERSION];
+    if (this.acceptLegacyVersion && !envelope.permissions?.length) {
+      versions.push(SECURITY_CONTANTS.LEGACY_SIGNED_IDENTITY_VERSION);
+    }
+    const signatureOk = versions.some((version) => {
+      const canonical = buildCanonicalIdentity(envelope, version);
+      return this.secrets.some((secret) => verifyHmacSignature(canonical, parts[2], secret));
+    });
+    if (!signatureOk) {
+      return { valid: false, reason: IdentityRejectionReason.INVALID_SIGNATURE };
+    }
+
+    if (Math.abs(now - iat) > this.maxClockSkewMs) {
+      return { valid: false, reason: IdentityRejectionReason.STALE_SIGNATURE };
+    }
+
+    // Only remember nonces of authentic envelopes so garbage can't fill the store
+    if (!this.nonceStore.remember(envelope.nonce, iat + this.maxClockSkewMs)) {
+      return { valid: false, reason: IdentityRejectionReason.REPLAYED_SIGNATURE };
+    }
+
+    return {
+      valid: true,
+      envelope,
+      user: {
+        id: envelope.id,
+        email: envelope.email,
+        roles: envelope.roles,
+        ...(envelope.permissions?.length ? { permissions: envelope.permissions } : {}),
+      },
+    };
+  }
+}
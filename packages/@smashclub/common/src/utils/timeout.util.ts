@@ -0,0 +1,58 @@
+import { getCommonMetrics } from './common-metrics.util';
+
+/**
+ * A call took longer than its timeout
+ */
+export class TimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export interface TimeoutOptions {
+  /** Caller's signal; aborting it also aborts `fn` */
+  signal?: AbortSignal;
+  /** Name for resilience_events_total; not recorded when omitted */
+  name?: string;
+}
+
+/**
+ * Run `fn` with a signal aborted after `timeoutMs`
+ * Rejects with TimeoutError on time even if `fn` ignores the signal.
+ *
+ * @example
+ * ```ts
+ * const res = await withTimeout((signal) => fetch(url, { signal }), 2000);
+ * ```
+ */
+export function withTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  options: TimeoutOptions = {},
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) {
+    onAbort();
+  } else {
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new TimeoutError(timeoutMs);
+      if (options.name) {
+        getCommonMetrics().resilienceEvents.inc({ policy: 'timeout', name: options.name, event: 'timeout' });
+      }
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  return Promise.race([Promise.resolve().then(() => fn(controller.signal)), timeout]).finally(() => {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  });
+}
@@ -0,0 +1,79 @@
+import { randomBytes } from 'crypto';
+import { SpanContext } from '../types/trace.type';
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/** W3C limits: at most 32 list members, 512 characters worth propagating */
+const MAX_TRACESTATE_MEMBERS = 32;
+const MAX_TRACESTATE_LENGTH = 512;
+const TRACESTATE_MEMBER_PATTERN =
+  /^(?:[a-z][_0-9a-z\-*/]{0,255}|[a-z0-9][_0-9a-z\-*/]{0,240}@[a-z][_0-9a-z\-*/]{0,13})=[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
+export function generateTraceId(): string {
+  return randomBytes(16).toString('hex');
+}
+
+export function generateSpanId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * Parse a W3C traceparent header (`00-<trace-id>-<parent-id>-<flags>`)
+ * @returns undefined when missing or invalid (a new trace is then started)
+ */
+export function parseTraceparent(
+  header: string | undefined,
+  tracestate?: string,
+): SpanContext | undefined {
+  const match = header && TRACEPARENT_PATTERN.exec(header.trim().toLowerCase());
+  if (!match) return undefined;
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is forbidden; version 00 must not carry extra fields
+  if (version === 'ff' || (version === '00' && rest)) return undefined;
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return undefined;
+
+  const normalizedState = normalizeTracestate(tracestate);
+  return {
+    traceId,
+    spanId,
+    sampled: (parseInt(flags, 16) & 0x01) === 1,
+    ...(normalizedState && { tracestate: normalizedState }),
+  };
+}
+
+/**
+ * Format a span context as a version 00 traceparent header
+ */
+export function formatTraceparent(context: Pick<SpanContext, 'traceId' | 'spanId' | 'sampled'>): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+/**
+ * Validate a tracestate header, dropping malformed members and
+ * members beyond the W3C limits
+ * @returns undefined when nothing valid remains
+ */
+export function normalizeTracestate(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+
+  const seen = new Set<string>();
+  const members: string[] = [];
+  for (const raw of header.split(',')) {
+    const member = raw.trim();
+    if (!member || !TRACESTATE_MEMBER_PATTERN.test(member)) continue;
+
+    const key = member.slice(0, member.indexOf('='));
+    if (seen.has(key)) continue;
+    seen.add(key);
+    members.push(member);
+  }
+
+  let value = members.slice(0, MAX_TRACESTATE_MEMBERS).join(',');
+  while (value.length > MAX_TRACESTATE_LENGTH && value.includes(',')) {
+    value = value.slice(0, value.lastIndexOf(','));
+  }
+  return value && value.length <= MAX_TRACESTATE_LENGTH ? value : undefined;
+}
@@ -0,0 +1,334 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { COMMON_ENV_SCHEMA } from '../config/common-env.schema';
+import { pickConfigSchema, validateConfig } from '../config/config-schema.util';
+import { ConsoleSpanExporter } from '../exporters/console-span.exporter';
+import { OtlpHttpSpanExporter } from '../exporters/otlp-http-span.exporter';
+import {
+  SpanAttributes,
+  SpanContext,
+  SpanData,
+  SpanEvent,
+  SpanExporter,
+  SpanKind,
+  SpanStatus,
+} from '../types/trace.type';
+import { formatTraceparent, generateSpanId, generateTraceId } from './trace-context.util';
+
+const activeSpan = new AsyncLocalStorage<Span>();
+
+const TRACING_ENV_SCHEMA = pickConfigSchema(COMMON_ENV_SCHEMA, [
+  'SERVICE_NAME',
+  'TRACE_EXPORTERS',
+  'TRACE_SAMPLE_RATIO',
+  'OTEL_EXPORTER_OTLP_ENDPOINT',
+]);
+
+export interface TracerOptions {
+  /** Service name attached to spans (default: 'unknown') */
+  service?: string;
+  /** Tracing is off (spans are not recorded) without at least one exporter */
+  exporters?: SpanExporter[];
+  /** Fraction of new traces that are recorded, 0..1 (default: 1) */
+  sampleRatio?: number;
+  /** Spans per export call (default: 512) */
+  maxBatchSize?: number;
+  /** Export interval in ms (default: 5000) */
+  flushIntervalMs?: number;
+  /** Spans kept while exporters are slow; newer ones are dropped (default: 2048) */
+  maxQueueSize?: number;
+}
+
+export interface StartSpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  /**
+   * Parent span context (default: the active span)
+   * null starts a new trace.
+   */
+  parent?: SpanContext | null;
+}
+
+/**
+ * A unit of work being timed; call end() exactly once
+ */
+export class Span {
+  readonly context: SpanContext;
+  readonly parentSpanId?: string;
+  private readonly startTime = performance.timeOrigin + performance.now();
+  private readonly attributes: SpanAttributes;
+  private readonly events: SpanEvent[] = [];
+  private status: SpanStatus = 'unset';
+  private statusMessage?: string;
+  private ended = false;
+
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    context: SpanContext,
+    parentSpanId: string | undefined,
+    attributes: SpanAttributes,
+    private readonly onEnd: (span: Omit<SpanData, 'service'>) => void,
+    /** Whether the span will be exported */
+    readonly recording: boolean,
+  ) {
+    this.context = context;
+    this.parentSpanId = parentSpanId;
+    this.attributes = { ...attributes };
+  }
+
+  get traceId(): string {
+    return this.context.traceId;
+  }
+
+  get spanId(): string {
+    return this.context.spanId;
+  }
+
+  /** traceparent header naming this span as the parent */
+  get traceparent(): string {
+    return formatTraceparent(this.context);
+  }
+
+  setAttribute(key: string, value: string | number | boolean | undefined): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    Object.assign(this.attributes, attributes);
+    return this;
+  }
+
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    this.events.push({ name, time: Date.now(), ...(attributes && { attributes }) });
+    return this;
+  }
+
+  setStatus(status: SpanStatus, message?: string): this {
+    this.status = status;
+    this.statusMessage = message;
+    return this;
+  }
+
+  /**
+   * Mark the span as failed and attach the error as an `exception` event
+   */
+  recordException(error: unknown): this {
+    const err = error instanceof Error ? error : new Error(String(error));
+    this.addEvent('exception', {
+      'exception.type': err.name,
+      'exception.message': err.message,
+      'exception.stacktrace': err.stack,
+    });
+    return this.setStatus('error', err.message);
+  }
+
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    if (!this.recording) return;
+
+    this.onEnd({
+      traceId: this.context.traceId,
+      spanId: this.context.spanId,
+      ...(this.parentSpanId && { parentSpanId: this.parentSpanId }),
+      name: this.name,
+      kind: this.kind,
+      startTime: this.startTime,
+      endTime: performance.timeOrigin + performance.now(),
+      attributes: this.attributes,
+      status: this.status,
+      ...(this.statusMessage && { statusMessage: this.statusMessage }),
+      events: this.events,
+    });
+  }
+}
+
+/**
+ * Lightweight tracer: creates spans, tracks the active one across async
+ * boundaries and exports finished spans in batches
+ *
+ * @example
+ * ```ts
+ * const courts = await getTracer().withSpan('court-service.getCourt', async (span) => {
+ *   span.setAttribute('court.id', id);
+ *   return courtClient.get(id);
+ * }, { kind: 'client' });
+ * ```
+ */
+export class Tracer implements OnModuleDestroy {
+  private readonly logger = new Logger(Tracer.name);
+  private readonly service: string;
+  private readonly exporters: SpanExporter[];
+  private readonly sampleRatio: number;
+  private readonly maxBatchSize: number;
+  private readonly flushIntervalMs: number;
+  private readonly maxQueueSize: number;
+  private queue: SpanData[] = [];
+  private flushTimer?: ReturnType<typeof setInterval>;
+  private flushing?: Promise<void>;
+
+  constructor(options: TracerOptions = {}) {
+    this.service = options.service ?? 'unknown';
+    this.exporters = options.exporters ?? [];
+    this.sampleRatio = Math.min(1, Math.max(0, options.sampleRatio ?? 1));
+    this.maxBatchSize = options.maxBatchSize ?? 512;
+    this.flushIntervalMs = options.flushIntervalMs ?? 5000;
+    this.maxQueueSize = options.maxQueueSize ?? 2048;
+  }
+
+  /** Spans are only recorded when there is somewhere to export them */
+  get enabled(): boolean {
+    return this.exporters.length > 0;
+  }
+
+  /**
+   * Start a span; it is not made active (see withSpan / runInSpan)
+   */
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent =
+      options.parent === undefined ? activeSpan.getStore()?.context : options.parent ?? undefined;
+
+    const sampled = parent ? parent.sampled : Math.random() < this.sampleRatio;
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? generateTraceId(),
+      spanId: generateSpanId(),
+      sampled,
+      ...(parent?.tracestate && { tracestate: parent.tracestate }),
+    };
+
+    return new Span(
+      name,
+      options.kind ?? 'internal',
+      context,
+      parent?.spanId,
+      options.attributes ?? {},
+      (data) => this.enqueue({ ...data, service: this.service }),
+      this.enabled && sampled,
+    );
+  }
+
+  /**
+   * Run `fn` with `span` as the active span (without ending it)
+   */
+  runInSpan<T>(span: Span, fn: () => T): T {
+    return activeSpan.run(span, fn);
+  }
+
+  /**
+   * Run `fn` in a new active span, ended when `fn` settles;
+   * a thrown error is recorded on the span and rethrown
+   */
+  async withSpan<T>(
+    name: string,
+    fn: (span: Span) => T | Promise<T>,
+    options: StartSpanOptions = {},
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await activeSpan.run(span, () => fn(span));
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Export every queued span now
+   */
+  async forceFlush(): Promise<void> {
+    while (this.flushing) await this.flushing;
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.maxBatchSize);
+      this.flushing = this.exportBatch(batch);
+      await this.flushing;
+      this.flushing = undefined;
+    }
+  }
+
+  /**
+   * Flush, then shut exporters down
+   */
+  async shutdown(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    await this.forceFlush();
+    for (const exporter of this.exporters) {
+      await exporter.shutdown?.();
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.shutdown();
+  }
+
+  private enqueue(span: SpanData): void {
+    if (this.queue.length >= this.maxQueueSize) return;
+    this.queue.push(span);
+
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => void this.forceFlush(), this.flushIntervalMs);
+      this.flushTimer.unref();
+    }
+    if (this.queue.length >= this.maxBatchSize && !this.flushing) {
+      void this.forceFlush();
+    }
+  }
+
+  private async exportBatch(batch: SpanData[]): Promise<void> {
+    for (const exporter of this.exporters) {
+      try {
+        await exporter.export(batch);
+      } catch (error) {
+        this.logger.warn(`Span exporter ${exporter.name} failed: ${(error as Error).message}`);
+      }
+    }
+  }
+}
+
+/**
+ * Span active in the current async context, if any
+ */
+export function getActiveSpan(): Span | undefined {
+  return activeSpan.getStore();
+}
+
+/**
+ * Build tracer options from TRACE_* / OTEL_* config values
+ * @throws ConfigValidationError if one of them is malformed
+ */
+export function tracerOptionsFromConfig(get: (key: string) => unknown): TracerOptions {
+  const env = validateConfig(TRACING_ENV_SCHEMA, get);
+  return {
+    service: env.SERVICE_NAME,
+    sampleRatio: env.TRACE_SAMPLE_RATIO,
+    exporters: (env.TRACE_EXPORTERS ?? []).map((name) =>
+      name === 'otlp'
+        ? new OtlpHttpSpanExporter({ url: `${env.OTEL_EXPORTER_OTLP_ENDPOINT}/v1/traces` })
+        : new ConsoleSpanExporter(),
+    ),
+  };
+}
+
+let defaultTracer: Tracer | undefined;
+
+/**
+ * Process-wide tracer used by the built-in instrumentation
+ * (built from TRACE_* env vars; disabled when TRACE_EXPORTERS is empty)
+ */
+export function getTracer(): Tracer {
+  defaultTracer ??= new Tracer(tracerOptionsFromConfig((key) => process.env[key]));
+  return defaultTracer;
+}
+
+/**
+ * Replace the process-wide tracer (done by SmashClubCommonModule.forRoot({ tracing }))
+ */
+export function setTracer(tracer: Tracer): void {
+  defaultTracer = tracer;
+}
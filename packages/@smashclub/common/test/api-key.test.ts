@@ -0,0 +1,124 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  AllowServices,
+  ApiKeyRejectionReason,
+  createServiceIdentity,
+  GatewayAuthGuard,
+  hashApiKey,
+  IDENTITY_STRATEGY,
+  IdentityResolver,
+  InMemoryApiKeyStore,
+  InMemoryNonceStore,
+  isServiceIdentity,
+  RequestUser,
+  Roles,
+  RolesGuard,
+} from '../src';
+
+@Roles('ADMIN')
+class ParticipantsController {
+  @AllowServices('notification-service')
+  list() {}
+
+  @AllowServices('*')
+  count() {}
+
+  internal() {}
+}
+
+function setup() {
+  const store = new InMemoryApiKeyStore();
+  const { apiKey, record } = store.issue('notification-service', ['booking:read:any']);
+  const resolver = new IdentityResolver({
+    apiKeyStore: store,
+    strategies: [IDENTITY_STRATEGY.API_KEY],
+    nonceStore: new InMemoryNonceStore(),
+  });
+  return { store, apiKey, record, guard: new GatewayAuthGuard(new Reflector(), resolver) };
+}
+
+function context(handler: keyof ParticipantsController, request: object): ExecutionContext {
+  return {
+    getHandler: () => ParticipantsController.prototype[handler],
+    getClass: () => ParticipantsController,
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+async function authError(guard: GatewayAuthGuard, apiKey: string): Promise<string> {
+  try {
+    await guard.canActivate(context('list', { headers: { 'x-api-key': apiKey } }));
+  } catch (error) {
+    assert.ok(error instanceof UnauthorizedException);
+    return (error.getResponse() as { error: string }).error;
+  }
+  assert.fail('expected an UnauthorizedException');
+}
+
+describe('InMemoryApiKeyStore', () => {
+  it('stores keys by hash only', async () => {
+    const { store, apiKey, record } = setup();
+
+    assert.match(apiKey, /^sck_[0-9a-f]{12}_/);
+    assert.equal(record.keyId, apiKey.split('_')[1]);
+    assert.equal(await store.findByHash(apiKey), null);
+    assert.equal((await store.findByHash(hashApiKey(apiKey)))?.serviceName, 'notification-service');
+  });
+
+  it('revokes keys once', () => {
+    const { store, record } = setup();
+
+    assert.equal(store.revoke(record.keyId), true);
+    assert.equal(store.revoke(record.keyId), false);
+  });
+});
+
+describe('API key authentication', () => {
+  it('resolves a valid key to a service identity', async () => {
+    const { guard, apiKey } = setup();
+    const request: { headers: Record<string, string>; user?: RequestUser; authStrategy?: string } = {
+      headers: { 'x-api-key': apiKey },
+    };
+
+    assert.equal(await guard.canActivate(context('list', request)), true);
+    assert.equal(request.authStrategy, IDENTITY_STRATEGY.API_KEY);
+    assert.ok(isServiceIdentity(request.user));
+    assert.deepEqual(request.user.scopes, ['booking:read:any']);
+  });
+
+  it('rejects unknown, revoked and expired keys with 401', async () => {
+    const { store, guard, record, apiKey } = setup();
+    const expired = store.issue('notification-service', [], new Date(Date.now() - 1000));
+
+    assert.equal(await authError(guard, 'sck_000000000000_nope'), ApiKeyRejectionReason.API_KEY_INVALID);
+    assert.equal(await authError(guard, expired.apiKey), ApiKeyRejectionReason.API_KEY_EXPIRED);
+
+    store.revoke(record.keyId);
+    assert.equal(await authError(guard, apiKey), ApiKeyRejectionReason.API_KEY_REVOKED);
+  });
+
+  it('only lets services through on routes that allow them', async () => {
+    const { store, guard, apiKey } = setup();
+    store.add('sck_aaaaaaaaaaaa_secret', 'billing-service');
+    const billing = { headers: { 'x-api-key': 'sck_aaaaaaaaaaaa_secret' } };
+
+    assert.equal(await guard.canActivate(context('count', billing)), true);
+    await assert.rejects(guard.canActivate(context('list', { ...billing })), /billing-service is not allowed/);
+    await assert.rejects(
+      guard.canActivate(context('internal', { headers: { 'x-api-key': apiKey } })),
+      ForbiddenException,
+    );
+  });
+
+  it('lets allowed services skip role checks', () => {
+    const roles = new RolesGuard(new Reflector());
+    const service = createServiceIdentity('notification-service');
+
+    assert.equal(roles.canActivate(context('list', { user: service })), true);
+    assert.throws(() => roles.canActivate(context('internal', { user: service })), ForbiddenException);
+  });
+});
@@ -0,0 +1,101 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  auditStamping,
+  ConcurrencyConflictError,
+  IAuditable,
+  IBaseEntity,
+  InMemoryRepository,
+  ISoftDeletable,
+  IVersioned,
+  optimisticLocking,
+  softDelete,
+  withBehaviours,
+} from '../src';
+
+interface Booking extends IBaseEntity, ISoftDeletable, Partial<IAuditable> {
+  status: string;
+}
+
+interface Payment extends IBaseEntity, IVersioned {
+  status: string;
+}
+
+const fixtures: Booking[] = [
+  { id: 'b1', status: 'PENDING', isDeleted: false },
+  { id: 'b2', status: 'CONFIRMED', isDeleted: false },
+];
+
+function store(): InMemoryRepository<Booking> {
+  return new InMemoryRepository<Booking>({ softDelete: true, audit: false }).seed(fixtures);
+}
+
+describe('withBehaviours', () => {
+  it('soft deletes and restores', async () => {
+    const bookings = withBehaviours(store(), softDelete());
+
+    await bookings.delete('b1');
+
+    assert.equal(await bookings.findById('b1'), null);
+    assert.equal(await bookings.exists('b1'), false);
+    assert.equal((await bookings.withDeleted().findById('b1'))?.isDeleted, true);
+    assert.equal((await bookings.findMany({ page: 1, limit: 10 })).total, 1);
+    assert.deepEqual((await bookings.findPage({ limit: 10 })).data.map((b) => b.id), ['b2']);
+
+    const restored = await bookings.restore('b1');
+
+    assert.equal(restored?.isDeleted, false);
+    assert.equal(restored?.deletedAt, null);
+    assert.equal((await bookings.findMany({ page: 1, limit: 10 })).total, 2);
+  });
+
+  it('refuses a store whose pages would show soft-deleted rows', () => {
+    const plain = new InMemoryRepository<Booking>().seed(fixtures);
+
+    assert.throws(() => withBehaviours(plain, softDelete()), /softDelete needs a repository/);
+  });
+
+  it('refuses to restore without a soft-delete behaviour', async () => {
+    const bookings = withBehaviours(store(), auditStamping());
+
+    await assert.rejects(bookings.restore('b1'), /needs a behaviour that soft deletes/);
+  });
+
+  it('stamps audit fields', async () => {
+    const at = new Date('2026-01-01T00:00:00.000Z');
+    const bookings = withBehaviours(store(), auditStamping({ now: () => at, currentUserId: () => 'u1' }));
+
+    const saved = await bookings.save({ id: 'b1', status: 'CONFIRMED', isDeleted: false });
+
+    assert.equal(saved.updatedAt?.getTime(), at.getTime());
+    assert.equal(saved.updatedBy, 'u1');
+  });
+
+  it('rejects stale versions with a 409', async () => {
+    const payments = withBehaviours(new InMemoryRepository<Payment>(), optimisticLocking<Payment>('Payment'));
+    const created = await payments.save({ id: '', status: 'PENDING', version: 0 });
+    assert.equal(created.version, 1);
+
+    const updated = await payments.save({ ...created, status: 'PAID' });
+    assert.equal(updated.version, 2);
+
+    await assert.rejects(payments.save({ ...created, status: 'FAILED' }), (error) => {
+      assert.ok(error instanceof ConcurrencyConflictError);
+      assert.equal(error.getStatus(), 409);
+      return true;
+    });
+  });
+
+  it('lets only one of two concurrent saves of the same version win', async () => {
+    const payments = withBehaviours(new InMemoryRepository<Payment>(), optimisticLocking<Payment>('Payment'));
+    const created = await payments.save({ id: '', status: 'PENDING', version: 0 });
+
+    const results = await Promise.allSettled([
+      payments.save({ ...created, status: 'PAID' }),
+      payments.save({ ...created, status: 'FAILED' }),
+    ]);
+
+    assert.deepEqual(results.map((r) => r.status), ['fulfilled', 'rejected']);
+  });
+});
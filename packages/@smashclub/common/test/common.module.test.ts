@@ -0,0 +1,22 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { HealthController, MetricsController, SmashClubCommonModule } from '../src';
+
+describe('SmashClubCommonModule', () => {
+  it('mounts /metrics and /health only for enabled features', () => {
+    assert.deepEqual(SmashClubCommonModule.forRoot().controllers, []);
+    assert.deepEqual(SmashClubCommonModule.forRoot({ metrics: {}, health: { enabled: false } }).controllers, [
+      MetricsController,
+    ]);
+  });
+
+  it('mounts the endpoints listed for forRootAsync', () => {
+    const useFactory = () => ({ health: {} });
+
+    assert.deepEqual(SmashClubCommonModule.forRootAsync({ useFactory }).controllers, []);
+    assert.deepEqual(SmashClubCommonModule.forRootAsync({ useFactory, endpoints: ['health'] }).controllers, [
+      HealthController,
+    ]);
+  });
+});
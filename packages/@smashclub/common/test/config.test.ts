@@ -0,0 +1,28 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ConfigService } from '@nestjs/config';
+import { ConfigIssue, ConfigValidationError, loadCommonEnv } from '../src';
+
+describe('loadCommonEnv', () => {
+  const config = new ConfigService({ GATEWAY_REGISTRY_ENABLED: 'disabled', GATEWAY_HEARTBEAT_INTERVAL: 'often' });
+
+  it('rejects invalid variables by default', () => {
+    assert.throws(() => loadCommonEnv(config), (error) => {
+      assert.ok(error instanceof ConfigValidationError);
+      assert.deepEqual(error.issues.map((i) => i.key), ['GATEWAY_REGISTRY_ENABLED', 'GATEWAY_HEARTBEAT_INTERVAL']);
+      return true;
+    });
+  });
+
+  it('falls back to defaults with a warning when lenient', () => {
+    const warnings: ConfigIssue[] = [];
+
+    const env = loadCommonEnv(config, { fallbackToDefaults: true, onWarning: (issue) => warnings.push(issue) });
+
+    assert.equal(env.GATEWAY_REGISTRY_ENABLED, true);
+    assert.equal(env.GATEWAY_HEARTBEAT_INTERVAL, 5000);
+    assert.deepEqual(warnings.map((w) => w.key), ['GATEWAY_REGISTRY_ENABLED', 'GATEWAY_HEARTBEAT_INTERVAL']);
+    assert.match(warnings[0].message, /using the default true$/);
+  });
+});
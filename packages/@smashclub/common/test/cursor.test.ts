@@ -0,0 +1,206 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { BadRequestException } from '@nestjs/common';
+import {
+  calculateCursorPagination,
+  createCursorPaginatedResult,
+  CursorPaginatedResult,
+  CursorPaginationQueryDto,
+  DEFAULT_PAGINATION,
+  decodeCursor,
+  encodeCursor,
+  getSortValues,
+  InMemoryRepository,
+  InvalidCursorError,
+  keysetOrderBy,
+  keysetSql,
+  keysetWhere,
+  normalizeSort,
+  setCursorSecret,
+  SortField,
+} from '../src';
+
+interface Booking {
+  id: string;
+  startsAt: Date;
+  court: { name: string };
+}
+
+const bookings: Booking[] = Array.from({ length: 7 }, (_, i) => ({
+  id: `b${i}`,
+  // Pairs share a start time, so the id tie-breaker decides
+  startsAt: new Date(Date.UTC(2026, 0, 1, Math.floor(i / 2))),
+  court: { name: `Court ${i % 3}` },
+}));
+
+const ids = (page: CursorPaginatedResult<Booking>) => page.data.map((b) => b.id);
+
+/** Ids read page by page with nextCursor, then back again with prevCursor */
+async function walk(
+  repository: InMemoryRepository<Booking>,
+  sort: SortField[],
+): Promise<{ forward: string[]; backward: string[] }> {
+  const forward: string[] = [];
+  let page = await repository.findPage({ sort, limit: 3 });
+  forward.push(...ids(page));
+  while (page.nextCursor) {
+    page = await repository.findPage({ sort, limit: 3, cursor: page.nextCursor });
+    forward.push(...ids(page));
+  }
+
+  const backward = ids(page);
+  while (page.prevCursor) {
+    page = await repository.findPage({ sort, limit: 3, cursor: page.prevCursor });
+    backward.unshift(...ids(page));
+  }
+  return { forward, backward };
+}
+
+describe('cursors', () => {
+  before(() => setCursorSecret('test-cursor-secret'));
+
+  it('round-trips values, dates included', () => {
+    const startsAt = new Date('2026-01-01T10:00:00.000Z');
+    const cursor = encodeCursor({ direction: 'before', sort: 'startsAt:desc,id:desc', values: [startsAt, 'b1'] });
+
+    assert.deepEqual(decodeCursor(cursor, 'startsAt:desc,id:desc'), {
+      direction: 'before',
+      sort: 'startsAt:desc,id:desc',
+      values: [startsAt, 'b1'],
+    });
+  });
+
+  it('rejects tampered cursors and cursors issued for another sort', () => {
+    const cursor = encodeCursor({ direction: 'after', sort: 'id:asc', values: ['b1'] });
+    const [body, signature] = cursor.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(body, 'base64url').toString()), k: ['b9'] }),
+    ).toString('base64url');
+
+    assert.throws(() => decodeCursor(`${forged}.${signature}`), InvalidCursorError);
+    assert.throws(() => decodeCursor('garbage'), InvalidCursorError);
+    assert.throws(() => decodeCursor(cursor, 'price:asc,id:asc'), /issued for another sort/);
+  });
+
+  it('appends the id tie-breaker to the sort', () => {
+    assert.deepEqual(normalizeSort([{ field: 'startsAt', direction: 'asc' }]), [
+      { field: 'startsAt', direction: 'asc' },
+      { field: 'id', direction: 'asc' },
+    ]);
+    assert.deepEqual(normalizeSort(), [
+      { field: 'createdAt', direction: 'desc' },
+      { field: 'id', direction: 'desc' },
+    ]);
+  });
+
+  it('builds keyset clauses for Prisma and SQL', () => {
+    const sort = normalizeSort([{ field: 'startsAt', direction: 'desc' }]);
+    const at = new Date('2026-01-01T10:00:00.000Z');
+
+    assert.deepEqual(keysetWhere(sort, [at, 'b4'], 'after'), {
+      OR: [{ startsAt: { lt: at } }, { startsAt: at, id: { lt: 'b4' } }],
+    });
+    assert.deepEqual(keysetOrderBy(sort, 'before'), [{ startsAt: 'asc' }, { id: 'asc' }]);
+    assert.deepEqual(keysetSql(sort, [at, 'b4'], 'after'), {
+      sql: '("startsAt" < $1) OR ("startsAt" = $2 AND "id" < $3)',
+      params: [at, at, 'b4'],
+    });
+  });
+
+  it('links pages with next and previous cursors', () => {
+    const sort = [{ field: 'id', direction: 'asc' as const }];
+    const rows = [{ id: 'b1' }, { id: 'b2' }, { id: 'b3' }];
+
+    const first = createCursorPaginatedResult(rows, calculateCursorPagination({ sort, limit: 2 }));
+    assert.deepEqual(first.data, rows.slice(0, 2));
+    assert.equal(first.hasMore, true);
+    assert.equal(first.prevCursor, null);
+    assert.deepEqual(decodeCursor(first.nextCursor!).values, ['b2']);
+
+    const second = calculateCursorPagination({ sort, limit: 2, cursor: first.nextCursor! });
+    assert.equal(second.direction, 'after');
+    assert.deepEqual(second.cursor?.values, ['b2']);
+    assert.equal(second.take, 3);
+  });
+
+  it('rejects a cursor issued for another sort when paginating', () => {
+    const cursor = encodeCursor({ direction: 'after', sort: 'id:asc', values: ['b1'] });
+
+    assert.throws(
+      () => calculateCursorPagination({ sort: [{ field: 'price', direction: 'asc' }], cursor }),
+      InvalidCursorError,
+    );
+  });
+
+  it('reads dotted sort fields from relations', () => {
+    const sort = normalizeSort([{ field: 'court.name', direction: 'asc' }]);
+
+    assert.deepEqual(getSortValues(bookings[4], sort), ['Court 1', 'b4']);
+  });
+
+  it('nests dotted fields in Prisma keyset clauses', () => {
+    const sort = normalizeSort([{ field: 'court.name', direction: 'asc' }]);
+
+    assert.deepEqual(keysetWhere(sort, ['Court 1', 'b4'], 'after'), {
+      OR: [
+        { AND: [{ court: { name: { gt: 'Court 1' } } }] },
+        { AND: [{ court: { name: 'Court 1' } }, { id: { gt: 'b4' } }] },
+      ],
+    });
+    assert.deepEqual(keysetOrderBy(sort, 'before'), [{ court: { name: 'desc' } }, { id: 'desc' }]);
+  });
+
+  it('quotes each segment of dotted fields in SQL keyset clauses', () => {
+    const sort = normalizeSort([{ field: 'court.name', direction: 'asc' }]);
+
+    assert.equal(
+      keysetSql(sort, ['Court 1', 'b4'], 'after').sql,
+      '("court"."name" > $1) OR ("court"."name" = $2 AND "id" > $3)',
+    );
+  });
+
+  const cases: Array<[SortField[], string[]]> = [
+    [[{ field: 'startsAt', direction: 'desc' }], ['b6', 'b5', 'b4', 'b3', 'b2', 'b1', 'b0']],
+    [[{ field: 'court.name', direction: 'asc' }], ['b0', 'b3', 'b6', 'b1', 'b4', 'b2', 'b5']],
+  ];
+  for (const [sort, expected] of cases) {
+    it(`pages through every row once, both ways (sort ${sort[0].field})`, async () => {
+      const repository = new InMemoryRepository<Booking>().seed(bookings);
+
+      const { forward, backward } = await walk(repository, sort);
+
+      assert.deepEqual(forward, expected);
+      assert.deepEqual(backward, expected);
+    });
+  }
+});
+
+describe('CursorPaginationQueryDto', () => {
+  function dto(query: Record<string, unknown>): CursorPaginationQueryDto {
+    return Object.assign(new CursorPaginationQueryDto(), query);
+  }
+
+  it('builds findPage params from a whitelisted sort', () => {
+    const query = dto({ cursor: 'abc', limit: '5', sortBy: 'startsAt', sortOrder: 'asc' });
+
+    assert.deepEqual(query.toParams(['startsAt']), {
+      cursor: 'abc',
+      limit: 5,
+      sort: [{ field: 'startsAt', direction: 'asc' }],
+    });
+  });
+
+  it('rejects sort fields and orders that are not allowed', () => {
+    assert.throws(() => dto({ sortBy: 'passwordHash' }).toParams(['startsAt']), BadRequestException);
+    assert.throws(() => dto({ sortBy: 'startsAt', sortOrder: 'sideways' }).toParams(['startsAt']), /sortOrder/);
+  });
+
+  it('coerces and clamps the limit', () => {
+    assert.equal(dto({ limit: '0' }).toParams([]).limit, 1);
+    assert.equal(dto({ limit: '100000' }).toParams([]).limit, DEFAULT_PAGINATION.MAX_LIMIT);
+    assert.equal(dto({ limit: '' }).toParams([]).limit, DEFAULT_PAGINATION.LIMIT);
+    assert.equal(dto({ limit: 7.9 }).toParams([]).limit, 7);
+    assert.throws(() => dto({ limit: 'many' }).toParams([]), /limit must be a number/);
+  });
+});
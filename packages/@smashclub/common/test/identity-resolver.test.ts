@@ -0,0 +1,131 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ConfigService } from '@nestjs/config';
+import {
+  IDENTITY_STRATEGY,
+  IdentityRequest,
+  IdentityResolver,
+  IdentityResolverOptions,
+  IdentityStrategy,
+  IdentityStrategyResult,
+  InMemoryNonceStore,
+  signIdentity,
+} from '../src';
+
+/** Strategy that answers with a fixed result and counts its calls */
+function fixed(name: string, result: IdentityStrategyResult | null): IdentityStrategy & { calls: number } {
+  const strategy = {
+    name,
+    calls: 0,
+    async resolve() {
+      strategy.calls++;
+      return result;
+    },
+  };
+  return strategy;
+}
+
+function resolver(options: IdentityResolverOptions, env: Record<string, string> = {}): IdentityResolver {
+  return new IdentityResolver({ nonceStore: new InMemoryNonceStore(), ...options }, new ConfigService(env));
+}
+
+describe('IdentityResolver', () => {
+  it('defaults to signed-session, gateway-headers, bearer-jwt, api-key', () => {
+    assert.deepEqual(resolver({}).getOrder(), [
+      IDENTITY_STRATEGY.SIGNED_SESSION,
+      IDENTITY_STRATEGY.GATEWAY_HEADERS,
+      IDENTITY_STRATEGY.BEARER_JWT,
+      IDENTITY_STRATEGY.API_KEY,
+    ]);
+  });
+
+  it('leaves gateway-headers out when TRUST_GATEWAY_AUTH is false', () => {
+    assert.deepEqual(resolver({}, { TRUST_GATEWAY_AUTH: 'false' }).getOrder(), [
+      IDENTITY_STRATEGY.SIGNED_SESSION,
+      IDENTITY_STRATEGY.BEARER_JWT,
+      IDENTITY_STRATEGY.API_KEY,
+    ]);
+  });
+
+  it('refuses unknown strategy names', () => {
+    assert.throws(
+      () => resolver({ strategies: [IDENTITY_STRATEGY.SIGNED_SESSION, 'magic'] }),
+      /Unknown identity strategies: magic/,
+    );
+  });
+
+  it('lets the first strategy that finds credentials decide', async () => {
+    const none = fixed('none', null);
+    const first = fixed('first', { user: { id: 'u1', roles: [] } });
+    const second = fixed('second', { user: { id: 'u2', roles: [] } });
+    const request: IdentityRequest = { headers: {} };
+
+    const chain = resolver({ strategies: ['none', 'first', 'second'], customStrategies: [none, first, second] });
+    await chain.resolve(request);
+
+    assert.equal(request.user?.id, 'u1');
+    assert.equal(request.authStrategy, 'first');
+    assert.deepEqual([none.calls, first.calls, second.calls], [1, 1, 0]);
+  });
+
+  it('never falls through to weaker strategies after a rejection', async () => {
+    const rejecting = fixed('rejecting', { error: { code: 'NOPE', message: 'rejected' } });
+    const lenient = fixed('lenient', { user: { id: 'u1', roles: [] } });
+    const request: IdentityRequest = { headers: {} };
+
+    const chain = resolver({ strategies: ['rejecting', 'lenient'], customStrategies: [rejecting, lenient] });
+    await chain.resolve(request);
+
+    assert.equal(request.user, undefined);
+    assert.deepEqual(request.authError, { code: 'NOPE', message: 'rejected' });
+    assert.equal(lenient.calls, 0);
+  });
+
+  it('runs the chain once per request, across resolvers', async () => {
+    const counting = fixed('counting', { user: { id: 'u1', roles: [] } });
+    const options = { strategies: ['counting'], customStrategies: [counting] };
+    const request: IdentityRequest = { headers: {} };
+
+    await Promise.all([resolver(options).resolve(request), resolver(options).resolve(request)]);
+    await resolver(options).resolve(request);
+    await resolver(options).resolve({ headers: {} });
+
+    assert.equal(counting.calls, 2);
+  });
+
+  it('keeps a user set upstream and normalises sub to id', async () => {
+    const counting = fixed('counting', { user: { id: 'u2', roles: [] } });
+    const request = { headers: {}, user: { sub: 'u1', roles: [] } } as unknown as IdentityRequest;
+
+    await resolver({ strategies: ['counting'], customStrategies: [counting] }).resolve(request);
+
+    assert.equal(request.user?.id, 'u1');
+    assert.equal(request.authStrategy, IDENTITY_STRATEGY.EXTERNAL);
+    assert.equal(counting.calls, 0);
+  });
+
+  it('prefers a signed session over unsigned headers and bearer tokens', async () => {
+    const request: IdentityRequest = {
+      headers: { ...signIdentity({ id: 'u1', roles: ['PLAYER'] }, 'current'), authorization: 'Bearer x.y.z' },
+    };
+
+    await resolver({ signingSecrets: ['current'], jwt: { secret: 'jwt-secret' } }).resolve(request);
+
+    assert.equal(request.authStrategy, IDENTITY_STRATEGY.SIGNED_SESSION);
+    assert.deepEqual(request.user?.roles, ['PLAYER']);
+  });
+
+  it('trusts plain x-user-* headers only without a signing secret', async () => {
+    const headers = { 'x-user-id': 'u1', 'x-user-roles': 'ADMIN' };
+    const unsigned: IdentityRequest = { headers };
+    const rejected: IdentityRequest = { headers };
+
+    await resolver({}).resolve(unsigned);
+    await resolver({ signingSecrets: ['current'] }).resolve(rejected);
+
+    assert.equal(unsigned.authStrategy, IDENTITY_STRATEGY.GATEWAY_HEADERS);
+    assert.equal(rejected.user, undefined);
+    assert.equal(rejected.authError?.code, 'MISSING_SIGNATURE');
+  });
+});
@@ -0,0 +1,114 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  ConcurrencyConflictError,
+  IAuditable,
+  IBaseEntity,
+  InMemoryRepository,
+  ISoftDeletable,
+  parseQuerySpec,
+} from '../src';
+
+interface Court extends IBaseEntity, Partial<ISoftDeletable & IAuditable> {
+  name: string;
+  price: number;
+}
+
+const now = new Date('2026-01-01T00:00:00.000Z');
+
+function courts(options: { softDelete?: boolean } = {}): InMemoryRepository<Court> {
+  return new InMemoryRepository<Court>({
+    ...options,
+    now: () => now,
+    currentUserId: () => 'u1',
+  }).seed([
+    { id: 'c1', name: 'Court 1', price: 100 },
+    { id: 'c2', name: 'Court 2', price: 200 },
+    { id: 'c3', name: 'Court 3', price: 300 },
+  ]);
+}
+
+describe('InMemoryRepository', () => {
+  it('stamps audit fields and generates ids on save', async () => {
+    const repository = courts();
+
+    const saved = await repository.save({ id: '', name: 'Court 4', price: 400 });
+
+    assert.ok(saved.id);
+    assert.equal(saved.createdAt?.getTime(), now.getTime());
+    assert.equal(saved.createdBy, 'u1');
+    assert.deepEqual(await repository.findById(saved.id), saved);
+  });
+
+  it('copies entities in and out', async () => {
+    const repository = courts();
+
+    const court = (await repository.findById('c1'))!;
+    court.name = 'Changed';
+
+    assert.equal((await repository.findById('c1'))?.name, 'Court 1');
+  });
+
+  it('removes rows without softDelete', async () => {
+    const repository = courts();
+
+    await repository.delete('c1');
+
+    assert.equal(await repository.findById('c1', { withDeleted: true }), null);
+  });
+
+  it('hides soft-deleted rows from every read, pages and totals included', async () => {
+    const repository = courts({ softDelete: true });
+
+    await repository.delete('c2');
+
+    assert.equal(await repository.findById('c2'), null);
+    assert.equal((await repository.findById('c2', { withDeleted: true }))?.isDeleted, true);
+    assert.deepEqual((await repository.findAll()).map((c) => c.id), ['c1', 'c3']);
+    assert.equal((await repository.findMany({ page: 1, limit: 10 })).total, 2);
+    assert.deepEqual((await repository.findPage({ limit: 10 })).data.map((c) => c.id).sort(), ['c1', 'c3']);
+    assert.equal((await repository.findMany({ page: 1, limit: 10 }, { withDeleted: true })).total, 3);
+  });
+
+  it('evaluates query specs like the ORM translators', () => {
+    const repository = courts();
+    const spec = parseQuerySpec(
+      { 'price[gte]': '200', sort: '-price' },
+      { sortable: ['price'], filterable: { price: 'number' } },
+    );
+
+    assert.deepEqual(repository.query(spec).map((c) => c.id), ['c3', 'c2']);
+    assert.equal(repository.count(spec), 2);
+  });
+
+  it('only saves when the stored version is the expected one', async () => {
+    const repository = new InMemoryRepository<Court & { version: number }>().seed([
+      { id: 'c1', name: 'Court 1', price: 100, version: 2 },
+    ]);
+
+    assert.equal(await repository.saveIfVersion({ id: 'c1', name: 'A', price: 1, version: 3 }, 1), null);
+    assert.equal((await repository.saveIfVersion({ id: 'c1', name: 'B', price: 1, version: 3 }, 2))?.name, 'B');
+  });
+
+  it('versions saves and rejects stale ones with optimisticLocking', async () => {
+    const repository = new InMemoryRepository<Court & { version: number }>({ optimisticLocking: true });
+
+    const created = await repository.save({ id: 'c1', name: 'Court 1', price: 100, version: 0 });
+    const updated = await repository.save({ ...created, price: 150 });
+
+    assert.deepEqual([created.version, updated.version], [1, 2]);
+    await assert.rejects(repository.save({ ...created, price: 120 }), ConcurrencyConflictError);
+    assert.equal((await repository.findById('c1'))?.price, 150);
+  });
+
+  it('restores snapshots', async () => {
+    const repository = courts();
+    const clean = repository.snapshot();
+
+    await repository.delete('c1');
+    repository.restoreSnapshot(clean);
+
+    assert.equal((await repository.findAll()).length, 3);
+  });
+});
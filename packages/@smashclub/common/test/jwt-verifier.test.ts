@@ -0,0 +1,177 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { createHmac, generateKeyPairSync, KeyObject, sign } from 'node:crypto';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import {
+  isServiceIdentity,
+  JwksKeyStore,
+  JwtErrorCode,
+  JwtPayload,
+  JwtVerificationError,
+  JwtVerifier,
+} from '../src';
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function hs256(payload: JwtPayload, secret = 'jwt-secret', alg = 'HS256'): string {
+  const input = `${encode({ alg, typ: 'JWT' })}.${encode(payload)}`;
+  return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+}
+
+function signed(alg: 'RS256' | 'ES256', key: KeyObject, payload: JwtPayload, kid?: string): string {
+  const input = `${encode({ alg, typ: 'JWT', kid })}.${encode(payload)}`;
+  const signature = sign('sha256', Buffer.from(input), { key, dsaEncoding: 'ieee-p1363' });
+  return `${input}.${signature.toString('base64url')}`;
+}
+
+async function rejection(verifier: JwtVerifier, token: string | undefined): Promise<JwtErrorCode> {
+  try {
+    await verifier.verify(token);
+  } catch (error) {
+    assert.ok(error instanceof JwtVerificationError);
+    return error.code;
+  }
+  assert.fail('expected a JwtVerificationError');
+}
+
+const nowSec = Math.floor(Date.now() / 1000);
+
+describe('JwtVerifier', () => {
+  const verifier = new JwtVerifier({ secret: 'jwt-secret', issuer: 'auth', audience: ['api', 'admin'] });
+  const claims = { sub: 'u1', iss: 'auth', aud: 'api', exp: nowSec + 60 };
+
+  it('verifies HS256 tokens and their registered claims', async () => {
+    assert.equal((await verifier.verify(hs256(claims))).sub, 'u1');
+  });
+
+  it('rejects disallowed algorithms, alg none included', async () => {
+    assert.equal(await rejection(verifier, hs256(claims, 'jwt-secret', 'none')), JwtErrorCode.ALGORITHM_NOT_ALLOWED);
+    assert.equal(await rejection(verifier, hs256(claims, 'jwt-secret', 'RS256')), JwtErrorCode.ALGORITHM_NOT_ALLOWED);
+  });
+
+  it('rejects bad signatures and malformed tokens', async () => {
+    assert.equal(await rejection(verifier, hs256(claims, 'other-secret')), JwtErrorCode.SIGNATURE_INVALID);
+    assert.equal(await rejection(verifier, 'a.b'), JwtErrorCode.TOKEN_MALFORMED);
+    assert.equal(await rejection(verifier, undefined), JwtErrorCode.TOKEN_MISSING);
+  });
+
+  it('checks exp and nbf with clock skew', async () => {
+    const strict = new JwtVerifier({ secret: 'jwt-secret', clockSkewMs: 10_000 });
+
+    assert.equal(await rejection(strict, hs256({ sub: 'u1', exp: nowSec - 20 })), JwtErrorCode.TOKEN_EXPIRED);
+    assert.equal((await strict.verify(hs256({ sub: 'u1', exp: nowSec - 5 }))).sub, 'u1');
+    assert.equal(await rejection(strict, hs256({ sub: 'u1', nbf: nowSec + 20 })), JwtErrorCode.TOKEN_NOT_YET_VALID);
+  });
+
+  it('checks iss and aud', async () => {
+    assert.equal(await rejection(verifier, hs256({ ...claims, iss: 'other' })), JwtErrorCode.ISSUER_INVALID);
+    assert.equal(await rejection(verifier, hs256({ ...claims, aud: ['web'] })), JwtErrorCode.AUDIENCE_INVALID);
+    assert.equal((await verifier.verify(hs256({ ...claims, aud: ['web', 'admin'] }))).sub, 'u1');
+  });
+
+  it('maps only the configured claims to the request user', () => {
+    const user = verifier.toRequestUser({
+      sub: 'u1',
+      email: 'u1@example.com',
+      roles: 'PLAYER COACH',
+      isService: true,
+      serviceName: 'booking-service',
+      scopes: ['*'],
+    });
+
+    assert.deepEqual(user, {
+      id: 'u1',
+      email: 'u1@example.com',
+      roles: ['PLAYER', 'COACH'],
+      permissions: undefined,
+    });
+    assert.equal(isServiceIdentity(user), false);
+    assert.throws(() => verifier.toRequestUser({ email: 'x' }), JwtVerificationError);
+  });
+
+  it('verifies RS256 and ES256 with a public key', async () => {
+    const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const pem = (key: KeyObject) => key.export({ type: 'spki', format: 'pem' }).toString();
+
+    const rsaVerifier = new JwtVerifier({ publicKey: pem(rsa.publicKey) });
+    assert.equal((await rsaVerifier.verify(signed('RS256', rsa.privateKey, { sub: 'u1' }))).sub, 'u1');
+    assert.equal(
+      await rejection(rsaVerifier, signed('ES256', ec.privateKey, { sub: 'u1' })),
+      JwtErrorCode.KEY_NOT_FOUND,
+    );
+
+    const ecVerifier = new JwtVerifier({ publicKey: pem(ec.publicKey) });
+    assert.equal((await ecVerifier.verify(signed('ES256', ec.privateKey, { sub: 'u1' }))).sub, 'u1');
+  });
+
+  it('refuses ES256 with a key on another curve', async () => {
+    const p384 = generateKeyPairSync('ec', { namedCurve: 'P-384' });
+    const publicKey = p384.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    const ecVerifier = new JwtVerifier({ publicKey });
+
+    assert.equal(
+      await rejection(ecVerifier, signed('ES256', p384.privateKey, { sub: 'u1' })),
+      JwtErrorCode.KEY_NOT_FOUND,
+    );
+  });
+});
+
+describe('JwksKeyStore', () => {
+  const good = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const p384 = generateKeyPairSync('ec', { namedCurve: 'P-384' });
+
+  function jwksFile(): string {
+    const path = join(mkdtempSync(join(tmpdir(), 'jwks-')), 'jwks.json');
+    writeFileSync(
+      path,
+      JSON.stringify({
+        keys: [
+          { kty: 'EC', kid: 'broken', crv: 'P-256', x: 'AAAA', y: 'AAAA' },
+          { ...p384.publicKey.export({ format: 'jwk' }), kid: 'p384', alg: 'ES256' },
+          { ...good.publicKey.export({ format: 'jwk' }), kid: 'enc', use: 'enc' },
+          { ...good.publicKey.export({ format: 'jwk' }), kid: 'good', alg: 'ES256', use: 'sig' },
+        ],
+      }),
+    );
+    return path;
+  }
+
+  it('skips keys that fail to import, use the wrong curve or are not for signing', async () => {
+    const store = new JwksKeyStore({ source: jwksFile(), minRefreshIntervalMs: 60_000 });
+
+    assert.ok(await store.getKey('good'));
+    assert.equal(await store.getKey('broken'), null);
+    assert.equal(await store.getKey('p384'), null);
+    assert.equal(await store.getKey('enc'), null);
+  });
+
+  it('selects keys by kid when verifying', async () => {
+    const jwks = new JwksKeyStore({ source: jwksFile(), minRefreshIntervalMs: 60_000 });
+    const verifier = new JwtVerifier({ jwks });
+
+    assert.equal((await verifier.verify(signed('ES256', good.privateKey, { sub: 'u1' }, 'good'))).sub, 'u1');
+    assert.equal(
+      await rejection(verifier, signed('ES256', good.privateKey, { sub: 'u1' }, 'unknown')),
+      JwtErrorCode.KEY_NOT_FOUND,
+    );
+  });
+
+  it('gives up on a JWKS URL that does not answer in time', async () => {
+    const server = createServer(() => undefined);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+
+    try {
+      const store = new JwksKeyStore({ source: `http://127.0.0.1:${port}/jwks.json`, requestTimeoutMs: 100 });
+      await assert.rejects(store.getKey('good'), /aborted|timeout/i);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,121 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  BadRequestException,
+  ExecutionContext,
+  ForbiddenException,
+  InternalServerErrorException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { OWNED_RESOURCE, OwnershipGuard, OwnershipRegistry, OwnsResource, UserRole } from '../src';
+
+class BookingController {
+  @OwnsResource(OWNED_RESOURCE.BOOKING)
+  cancel() {}
+
+  @OwnsResource(OWNED_RESOURCE.BOOKING, { param: 'bookingId', from: 'query', bypassRole: UserRole.OWNER })
+  receipt() {}
+
+  @OwnsResource(OWNED_RESOURCE.COURT)
+  court() {}
+
+  list() {}
+}
+
+interface TestRequest {
+  user?: { id: string; roles: string[] };
+  params?: Record<string, string>;
+  query?: Record<string, string>;
+}
+
+function context(handler: keyof BookingController, request: TestRequest): ExecutionContext {
+  return {
+    getHandler: () => BookingController.prototype[handler],
+    getClass: () => BookingController,
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+const player = { id: 'u1', roles: ['PLAYER'] };
+
+function setup(): { guard: OwnershipGuard; lookups: string[] } {
+  const lookups: string[] = [];
+  const registry = new OwnershipRegistry();
+  registry.register(OWNED_RESOURCE.BOOKING, {
+    resolveOwnerIds: async (id) => {
+      lookups.push(id);
+      return id === 'missing' ? null : id === 'b1' ? ['u1'] : ['u2'];
+    },
+  });
+  return { guard: new OwnershipGuard(new Reflector(), registry), lookups };
+}
+
+describe('OwnershipGuard', () => {
+  it('lets owners through and forbids everyone else', async () => {
+    const { guard } = setup();
+
+    assert.equal(await guard.canActivate(context('cancel', { user: player, params: { id: 'b1' } })), true);
+    await assert.rejects(
+      guard.canActivate(context('cancel', { user: player, params: { id: 'b2' } })),
+      ForbiddenException,
+    );
+  });
+
+  it('returns 404 for unknown resources and 400 without an id', async () => {
+    const { guard } = setup();
+
+    await assert.rejects(
+      guard.canActivate(context('cancel', { user: player, params: { id: 'missing' } })),
+      NotFoundException,
+    );
+    await assert.rejects(guard.canActivate(context('cancel', { user: player, params: {} })), BadRequestException);
+  });
+
+  it('requires an authenticated user', async () => {
+    await assert.rejects(setup().guard.canActivate(context('cancel', { params: { id: 'b1' } })), UnauthorizedException);
+  });
+
+  it('skips the check for the bypass role and above', async () => {
+    const { guard, lookups } = setup();
+    const admin = { id: 'a1', roles: ['ADMIN'] };
+    const owner = { id: 'o1', roles: ['OWNER'] };
+
+    assert.equal(await guard.canActivate(context('cancel', { user: admin, params: { id: 'b2' } })), true);
+    assert.equal(await guard.canActivate(context('receipt', { user: owner, query: { bookingId: 'b2' } })), true);
+    await assert.rejects(
+      guard.canActivate(context('cancel', { user: owner, params: { id: 'b2' } })),
+      ForbiddenException,
+    );
+    assert.deepEqual(lookups, ['b2']);
+  });
+
+  it('reads the id from the configured request field', async () => {
+    const { guard } = setup();
+
+    assert.equal(await guard.canActivate(context('receipt', { user: player, query: { bookingId: 'b1' } })), true);
+  });
+
+  it('looks each resource up once per request', async () => {
+    const { guard, lookups } = setup();
+    const request = { user: player, params: { id: 'b1' } };
+
+    await guard.canActivate(context('cancel', request));
+    await guard.canActivate(context('cancel', request));
+
+    assert.deepEqual(lookups, ['b1']);
+  });
+
+  it('fails loudly when no resolver is registered', async () => {
+    await assert.rejects(
+      setup().guard.canActivate(context('court', { user: player, params: { id: 'c1' } })),
+      InternalServerErrorException,
+    );
+  });
+
+  it('ignores routes without @OwnsResource()', async () => {
+    assert.equal(await setup().guard.canActivate(context('list', {})), true);
+  });
+});
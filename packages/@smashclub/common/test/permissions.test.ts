@@ -0,0 +1,156 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'node:crypto';
+import { describe, it } from 'node:test';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  buildCanonicalIdentity,
+  buildHmacSignature,
+  hasPermissions,
+  IdentityRejectionReason,
+  InMemoryNonceStore,
+  PermissionRegistry,
+  permissionMatches,
+  PERMISSIONS,
+  PermissionsGuard,
+  RequirePermissions,
+  SECURITY_CONTANTS,
+  signIdentity,
+  SignedIdentityVerifier,
+} from '../src';
+
+class CourtController {
+  @RequirePermissions(PERMISSIONS.COURT_UPDATE_OWN, PERMISSIONS.COURT_UPDATE_ANY, { mode: 'any' })
+  update() {}
+
+  @RequirePermissions(PERMISSIONS.BOOKING_CANCEL_ANY)
+  cancelAny() {}
+}
+
+function canActivate(
+  handler: keyof CourtController,
+  user?: { id: string; roles: string[]; permissions?: string[] },
+): boolean {
+  const guard = new PermissionsGuard(new Reflector(), new PermissionRegistry());
+  return guard.canActivate({
+    getHandler: () => CourtController.prototype[handler],
+    getClass: () => CourtController,
+    switchToHttp: () => ({ getRequest: () => ({ user }) }),
+  } as unknown as ExecutionContext);
+}
+
+/** Headers as signed by a gateway still on the v1 canonical format */
+function signV1(user: { id: string; roles: string[] }, secret: string, now = Date.now()) {
+  const nonce = randomBytes(16).toString('hex');
+  const canonical = buildCanonicalIdentity(
+    { id: user.id, roles: user.roles, iat: now, nonce },
+    SECURITY_CONTANTS.LEGACY_SIGNED_IDENTITY_VERSION,
+  );
+  return {
+    [SECURITY_CONTANTS.X_USER_ID_HEADER]: user.id,
+    [SECURITY_CONTANTS.X_USER_ROLES_HEADER]: user.roles.join(','),
+    [SECURITY_CONTANTS.X_USER_SESSION_HEADER]: `${now}.${nonce}.${buildHmacSignature(canonical, secret)}`,
+  };
+}
+
+function verifier(acceptLegacyVersion?: boolean): SignedIdentityVerifier {
+  return new SignedIdentityVerifier({
+    secrets: ['current'],
+    nonceStore: new InMemoryNonceStore(),
+    acceptLegacyVersion,
+  });
+}
+
+describe('permission matching', () => {
+  it('expands wildcards and lets the any scope imply own', () => {
+    assert.equal(permissionMatches('*', 'booking:cancel:any'), true);
+    assert.equal(permissionMatches('booking:*:own', 'booking:cancel:own'), true);
+    assert.equal(permissionMatches('booking:cancel:any', 'booking:cancel:own'), true);
+    assert.equal(permissionMatches('booking:cancel:own', 'booking:cancel:any'), false);
+    assert.equal(permissionMatches('booking:cancel', 'booking:cancel:own'), false);
+  });
+
+  it('requires all permissions unless mode is any', () => {
+    const granted = ['court:read:any', 'booking:create:own'];
+
+    assert.equal(hasPermissions(granted, ['court:read:any', 'booking:cancel:own']), false);
+    assert.equal(hasPermissions(granted, ['court:read:any', 'booking:cancel:own'], 'any'), true);
+  });
+});
+
+describe('PermissionRegistry', () => {
+  it('combines role permissions with permission claims', () => {
+    const registry = new PermissionRegistry();
+
+    assert.equal(registry.can({ roles: ['PLAYER'] }, [PERMISSIONS.BOOKING_CANCEL_ANY]), false);
+    assert.equal(
+      registry.can({ roles: ['PLAYER'], permissions: ['booking:cancel:any'] }, [PERMISSIONS.BOOKING_CANCEL_ANY]),
+      true,
+    );
+    assert.equal(registry.can({ roles: ['ADMIN'] }, [PERMISSIONS.BOOKING_CANCEL_ANY]), true);
+  });
+
+  it('grants and revokes at runtime', () => {
+    const registry = new PermissionRegistry();
+
+    registry.grant('coach', 'court:update:own');
+    assert.equal(registry.can({ roles: ['COACH'] }, ['court:update:own']), true);
+
+    registry.revoke('COACH', 'court:update:own');
+    assert.equal(registry.can({ roles: ['COACH'] }, ['court:update:own']), false);
+  });
+
+  it('lists which roles hold each permission', () => {
+    const matrix = new PermissionRegistry().dumpMatrix();
+
+    assert.deepEqual(matrix.permissions[PERMISSIONS.COURT_UPDATE_OWN], ['OWNER', 'ADMIN']);
+  });
+});
+
+describe('PermissionsGuard', () => {
+  it('checks @RequirePermissions() in both modes', () => {
+    assert.equal(canActivate('update', { id: 'u1', roles: ['OWNER'] }), true);
+    assert.throws(() => canActivate('cancelAny', { id: 'u1', roles: ['OWNER'] }), ForbiddenException);
+    assert.equal(canActivate('cancelAny', { id: 'u1', roles: ['OWNER'], permissions: ['booking:*:any'] }), true);
+  });
+
+  it('forbids requests without a user', () => {
+    assert.throws(() => canActivate('update'), /Required permissions: court:update:own or court:update:any/);
+  });
+});
+
+describe('signed permission claims', () => {
+  const player = { id: 'u1', roles: ['PLAYER'], permissions: ['booking:cancel:any'] };
+
+  it('signs and verifies permissions with the v2 format', () => {
+    const result = verifier().verify(signIdentity(player, 'current'));
+
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.valid && result.user.permissions, ['booking:cancel:any']);
+  });
+
+  it('rejects permissions added to a signed identity', () => {
+    const headers = {
+      ...signIdentity({ id: 'u1', roles: ['PLAYER'] }, 'current'),
+      [SECURITY_CONTANTS.X_USER_PERMISSIONS_HEADER]: '*',
+    };
+
+    const result = verifier().verify(headers);
+    assert.equal(!result.valid && result.reason, IdentityRejectionReason.INVALID_SIGNATURE);
+  });
+
+  it('accepts v1 signatures without permissions during rollout', () => {
+    const headers = signV1(player, 'current');
+
+    assert.equal(verifier().verify(headers).valid, true);
+    assert.equal(verifier(false).verify(headers).valid, false);
+  });
+
+  it('never accepts permissions on a v1 signature', () => {
+    const headers = { ...signV1(player, 'current'), [SECURITY_CONTANTS.X_USER_PERMISSIONS_HEADER]: '*' };
+
+    const result = verifier().verify(headers);
+    assert.equal(!result.valid && result.reason, IdentityRejectionReason.INVALID_SIGNATURE);
+  });
+});
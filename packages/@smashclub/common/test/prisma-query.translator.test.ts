@@ -0,0 +1,63 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseQuerySpec, QueryParserOptions, toPrismaFindMany, toPrismaWhere } from '../src';
+
+const options: QueryParserOptions = {
+  sortable: ['createdAt'],
+  includable: ['court', 'court.club', 'players'],
+  filterable: {
+    status: 'string',
+    'court.name': 'string',
+    'players.userId': 'string',
+    'court.slots.startsAt': 'date',
+  },
+};
+
+describe('toPrismaFindMany', () => {
+  it('translates filters, sort, pages and includes', () => {
+    const spec = parseQuerySpec(
+      {
+        status: 'PENDING',
+        'court.name[contains]': 'A',
+        sort: '-createdAt',
+        page: '2',
+        limit: '5',
+        include: 'court.club',
+      },
+      options,
+    );
+
+    assert.deepEqual(toPrismaFindMany(spec, { softDeletable: true, caseInsensitive: true }), {
+      where: {
+        AND: [
+          { status: 'PENDING' },
+          { court: { name: { contains: 'A', mode: 'insensitive' } } },
+          { isDeleted: false },
+        ],
+      },
+      orderBy: [{ createdAt: 'desc' }],
+      skip: 5,
+      take: 5,
+      include: { court: { include: { club: true } } },
+    });
+  });
+
+  it('filters through to-many relations with some', () => {
+    const at = '2026-01-31T10:00:00.000Z';
+    const spec = parseQuerySpec({ 'players.userId': 'u1', 'court.slots.startsAt[gte]': at }, options);
+
+    assert.deepEqual(toPrismaWhere(spec, { listRelations: ['players', 'court.slots'] }), {
+      AND: [
+        { players: { some: { userId: 'u1' } } },
+        { court: { slots: { some: { startsAt: { gte: new Date(at) } } } } },
+      ],
+    });
+  });
+
+  it('nests relations not listed as to-many without some', () => {
+    const spec = parseQuerySpec({ 'players.userId': 'u1' }, options);
+
+    assert.deepEqual(toPrismaWhere(spec), { AND: [{ players: { userId: 'u1' } }] });
+  });
+});
@@ -0,0 +1,125 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BadRequestException } from '@nestjs/common';
+import { DEFAULT_PAGINATION, parseQuerySpec, QueryParserOptions } from '../src';
+
+const options: QueryParserOptions = {
+  sortable: ['createdAt', 'price'],
+  includable: ['court'],
+  filterable: {
+    price: 'number',
+    name: 'string',
+    status: { type: 'enum', values: ['PENDING', 'CONFIRMED'] },
+  },
+  defaultSort: '-createdAt',
+};
+
+function errorsOf(query: Record<string, unknown>, parserOptions = options): string[] {
+  try {
+    parseQuerySpec(query, parserOptions);
+  } catch (error) {
+    assert.ok(error instanceof BadRequestException);
+    return (error.getResponse() as { message: string[] }).message;
+  }
+  assert.fail('expected a BadRequestException');
+}
+
+describe('parseQuerySpec', () => {
+  it('parses pagination, sort, filters and includes', () => {
+    const spec = parseQuerySpec(
+      {
+        page: '2',
+        limit: '10',
+        sort: '-price,createdAt',
+        'price[gte]': '100000',
+        status: { in: 'PENDING,CONFIRMED' },
+        name: 'Court 1',
+        include: 'court',
+      },
+      options,
+    );
+
+    assert.deepEqual(spec.pagination, { mode: 'offset', page: 2, limit: 10, skip: 10, take: 10 });
+    assert.deepEqual(spec.sort, [
+      { field: 'price', direction: 'desc' },
+      { field: 'createdAt', direction: 'asc' },
+    ]);
+    assert.deepEqual(spec.filters, [
+      { field: 'price', op: 'gte', value: 100000 },
+      { field: 'status', op: 'in', value: ['PENDING', 'CONFIRMED'] },
+      { field: 'name', op: 'eq', value: 'Court 1' },
+    ]);
+    assert.deepEqual(spec.include, ['court']);
+  });
+
+  it('falls back to the default sort and limit', () => {
+    const spec = parseQuerySpec({}, options);
+
+    assert.deepEqual(spec.sort, [{ field: 'createdAt', direction: 'desc' }]);
+    assert.equal(spec.pagination.limit, DEFAULT_PAGINATION.LIMIT);
+  });
+
+  it('reads cursors in cursor mode', () => {
+    const spec = parseQuerySpec({ cursor: 'abc', limit: '5' }, { ...options, mode: 'cursor' });
+
+    assert.deepEqual(spec.pagination, { mode: 'cursor', cursor: 'abc', limit: 5 });
+  });
+
+  it('lists every invalid param', () => {
+    const errors = errorsOf({
+      limit: '0',
+      sort: 'secret',
+      'price[contains]': '1',
+      'status[eq]': 'CANCELLED',
+      include: 'owner',
+      cursor: 'abc',
+    });
+
+    assert.equal(errors.length, 6);
+  });
+
+  it('rejects values that do not match the field type', () => {
+    assert.deepEqual(errorsOf({ price: 'cheap' }), ['price must be a number (got "cheap")']);
+  });
+
+  it('accepts only plain decimal numbers', () => {
+    assert.deepEqual(parseQuerySpec({ price: '-12.5' }, options).filters, [
+      { field: 'price', op: 'eq', value: -12.5 },
+    ]);
+    for (const raw of ['0x10', '1e3', ' ', ' 1', 'Infinity', '1.']) {
+      assert.deepEqual(errorsOf({ price: raw }), [`price must be a number (got ${JSON.stringify(raw)})`]);
+    }
+  });
+
+  it('accepts only ISO-8601 dates', () => {
+    const dates: QueryParserOptions = { filterable: { startsAt: 'date' } };
+
+    const accepted = ['2026-01-31', '2026-01-31T10:00', '2026-01-31T10:00:00.000Z', '2026-01-31T10:00:00+07:00'];
+
+    for (const raw of accepted) {
+      const [filter] = parseQuerySpec({ startsAt: raw }, dates).filters;
+      assert.equal((filter.value as Date).getTime(), new Date(raw).getTime());
+    }
+    for (const raw of ['1', 'Jan 31 2026', '2026-02-30', '2026-1-31', '']) {
+      assert.equal(errorsOf({ startsAt: raw }, dates).length, 1, raw);
+    }
+  });
+
+  it('rejects Object.prototype keys as unknown fields', () => {
+    for (const key of ['constructor', 'toString', '__proto__[eq]', 'hasOwnProperty[gt]']) {
+      const errors = errorsOf({ [key]: '1' });
+      assert.equal(errors.length, 1);
+      assert.match(errors[0], /^Unknown query parameter/);
+    }
+  });
+
+  it('rejects fields with an unknown type instead of throwing a TypeError', () => {
+    const errors = errorsOf(
+      { price: '1' },
+      { filterable: { price: { type: 'toString' as 'number' } } },
+    );
+
+    assert.match(errors[0], /^Operator "eq" is not allowed on price/);
+  });
+});
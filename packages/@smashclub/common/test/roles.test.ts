@@ -0,0 +1,89 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { hasRole, MinRole, Roles, RolesGuard, satisfiesRole, UserRole } from '../src';
+
+@Roles('PLAYER', 'COACH', { mode: 'all' })
+class TrainingController {
+  both() {}
+
+  @Roles('OWNER')
+  ownerOnly() {}
+}
+
+class PlansController {
+  @MinRole(UserRole.COACH)
+  coachOrAbove() {}
+
+  @Roles('COACH', { hierarchy: true })
+  coachHierarchy() {}
+}
+
+const guard = new RolesGuard(new Reflector());
+
+function canActivate<T extends object>(
+  controller: new () => T,
+  handler: keyof T,
+  roles?: string[],
+): boolean {
+  const request = { user: roles && { id: 'u1', roles } };
+  return guard.canActivate({
+    getHandler: () => controller.prototype[handler],
+    getClass: () => controller,
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext);
+}
+
+describe('role utils', () => {
+  it('matches roles exactly and case-insensitively by default', () => {
+    assert.equal(hasRole(['owner'], ['OWNER', 'ADMIN']), true);
+    assert.equal(hasRole(['ADMIN'], ['COACH']), false);
+    assert.equal(hasRole(['PLAYER'], []), true);
+  });
+
+  it('lets higher roles through with hierarchy', () => {
+    assert.equal(hasRole(['ADMIN'], ['COACH'], { hierarchy: true }), true);
+    assert.equal(hasRole(['PLAYER'], ['COACH'], { hierarchy: true }), false);
+  });
+
+  it('requires every role in mode all', () => {
+    assert.equal(hasRole(['PLAYER', 'COACH'], ['PLAYER', 'COACH'], { mode: 'all' }), true);
+    assert.equal(hasRole(['PLAYER'], ['PLAYER', 'COACH'], { mode: 'all' }), false);
+  });
+
+  it('ranks roles by ROLE_HIERARCHY, unknown roles only matching themselves', () => {
+    assert.equal(satisfiesRole({ roles: ['OWNER'] }, UserRole.COACH), true);
+    assert.equal(satisfiesRole({ roles: ['GUEST'] }, UserRole.PLAYER), false);
+    assert.equal(satisfiesRole(['ADMIN'], 'SUPPORT'), false);
+    assert.equal(satisfiesRole(['support'], 'SUPPORT'), true);
+  });
+});
+
+describe('RolesGuard', () => {
+  it('applies the class roles in mode all', () => {
+    assert.equal(canActivate(TrainingController, 'both', ['PLAYER', 'COACH']), true);
+    assert.throws(() => canActivate(TrainingController, 'both', ['COACH']), /Required roles: PLAYER and COACH/);
+  });
+
+  it('lets a handler @Roles() replace the class roles and options', () => {
+    assert.equal(canActivate(TrainingController, 'ownerOnly', ['OWNER']), true);
+    assert.throws(() => canActivate(TrainingController, 'ownerOnly', ['PLAYER', 'COACH']), ForbiddenException);
+  });
+
+  it('checks @MinRole() against the highest role', () => {
+    assert.equal(canActivate(PlansController, 'coachOrAbove', ['PLAYER', 'OWNER']), true);
+    assert.throws(() => canActivate(PlansController, 'coachOrAbove', ['PLAYER']), /Minimum role: COACH/);
+  });
+
+  it('honours hierarchy on @Roles()', () => {
+    assert.equal(canActivate(PlansController, 'coachHierarchy', ['ADMIN']), true);
+    assert.throws(() => canActivate(PlansController, 'coachHierarchy', ['PLAYER']), ForbiddenException);
+  });
+
+  it('forbids requests without roles', () => {
+    assert.throws(() => canActivate(TrainingController, 'ownerOnly'), /Insufficient permissions/);
+    assert.throws(() => canActivate(TrainingController, 'ownerOnly', []), /Insufficient permissions/);
+  });
+});
@@ -0,0 +1,161 @@
+import 'reflect-metadata';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  buildHmacSignature,
+  GatewayAuthGuard,
+  getDefaultNonceStore,
+  IdentityRejectionReason,
+  IdentityResolver,
+  InMemoryNonceStore,
+  parseSecretList,
+  signIdentity,
+  SignedIdentityVerifier,
+  verifyHmacSignature,
+} from '../src';
+
+const user = { id: 'u1', roles: ['USER', 'COURT_OWNER'], email: 'u1@example.com' };
+
+function verifier(secrets: string[], maxClockSkewMs?: number): SignedIdentityVerifier {
+  return new SignedIdentityVerifier({ secrets, maxClockSkewMs, nonceStore: new InMemoryNonceStore() });
+}
+
+function httpContext(request: object): ExecutionContext {
+  return {
+    getHandler: () => httpContext,
+    getClass: () => Object,
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+function reasonOf(result: ReturnType<SignedIdentityVerifier['verify']>): IdentityRejectionReason | undefined {
+  return result.valid ? undefined : result.reason;
+}
+
+describe('HMAC signatures', () => {
+  it('verifies only the secret that signed', () => {
+    const signature = buildHmacSignature('data', 'secret-a');
+
+    assert.equal(verifyHmacSignature('data', signature, 'secret-a'), true);
+    assert.equal(verifyHmacSignature('data', signature, 'secret-b'), false);
+    assert.equal(verifyHmacSignature('other', signature, 'secret-a'), false);
+    assert.equal(verifyHmacSignature('data', 'short', 'secret-a'), false);
+  });
+
+  it('parses secret lists', () => {
+    assert.deepEqual(parseSecretList(' current, previous ,,'), ['current', 'previous']);
+    assert.deepEqual(parseSecretList(undefined), []);
+  });
+});
+
+describe('SignedIdentityVerifier', () => {
+  it('accepts signed headers and returns the user', () => {
+    const result = verifier(['current']).verify(signIdentity(user, 'current'));
+
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.valid && result.user, user);
+  });
+
+  it('accepts identities signed with a previous secret during rotation', () => {
+    const headers = signIdentity(user, 'previous');
+
+    assert.equal(verifier(['current', 'previous']).verify(headers).valid, true);
+    assert.equal(reasonOf(verifier(['current']).verify(headers)), IdentityRejectionReason.INVALID_SIGNATURE);
+  });
+
+  it('rejects tampered headers', () => {
+    const headers = { ...signIdentity(user, 'current'), 'x-user-roles': 'ADMIN' };
+
+    assert.equal(reasonOf(verifier(['current']).verify(headers)), IdentityRejectionReason.INVALID_SIGNATURE);
+  });
+
+  it('rejects missing and malformed signatures', () => {
+    const headers = signIdentity(user, 'current');
+
+    assert.equal(
+      reasonOf(verifier(['current']).verify({ 'x-user-id': 'u1' })),
+      IdentityRejectionReason.MISSING_SIGNATURE,
+    );
+    assert.equal(
+      reasonOf(verifier(['current']).verify({ ...headers, 'x-user-session': 'not-a-session' })),
+      IdentityRejectionReason.MALFORMED_SIGNATURE,
+    );
+  });
+
+  it('rejects signatures outside the allowed clock skew', () => {
+    const now = Date.now();
+    const headers = signIdentity(user, 'current', { now: now - 60_000 });
+
+    assert.equal(reasonOf(verifier(['current'], 30_000).verify(headers, now)), IdentityRejectionReason.STALE_SIGNATURE);
+    assert.equal(verifier(['current'], 120_000).verify(headers, now).valid, true);
+  });
+
+  it('rejects replayed signatures', () => {
+    const headers = signIdentity(user, 'current');
+    const once = verifier(['current']);
+
+    assert.equal(once.verify(headers).valid, true);
+    assert.equal(reasonOf(once.verify(headers)), IdentityRejectionReason.REPLAYED_SIGNATURE);
+  });
+
+  it('shares the process-wide nonce store between verifiers built without one', () => {
+    const headers = signIdentity(user, 'current');
+
+    assert.equal(new SignedIdentityVerifier({ secrets: ['current'] }).verify(headers).valid, true);
+    assert.equal(
+      reasonOf(new SignedIdentityVerifier({ secrets: ['current'] }).verify(headers)),
+      IdentityRejectionReason.REPLAYED_SIGNATURE,
+    );
+    assert.equal(getDefaultNonceStore().remember(headers['x-user-session'].split('.')[1], Date.now() + 1000), false);
+  });
+
+  it('is disabled without secrets', () => {
+    assert.equal(verifier(['', '']).enabled, false);
+    assert.equal(verifier(['current']).enabled, true);
+  });
+});
+
+describe('InMemoryNonceStore', () => {
+  it('remembers nonces until they expire', () => {
+    const store = new InMemoryNonceStore(0);
+    const now = Date.now();
+
+    assert.equal(store.remember('n1', now + 1000), true);
+    assert.equal(store.remember('n1', now + 1000), false);
+    assert.equal(store.remember('n2', now - 1), true);
+    assert.equal(store.remember('n2', now + 1000), true);
+  });
+});
+
+describe('GatewayAuthGuard with signing secrets', () => {
+  function guard(): GatewayAuthGuard {
+    return new GatewayAuthGuard(
+      new Reflector(),
+      new IdentityResolver({ signingSecrets: ['current'], nonceStore: new InMemoryNonceStore() }),
+    );
+  }
+
+  it('lets signed requests through and rejects a replay with 401', async () => {
+    const authGuard = guard();
+    const headers = signIdentity(user, 'current');
+    const request: { headers: typeof headers; user?: unknown } = { headers };
+
+    assert.equal(await authGuard.canActivate(httpContext(request)), true);
+    assert.equal((request.user as { id: string }).id, 'u1');
+
+    await assert.rejects(authGuard.canActivate(httpContext({ headers })), (error) => {
+      assert.ok(error instanceof UnauthorizedException);
+      assert.equal((error.getResponse() as { error: string }).error, IdentityRejectionReason.REPLAYED_SIGNATURE);
+      return true;
+    });
+  });
+
+  it('rejects unsigned x-user-* headers', async () => {
+    await assert.rejects(
+      guard().canActivate(httpContext({ headers: { 'x-user-id': 'u1', 'x-user-roles': 'ADMIN' } })),
+      UnauthorizedException,
+    );
+  });
+});